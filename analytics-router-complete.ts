@@ -1,6 +1,23 @@
 // packages/trpc/src/routers/analytics.ts
 import { z } from 'zod'
 import { router, tenantProcedure } from '../trpc'
+import { dealAmountGroupBy, getCurrencyConverter } from '../lib/currency'
+
+// Money amounts are reported in the tenant's base currency, each deal
+// converted at its close date (see lib/currency)
+
+function groupBy<T, K>(items: T[], key: (item: T) => K): [K, T[]][] {
+  const groups = new Map<K, T[]>()
+  for (const item of items) {
+    const group = groups.get(key(item))
+    if (group) {
+      group.push(item)
+    } else {
+      groups.set(key(item), [item])
+    }
+  }
+  return Array.from(groups.entries())
+}
 
 export const analyticsRouter = router({
   // Dashboard overview
@@ -21,52 +38,59 @@ export const analyticsRouter = router({
         totalDeals,
         openDeals,
         wonDeals,
-        totalDealValue,
-        wonDealValue,
+        openDealAmounts,
+        wonDealAmounts,
         emailsSent,
         smsSent,
         appointmentsScheduled
       ] = await Promise.all([
         // Total contacts
         ctx.prisma.contact.count({
-          where: { tenantId: ctx.tenantId }
+          where: { tenantId: ctx.tenantId, deletedAt: null }
         }),
         // New contacts in period
         ctx.prisma.contact.count({
           where: {
             tenantId: ctx.tenantId,
+            deletedAt: null,
             createdAt: { gte: startDate, lte: endDate }
           }
         }),
         // Total deals
         ctx.prisma.deal.count({
-          where: { tenantId: ctx.tenantId }
+          where: { tenantId: ctx.tenantId, deletedAt: null }
         }),
         // Open deals
         ctx.prisma.deal.count({
-          where: { tenantId: ctx.tenantId, status: 'OPEN' }
+          where: { tenantId: ctx.tenantId, deletedAt: null, status: 'OPEN' }
         }),
         // Won deals in period
         ctx.prisma.deal.count({
           where: {
             tenantId: ctx.tenantId,
+            deletedAt: null,
             status: 'WON',
             actualCloseDate: { gte: startDate, lte: endDate }
           }
         }),
-        // Total deal value
-        ctx.prisma.deal.aggregate({
-          where: { tenantId: ctx.tenantId, status: 'OPEN' },
-          _sum: { value: true }
+        // Open deal values, per currency
+        ctx.prisma.deal.groupBy({
+          by: [...dealAmountGroupBy],
+          where: { tenantId: ctx.tenantId, deletedAt: null, status: 'OPEN' },
+          _sum: { value: true },
+          _count: { _all: true }
         }),
-        // Won deal value in period
-        ctx.prisma.deal.aggregate({
+        // Won deal values in period, per currency and close date
+        ctx.prisma.deal.groupBy({
+          by: [...dealAmountGroupBy],
           where: {
             tenantId: ctx.tenantId,
+            deletedAt: null,
             status: 'WON',
             actualCloseDate: { gte: startDate, lte: endDate }
           },
-          _sum: { value: true }
+          _sum: { value: true },
+          _count: { _all: true }
         }),
         // Emails sent in period
         ctx.prisma.email.count({
@@ -91,6 +115,7 @@ export const analyticsRouter = router({
           }
         })
       ])
+      const converter = await getCurrencyConverter(ctx.prisma, ctx.tenantId)
 
       return {
         contacts: {
@@ -101,8 +126,12 @@ export const analyticsRouter = router({
           total: totalDeals,
           open: openDeals,
           won: wonDeals,
-          totalValue: Number(totalDealValue._sum.value || 0),
-          wonValue: Number(wonDealValue._sum.value || 0)
+          totalValue: converter.sumGroups(openDealAmounts),
+          wonValue: converter.sumGroups(wonDealAmounts),
+          baseCurrency: converter.baseCurrency,
+          // Deals and currencies without exchange rates, left out of the values
+          excludedDeals: converter.excludedDeals([...openDealAmounts, ...wonDealAmounts]),
+          missingRates: converter.missingRates()
         },
         communication: {
           emailsSent,
@@ -126,6 +155,7 @@ export const analyticsRouter = router({
       const contacts = await ctx.prisma.contact.findMany({
         where: {
           tenantId: ctx.tenantId,
+          deletedAt: null,
           createdAt: { gte: input.startDate, lte: input.endDate }
         },
         select: { createdAt: true },
@@ -167,30 +197,29 @@ export const analyticsRouter = router({
     .query(async ({ ctx, input }) => {
       const where = {
         tenantId: ctx.tenantId,
+        deletedAt: null,
         ...(input.pipelineId && { pipelineId: input.pipelineId }),
         ...(input.startDate && { createdAt: { gte: input.startDate } }),
         ...(input.endDate && { createdAt: { lte: input.endDate } })
       }
 
-      const [stageDistribution, conversionRates] = await Promise.all([
-        // Deals by stage
+      // Summed per currency and close date so each group converts at one rate
+      const [amounts, converter] = await Promise.all([
         ctx.prisma.deal.groupBy({
-          by: ['stageId'],
-          where: { ...where, status: 'OPEN' },
-          _count: true,
-          _sum: { value: true }
-        }),
-        // Conversion rates
-        ctx.prisma.deal.groupBy({
-          by: ['status'],
+          by: ['stageId', 'status', ...dealAmountGroupBy],
           where,
-          _count: true,
-          _sum: { value: true }
-        })
+          _sum: { value: true },
+          _count: { _all: true }
+        }),
+        getCurrencyConverter(ctx.prisma, ctx.tenantId)
       ])
+      const dealCount = (groups: typeof amounts) => groups.reduce((count, group) => count + group._count._all, 0)
+
+      // Deals by stage
+      const stageDistribution = groupBy(amounts.filter(group => group.status === 'OPEN'), group => group.stageId)
 
       // Get stage details
-      const stageIds = stageDistribution.map(s => s.stageId)
+      const stageIds = stageDistribution.map(([stageId]) => stageId)
       const stages = await ctx.prisma.pipelineStage.findMany({
         where: { id: { in: stageIds } },
         select: { id: true, name: true, color: true }
@@ -199,16 +228,19 @@ export const analyticsRouter = router({
       const stageMap = new Map(stages.map(s => [s.id, s]))
 
       return {
-        byStage: stageDistribution.map(s => ({
-          stage: stageMap.get(s.stageId),
-          count: s._count,
-          value: Number(s._sum.value || 0)
+        byStage: stageDistribution.map(([stageId, stageGroups]) => ({
+          stage: stageMap.get(stageId),
+          count: dealCount(stageGroups),
+          value: converter.sumGroups(stageGroups)
         })),
-        byStatus: conversionRates.map(s => ({
-          status: s.status,
-          count: s._count,
-          value: Number(s._sum.value || 0)
-        }))
+        byStatus: groupBy(amounts, group => group.status).map(([status, statusGroups]) => ({
+          status,
+          count: dealCount(statusGroups),
+          value: converter.sumGroups(statusGroups)
+        })),
+        baseCurrency: converter.baseCurrency,
+        excludedDeals: converter.excludedDeals(amounts),
+        missingRates: converter.missingRates()
       }
     }),
 
@@ -223,6 +255,7 @@ export const analyticsRouter = router({
         by: ['leadSource'],
         where: {
           tenantId: ctx.tenantId,
+          deletedAt: null,
           leadSource: { not: null },
           ...(input.startDate && { createdAt: { gte: input.startDate } }),
           ...(input.endDate && { createdAt: { lte: input.endDate } })
@@ -298,6 +331,65 @@ export const analyticsRouter = router({
       }
     }),
 
+  // Won revenue per product, from the net line items of deals closed in the
+  // period. Custom line items are grouped under a null product.
+  revenueByProduct: tenantProcedure
+    .input(z.object({
+      startDate: z.date(),
+      endDate: z.date(),
+      limit: z.number().min(1).max(100).default(20)
+    }))
+    .query(async ({ ctx, input }) => {
+      const [lineItems, converter] = await Promise.all([
+        ctx.prisma.dealLineItem.findMany({
+          where: {
+            tenantId: ctx.tenantId,
+            deal: {
+              deletedAt: null,
+              status: 'WON',
+              actualCloseDate: { gte: input.startDate, lte: input.endDate }
+            }
+          },
+          select: {
+            productId: true,
+            dealId: true,
+            netTotal: true,
+            quantity: true,
+            deal: { select: { currency: true, actualCloseDate: true } }
+          }
+        }),
+        getCurrencyConverter(ctx.prisma, ctx.tenantId)
+      ])
+
+      const byProduct = groupBy(lineItems, item => item.productId)
+        .map(([productId, items]) => ({
+          productId,
+          revenue: converter.sumDeals(items.map(item => ({ ...item.deal, value: item.netTotal }))),
+          quantity: items.reduce((sum, item) => sum + Number(item.quantity), 0),
+          // A deal can list a product more than once
+          deals: new Set(items.map(item => item.dealId)).size
+        }))
+        .sort((a, b) => b.revenue - a.revenue)
+        .slice(0, input.limit)
+
+      const productIds = byProduct.map(p => p.productId).filter((id): id is string => !!id)
+      const products = await ctx.prisma.product.findMany({
+        where: { id: { in: productIds } },
+        select: { id: true, name: true, sku: true, currency: true, billing: true }
+      })
+
+      const productMap = new Map(products.map(p => [p.id, p]))
+
+      return {
+        products: byProduct.map(({ productId, ...totals }) => ({
+          product: productId ? productMap.get(productId) ?? null : null,
+          ...totals
+        })),
+        baseCurrency: converter.baseCurrency,
+        missingRates: converter.missingRates()
+      }
+    }),
+
   // Revenue tracking
   revenue: tenantProcedure
     .input(z.object({
@@ -306,22 +398,26 @@ export const analyticsRouter = router({
       interval: z.enum(['day', 'week', 'month']).default('month')
     }))
     .query(async ({ ctx, input }) => {
-      const wonDeals = await ctx.prisma.deal.findMany({
+      const wonAmounts = await ctx.prisma.deal.groupBy({
+        by: [...dealAmountGroupBy],
         where: {
           tenantId: ctx.tenantId,
+          deletedAt: null,
           status: 'WON',
           actualCloseDate: { gte: input.startDate, lte: input.endDate }
         },
-        select: { value: true, actualCloseDate: true },
+        _sum: { value: true },
+        _count: { _all: true },
         orderBy: { actualCloseDate: 'asc' }
       })
+      const converter = await getCurrencyConverter(ctx.prisma, ctx.tenantId)
 
       // Group by interval
       const grouped = new Map<string, number>()
-      wonDeals.forEach(deal => {
-        if (!deal.actualCloseDate) return
+      wonAmounts.forEach(amount => {
+        if (!amount.actualCloseDate) return
 
-        const date = deal.actualCloseDate
+        const date = amount.actualCloseDate
         let key: string
 
         if (input.interval === 'day') {
@@ -335,12 +431,13 @@ export const analyticsRouter = router({
         }
 
         const current = grouped.get(key) || 0
-        grouped.set(key, current + Number(deal.value))
+        grouped.set(key, current + converter.sumGroups([amount]))
       })
 
       return Array.from(grouped.entries()).map(([date, revenue]) => ({
         date,
-        revenue
+        revenue: Math.round(revenue * 100) / 100,
+        currency: converter.baseCurrency
       }))
     })
 })
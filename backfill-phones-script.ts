@@ -0,0 +1,53 @@
+// packages/worker/src/scripts/backfill-phones.ts
+// One-off: parse existing contact phone numbers into E.164 and flag invalid ones.
+// Run with `npm run backfill:phones -w @elevate/worker`. Safe to re-run.
+import dotenv from 'dotenv'
+import { PrismaClient } from '@elevate/database'
+import { contactPhoneColumns, DEFAULT_COUNTRY } from '@elevate/trpc/lib/phone'
+
+dotenv.config()
+
+const prisma = new PrismaClient()
+const BATCH_SIZE = 500
+
+async function main() {
+  const tenants = await prisma.tenant.findMany({
+    select: { id: true, name: true, defaultCountry: true }
+  })
+
+  for (const tenant of tenants) {
+    const country = tenant.defaultCountry || DEFAULT_COUNTRY
+    let cursor: string | undefined
+    let updated = 0
+    let invalid = 0
+
+    while (true) {
+      const contacts = await prisma.contact.findMany({
+        where: { tenantId: tenant.id },
+        select: { id: true, phone: true, mobile: true },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        orderBy: { id: 'asc' }
+      })
+      if (contacts.length === 0) break
+
+      for (const contact of contacts) {
+        const columns = contactPhoneColumns({ phone: contact.phone, mobile: contact.mobile }, country)
+        await prisma.contact.update({ where: { id: contact.id }, data: columns })
+        updated++
+        if (columns.phoneValid === false || columns.mobileValid === false) invalid++
+      }
+
+      cursor = contacts[contacts.length - 1].id
+    }
+
+    console.log(`${tenant.name}: normalized ${updated} contacts (${invalid} with invalid numbers)`)
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Phone backfill failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
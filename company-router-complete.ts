@@ -0,0 +1,258 @@
+// packages/trpc/src/routers/company.ts
+import { z } from 'zod'
+import { router, tenantProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { Prisma } from '@elevate/database'
+import { associateContactsByDomain, getCompanyRollups, normalizeDomain } from '../lib/company'
+
+const companySchema = z.object({
+  name: z.string().min(1),
+  domain: z.string().optional().nullable(),
+  website: z.string().url().optional().nullable(),
+  industry: z.string().optional().nullable(),
+  employeeCount: z.number().int().min(0).optional().nullable(),
+  phone: z.string().optional().nullable(),
+  address: z.string().optional().nullable(),
+  city: z.string().optional().nullable(),
+  state: z.string().optional().nullable(),
+  country: z.string().optional().nullable(),
+  description: z.string().optional().nullable(),
+  ownerId: z.string().optional().nullable()
+})
+
+export const companyRouter = router({
+  // List companies with rollups
+  list: tenantProcedure
+    .input(z.object({
+      search: z.string().optional(),
+      industry: z.string().optional(),
+      ownerId: z.string().optional(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(20)
+    }))
+    .query(async ({ ctx, input }) => {
+      const where: Prisma.CompanyWhereInput = {
+        tenantId: ctx.tenantId,
+        ...(input.search && {
+          OR: [
+            { name: { contains: input.search, mode: 'insensitive' } },
+            { domain: { contains: input.search, mode: 'insensitive' } }
+          ]
+        }),
+        ...(input.industry && { industry: input.industry }),
+        ...(input.ownerId && { ownerId: input.ownerId })
+      }
+
+      const companies = await ctx.prisma.company.findMany({
+        where,
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: { name: 'asc' },
+        include: {
+          owner: { select: { id: true, firstName: true, lastName: true } }
+        }
+      })
+
+      let nextCursor: string | undefined
+      if (companies.length > input.limit) {
+        const nextItem = companies.pop()
+        nextCursor = nextItem!.id
+      }
+
+      const rollups = await getCompanyRollups(ctx.prisma, ctx.tenantId, companies.map(c => c.id))
+
+      return {
+        companies: companies.map(company => ({ ...company, ...rollups.get(company.id)! })),
+        nextCursor
+      }
+    }),
+
+  // Quick lookup by name or domain for pickers
+  search: tenantProcedure
+    .input(z.object({
+      query: z.string().min(1),
+      limit: z.number().min(1).max(20).default(10)
+    }))
+    .query(async ({ ctx, input }) => {
+      return await ctx.prisma.company.findMany({
+        where: {
+          tenantId: ctx.tenantId,
+          OR: [
+            { name: { contains: input.query, mode: 'insensitive' } },
+            { domain: { startsWith: input.query.toLowerCase() } }
+          ]
+        },
+        take: input.limit,
+        orderBy: { name: 'asc' },
+        select: { id: true, name: true, domain: true }
+      })
+    }),
+
+  // Get single company with its contacts and deals
+  get: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const company = await ctx.prisma.company.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId },
+        include: {
+          owner: { select: { id: true, firstName: true, lastName: true, email: true } },
+          contacts: {
+            where: { deletedAt: null },
+            orderBy: { lastName: 'asc' },
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              phone: true,
+              jobTitle: true,
+              leadStatus: true
+            }
+          }
+        }
+      })
+
+      if (!company) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Company not found' })
+      }
+
+      const [deals, rollups] = await Promise.all([
+        ctx.prisma.deal.findMany({
+          where: {
+            tenantId: ctx.tenantId,
+            deletedAt: null,
+            OR: [
+              { companyId: company.id },
+              { companyId: null, contact: { companyId: company.id } }
+            ]
+          },
+          orderBy: { createdAt: 'desc' },
+          include: {
+            contact: { select: { id: true, firstName: true, lastName: true } },
+            stage: { select: { id: true, name: true, color: true } }
+          }
+        }),
+        getCompanyRollups(ctx.prisma, ctx.tenantId, [company.id])
+      ])
+
+      return { ...company, deals, ...rollups.get(company.id)! }
+    }),
+
+  // Create company and link existing contacts by email domain
+  create: tenantProcedure
+    .input(companySchema)
+    .mutation(async ({ ctx, input }) => {
+      const domain = normalizeDomain(input.domain) ?? normalizeDomain(input.website)
+
+      if (domain) {
+        const existing = await ctx.prisma.company.findFirst({
+          where: { tenantId: ctx.tenantId, domain }
+        })
+        if (existing) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: `A company with the domain ${domain} already exists`
+          })
+        }
+      }
+
+      const company = await ctx.prisma.company.create({
+        data: {
+          ...input,
+          domain,
+          tenantId: ctx.tenantId
+        }
+      })
+
+      const linkedContacts = await associateContactsByDomain(ctx.prisma, ctx.tenantId, company)
+
+      return { ...company, linkedContacts }
+    }),
+
+  // Update company
+  update: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      data: companySchema.partial()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.company.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Company not found' })
+      }
+
+      const domain = input.data.domain !== undefined ? normalizeDomain(input.data.domain) : undefined
+      if (domain && domain !== existing.domain) {
+        const conflict = await ctx.prisma.company.findFirst({
+          where: { tenantId: ctx.tenantId, domain, id: { not: input.id } }
+        })
+        if (conflict) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: `A company with the domain ${domain} already exists`
+          })
+        }
+      }
+
+      const company = await ctx.prisma.company.update({
+        where: { id: input.id },
+        data: {
+          ...input.data,
+          ...(domain !== undefined && { domain })
+        }
+      })
+
+      // Keep the legacy free-text field on linked contacts in step with renames
+      if (input.data.name && input.data.name !== existing.name) {
+        await ctx.prisma.contact.updateMany({
+          where: { tenantId: ctx.tenantId, companyId: company.id },
+          data: { company: company.name }
+        })
+      }
+
+      const linkedContacts = company.domain !== existing.domain
+        ? await associateContactsByDomain(ctx.prisma, ctx.tenantId, company)
+        : 0
+
+      return { ...company, linkedContacts }
+    }),
+
+  // Delete company; contacts and deals are unlinked, not deleted
+  delete: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const company = await ctx.prisma.company.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!company) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Company not found' })
+      }
+
+      await ctx.prisma.company.delete({ where: { id: input.id } })
+      return { success: true }
+    }),
+
+  // Link contacts to a company
+  addContacts: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      contactIds: z.array(z.string()).min(1)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const company = await ctx.prisma.company.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!company) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Company not found' })
+      }
+
+      const result = await ctx.prisma.contact.updateMany({
+        where: { id: { in: input.contactIds }, tenantId: ctx.tenantId, deletedAt: null },
+        data: { companyId: company.id, company: company.name }
+      })
+
+      return { linked: result.count }
+    })
+})
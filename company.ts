@@ -0,0 +1,166 @@
+// packages/trpc/src/lib/company.ts
+import { PrismaClient } from '@elevate/database'
+import { TRPCError } from '@trpc/server'
+import { dealAmountGroupBy, getCurrencyConverter } from './currency'
+
+// Webmail domains never identify an organization
+const PERSONAL_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com',
+  'msn.com', 'aol.com', 'icloud.com', 'me.com', 'mac.com', 'proton.me', 'protonmail.com',
+  'gmx.com', 'gmx.net', 'yandex.com', 'mail.com', 'zoho.com'
+])
+
+// Reduce a domain or website URL to a bare lowercase host without `www.`
+export function normalizeDomain(value: string | null | undefined): string | null {
+  if (!value) return null
+  const host = value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .split(/[/?#:]/)[0]
+    .replace(/^www\./, '')
+  return host.includes('.') ? host : null
+}
+
+// Business domain of an email address, or null for personal/webmail addresses
+export function emailDomain(email: string | null | undefined): string | null {
+  const domain = normalizeDomain(email?.split('@')[1])
+  return domain && !PERSONAL_EMAIL_DOMAINS.has(domain) ? domain : null
+}
+
+export async function findCompanyForEmail(
+  prisma: PrismaClient,
+  tenantId: string,
+  email: string | null | undefined
+) {
+  const domain = emailDomain(email)
+  if (!domain) return null
+  return prisma.company.findFirst({
+    where: { tenantId, domain }
+  })
+}
+
+// Company link for a contact being created or edited: an explicit companyId
+// wins, otherwise the email domain is matched against known companies
+export async function resolveContactCompany(
+  prisma: PrismaClient,
+  tenantId: string,
+  input: { companyId?: string | null; email?: string | null; company?: string | null }
+): Promise<{ companyId?: string | null; company?: string | null }> {
+  if (input.companyId === null) return { companyId: null }
+
+  if (input.companyId) {
+    const company = await prisma.company.findFirst({
+      where: { id: input.companyId, tenantId }
+    })
+    if (!company) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Company not found' })
+    }
+    return { companyId: company.id, company: company.name }
+  }
+
+  const company = await findCompanyForEmail(prisma, tenantId, input.email)
+  return company ? { companyId: company.id, company: input.company || company.name } : {}
+}
+
+// Link unassigned contacts whose email matches the company's domain
+export async function associateContactsByDomain(
+  prisma: PrismaClient,
+  tenantId: string,
+  company: { id: string; name: string; domain: string | null }
+): Promise<number> {
+  if (!company.domain) return 0
+
+  const result = await prisma.contact.updateMany({
+    where: {
+      tenantId,
+      companyId: null,
+      email: { endsWith: `@${company.domain}`, mode: 'insensitive' }
+    },
+    data: { companyId: company.id }
+  })
+
+  // Fill the legacy free-text company name where it was left empty
+  await prisma.contact.updateMany({
+    where: { tenantId, companyId: company.id, OR: [{ company: null }, { company: '' }] },
+    data: { company: company.name }
+  })
+
+  return result.count
+}
+
+export interface CompanyRollup {
+  contactCount: number
+  openDealCount: number
+  // In the tenant's base currency
+  openDealValue: number
+  lastActivityAt: Date | null
+}
+
+// Contact count, open pipeline and last activity per company. Deals count
+// towards their own company, or their contact's company when unset.
+export async function getCompanyRollups(
+  prisma: PrismaClient,
+  tenantId: string,
+  companyIds: string[]
+): Promise<Map<string, CompanyRollup>> {
+  const rollups = new Map<string, CompanyRollup>(
+    companyIds.map(id => [id, { contactCount: 0, openDealCount: 0, openDealValue: 0, lastActivityAt: null }])
+  )
+  if (companyIds.length === 0) return rollups
+
+  const [contacts, companyDeals, contactDeals, converter] = await Promise.all([
+    prisma.contact.findMany({
+      where: { tenantId, companyId: { in: companyIds }, deletedAt: null },
+      select: { id: true, companyId: true }
+    }),
+    // Open deal values summed per currency; deals on a company
+    prisma.deal.groupBy({
+      by: ['companyId', ...dealAmountGroupBy],
+      where: { tenantId, status: 'OPEN', deletedAt: null, companyId: { in: companyIds } },
+      _sum: { value: true },
+      _count: { _all: true }
+    }),
+    // and deals without one, through their contact
+    prisma.deal.groupBy({
+      by: ['contactId', ...dealAmountGroupBy],
+      where: { tenantId, status: 'OPEN', deletedAt: null, companyId: null, contact: { companyId: { in: companyIds }, deletedAt: null } },
+      _sum: { value: true },
+      _count: { _all: true }
+    }),
+    getCurrencyConverter(prisma, tenantId)
+  ])
+
+  const companyByContact = new Map(contacts.map(c => [c.id, c.companyId!]))
+  for (const contact of contacts) {
+    rollups.get(contact.companyId!)!.contactCount++
+  }
+
+  const openDeals = [
+    ...companyDeals.map(group => ({ companyId: group.companyId, group })),
+    ...contactDeals.map(group => ({ companyId: companyByContact.get(group.contactId), group }))
+  ]
+  for (const { companyId, group } of openDeals) {
+    const rollup = companyId ? rollups.get(companyId) : undefined
+    if (!rollup) continue
+    rollup.openDealCount += group._count._all
+    rollup.openDealValue += converter.sumGroups([group])
+  }
+
+  if (contacts.length > 0) {
+    const lastActivities = await prisma.activity.groupBy({
+      by: ['contactId'],
+      where: { tenantId, contactId: { in: contacts.map(c => c.id) } },
+      _max: { createdAt: true }
+    })
+    for (const row of lastActivities) {
+      const rollup = rollups.get(companyByContact.get(row.contactId!)!)
+      const last = row._max.createdAt
+      if (rollup && last && (!rollup.lastActivityAt || last > rollup.lastActivityAt)) {
+        rollup.lastActivityAt = last
+      }
+    }
+  }
+
+  return rollups
+}
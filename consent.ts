@@ -0,0 +1,261 @@
+// packages/trpc/src/lib/consent.ts
+import { createHmac, timingSafeEqual } from 'crypto'
+import { Prisma, PrismaClient } from '@elevate/database'
+import { TRPCError } from '@trpc/server'
+import { getTenantDefaultCountry, normalizePhone } from './phone'
+
+export const CONSENT_CHANNELS = ['EMAIL', 'SMS', 'CALL'] as const
+export type ConsentChannel = typeof CONSENT_CHANNELS[number]
+
+export const CONSENT_STATUSES = ['UNKNOWN', 'OPTED_IN', 'OPTED_OUT'] as const
+export type ConsentStatus = typeof CONSENT_STATUSES[number]
+
+// Where a consent change came from, kept on every history entry
+export const CONSENT_SOURCES = [
+  'MANUAL',
+  'IMPORT',
+  'FORM',
+  'UNSUBSCRIBE_LINK',
+  'SMS_KEYWORD',
+  'PROVIDER',
+  'MERGE'
+] as const
+export type ConsentSource = typeof CONSENT_SOURCES[number]
+
+const CONSENT_COLUMNS = {
+  EMAIL: { status: 'emailConsent', source: 'emailConsentSource', at: 'emailConsentAt' },
+  SMS: { status: 'smsConsent', source: 'smsConsentSource', at: 'smsConsentAt' },
+  CALL: { status: 'callConsent', source: 'callConsentSource', at: 'callConsentAt' }
+} as const
+
+const CHANNEL_LABELS: Record<ConsentChannel, string> = { EMAIL: 'email', SMS: 'SMS', CALL: 'calls' }
+
+// Carrier-standard SMS keywords (TCPA / CTIA)
+const SMS_OPT_OUT_KEYWORDS = new Set(['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'])
+const SMS_OPT_IN_KEYWORDS = new Set(['START', 'UNSTOP', 'YES'])
+
+export function consentStatusOf(
+  contact: Record<string, unknown>,
+  channel: ConsentChannel
+): ConsentStatus {
+  return (contact[CONSENT_COLUMNS[channel].status] as ConsentStatus | undefined) ?? 'UNKNOWN'
+}
+
+// Update a contact's consent for one channel and append it to the history.
+// Returns false when the status was already the requested one.
+export async function setConsent(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  contactId: string,
+  channel: ConsentChannel,
+  status: ConsentStatus,
+  options: { source: ConsentSource; userId?: string | null; note?: string | null; ipAddress?: string | null }
+): Promise<boolean> {
+  const contact = await db.contact.findFirst({
+    where: { id: contactId, tenantId }
+  })
+  if (!contact) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
+  }
+
+  const previous = consentStatusOf(contact, channel)
+  if (previous === status) return false
+
+  const columns = CONSENT_COLUMNS[channel]
+  await db.contact.update({
+    where: { id: contactId },
+    data: {
+      [columns.status]: status,
+      [columns.source]: options.source,
+      [columns.at]: new Date()
+    }
+  })
+
+  await db.consentEvent.create({
+    data: {
+      tenantId,
+      contactId,
+      email: contact.email,
+      phone: contact.mobileE164 ?? contact.phoneE164 ?? contact.mobile ?? contact.phone,
+      channel,
+      status,
+      previousStatus: previous,
+      source: options.source,
+      userId: options.userId ?? null,
+      note: options.note ?? null,
+      ipAddress: options.ipAddress ?? null
+    }
+  })
+
+  await db.activity.create({
+    data: {
+      tenantId,
+      contactId,
+      userId: options.userId ?? null,
+      type: 'SYSTEM',
+      title: status === 'OPTED_OUT' ? `Opted out of ${CHANNEL_LABELS[channel]}` : 'Consent updated',
+      description: `${CHANNEL_LABELS[channel]}: ${previous} → ${status} (${options.source})`,
+      metadata: { channel, status, previousStatus: previous, source: options.source }
+    }
+  })
+
+  return true
+}
+
+export async function assertCanContact(
+  prisma: PrismaClient,
+  tenantId: string,
+  contactId: string,
+  channel: ConsentChannel
+): Promise<void> {
+  const contact = await prisma.contact.findFirst({
+    where: { id: contactId, tenantId },
+    select: { emailConsent: true, smsConsent: true, callConsent: true }
+  })
+  if (!contact) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
+  }
+  if (consentStatusOf(contact, channel) === 'OPTED_OUT') {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: `Contact has opted out of ${CHANNEL_LABELS[channel]}`
+    })
+  }
+}
+
+// Lowercased addresses among `addresses` that belong to a contact opted out of email
+export async function optedOutEmails(
+  prisma: PrismaClient,
+  tenantId: string,
+  addresses: string[]
+): Promise<Set<string>> {
+  if (addresses.length === 0) return new Set()
+
+  const contacts = await prisma.contact.findMany({
+    where: {
+      tenantId,
+      emailConsent: 'OPTED_OUT',
+      OR: addresses.map(email => ({ email: { equals: email, mode: 'insensitive' as const } }))
+    },
+    select: { email: true }
+  })
+  return new Set(contacts.map(c => c.email!.toLowerCase()))
+}
+
+// The suppression list key for a number: E.164 in the tenant's default country
+async function suppressionKey(db: Prisma.TransactionClient, tenantId: string, number: string): Promise<string> {
+  const defaultCountry = await getTenantDefaultCountry(db, tenantId)
+  return normalizePhone(number, defaultCountry)?.e164 ?? number.trim()
+}
+
+// Add a number to the tenant's SMS suppression list
+export async function suppressSmsNumber(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  number: string,
+  options: { source: ConsentSource; note?: string | null }
+): Promise<void> {
+  const phone = await suppressionKey(db, tenantId, number)
+  await db.smsSuppression.upsert({
+    where: { tenantId_phone: { tenantId, phone } },
+    create: { tenantId, phone, source: options.source, note: options.note ?? null },
+    update: {}
+  })
+}
+
+// Take a number off the suppression list once it opts back in
+export async function releaseSmsNumber(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  number: string
+): Promise<void> {
+  const phone = await suppressionKey(db, tenantId, number)
+  await db.smsSuppression.deleteMany({ where: { tenantId, phone } })
+}
+
+// Whether a number is suppressed or belongs to any contact opted out of SMS
+export async function isSmsOptedOut(
+  prisma: PrismaClient,
+  tenantId: string,
+  number: string
+): Promise<boolean> {
+  const phone = await suppressionKey(prisma, tenantId, number)
+  const [suppressed, count] = await Promise.all([
+    prisma.smsSuppression.count({ where: { tenantId, phone } }),
+    prisma.contact.count({
+      where: {
+        tenantId,
+        smsConsent: 'OPTED_OUT',
+        OR: [{ mobileE164: phone }, { phoneE164: phone }]
+      }
+    })
+  ])
+  return suppressed > 0 || count > 0
+}
+
+// E.164 numbers among `numbers` that are suppressed or belong to any contact
+// opted out of SMS; the batch form of isSmsOptedOut
+export async function optedOutSmsNumbers(
+  prisma: PrismaClient,
+  tenantId: string,
+  numbers: string[]
+): Promise<Set<string>> {
+  if (numbers.length === 0) return new Set()
+
+  const [suppressions, contacts] = await Promise.all([
+    prisma.smsSuppression.findMany({
+      where: { tenantId, phone: { in: numbers } },
+      select: { phone: true }
+    }),
+    prisma.contact.findMany({
+      where: {
+        tenantId,
+        smsConsent: 'OPTED_OUT',
+        OR: [{ mobileE164: { in: numbers } }, { phoneE164: { in: numbers } }]
+      },
+      select: { mobileE164: true, phoneE164: true }
+    })
+  ])
+  const optedOut = new Set(suppressions.map(s => s.phone))
+  for (const contact of contacts) {
+    if (contact.mobileE164) optedOut.add(contact.mobileE164)
+    if (contact.phoneE164) optedOut.add(contact.phoneE164)
+  }
+  return optedOut
+}
+
+// Maps an inbound SMS body to the consent it expresses, if it is a keyword
+export function smsKeywordConsent(body: string | null | undefined): ConsentStatus | null {
+  const keyword = (body || '').trim().toUpperCase()
+  if (SMS_OPT_OUT_KEYWORDS.has(keyword)) return 'OPTED_OUT'
+  if (SMS_OPT_IN_KEYWORDS.has(keyword)) return 'OPTED_IN'
+  return null
+}
+
+function unsubscribeSignature(contactId: string): Buffer {
+  const secret = process.env.JWT_SECRET
+  if (!secret) {
+    throw new Error('JWT_SECRET is required to sign unsubscribe links')
+  }
+  return createHmac('sha256', secret).update(`unsubscribe:${contactId}`).digest()
+}
+
+// Stateless token for one-click email unsubscribe links
+export function createUnsubscribeToken(contactId: string): string {
+  return `${Buffer.from(contactId).toString('base64url')}.${unsubscribeSignature(contactId).toString('base64url')}`
+}
+
+// Contact ID from a valid unsubscribe token, or null
+export function verifyUnsubscribeToken(token: string): string | null {
+  const [encodedId, signature] = token.split('.')
+  if (!encodedId || !signature) return null
+
+  const contactId = Buffer.from(encodedId, 'base64url').toString()
+  const expected = unsubscribeSignature(contactId)
+  const actual = Buffer.from(signature, 'base64url')
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? contactId : null
+}
+
+export function unsubscribeUrl(contactId: string): string {
+  return `${process.env.APP_URL}/api/unsubscribe/${createUnsubscribeToken(contactId)}`
+}
@@ -0,0 +1,313 @@
+// packages/trpc/src/lib/contact-dedupe.ts
+import { Prisma, PrismaClient } from '@elevate/database'
+import { getTenantDefaultCountry, normalizePhone } from './phone'
+
+export interface DedupeCandidate {
+  id: string
+  firstName: string
+  lastName: string
+  email: string | null
+  phone: string | null
+  mobile: string | null
+  // Parsed numbers, when the contact has been normalized
+  phoneE164?: string | null
+  mobileE164?: string | null
+  company: string | null
+}
+
+export interface DuplicateMatch {
+  score: number
+  reasons: Array<'email' | 'phone' | 'name_company' | 'name'>
+}
+
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com']
+
+// Lowercase and drop provider-ignored parts (dots and +tags on Gmail)
+export function normalizeEmail(email: string | null | undefined): string | null {
+  if (!email) return null
+  const [local, domain] = email.trim().toLowerCase().split('@')
+  if (!local || !domain) return null
+
+  if (GMAIL_DOMAINS.includes(domain)) {
+    return `${local.split('+')[0].replace(/\./g, '')}@gmail.com`
+  }
+  return `${local}@${domain}`
+}
+
+// Contacts that predate phone normalization are parsed in the tenant's
+// default country, as they would have been on save
+function candidatePhones(contact: DedupeCandidate, defaultCountry: string): string[] {
+  return [
+    contact.phoneE164 ?? normalizePhone(contact.phone, defaultCountry)?.e164,
+    contact.mobileE164 ?? normalizePhone(contact.mobile, defaultCountry)?.e164
+  ].filter((phone): phone is string => !!phone)
+}
+
+export function normalizeName(value: string | null | undefined): string {
+  if (!value) return ''
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\b(inc|llc|ltd|corp|co|gmbh)\b\.?/g, '')
+    .replace(/[^a-z0-9]/g, '')
+}
+
+// Jaro-Winkler similarity in [0, 1]
+export function similarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatches = new Array<boolean>(a.length).fill(false)
+  const bMatches = new Array<boolean>(b.length).fill(false)
+
+  let matches = 0
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window)
+    const end = Math.min(i + window + 1, b.length)
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue
+      aMatches[i] = true
+      bMatches[j] = true
+      matches++
+      break
+    }
+  }
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue
+    while (!bMatches[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+
+  let prefix = 0
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++
+
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+// Score how likely two contacts are the same person; independent signals are combined
+export function scoreDuplicate(a: DedupeCandidate, b: DedupeCandidate, defaultCountry: string): DuplicateMatch {
+  const signals: Array<[DuplicateMatch['reasons'][number], number]> = []
+
+  const emailA = normalizeEmail(a.email)
+  if (emailA && emailA === normalizeEmail(b.email)) {
+    signals.push(['email', 0.95])
+  }
+
+  const phonesA = candidatePhones(a, defaultCountry)
+  const phonesB = candidatePhones(b, defaultCountry)
+  if (phonesA.some(p => phonesB.includes(p))) {
+    signals.push(['phone', 0.85])
+  }
+
+  const nameScore = similarity(
+    normalizeName(`${a.firstName} ${a.lastName}`),
+    normalizeName(`${b.firstName} ${b.lastName}`)
+  )
+  const companyA = normalizeName(a.company)
+  const companyB = normalizeName(b.company)
+  if (nameScore >= 0.9 && companyA && companyB && similarity(companyA, companyB) >= 0.85) {
+    signals.push(['name_company', 0.8])
+  } else if (nameScore >= 0.92) {
+    signals.push(['name', 0.5])
+  }
+
+  const score = 1 - signals.reduce((remaining, [, s]) => remaining * (1 - s), 1)
+
+  return {
+    score: Math.round(score * 100) / 100,
+    reasons: signals.map(([reason]) => reason)
+  }
+}
+
+// Cheap keys used to only compare contacts that could plausibly match
+export function blockingKeys(contact: DedupeCandidate, defaultCountry: string): string[] {
+  const keys: string[] = []
+
+  const email = normalizeEmail(contact.email)
+  if (email) keys.push(`e:${email}`)
+
+  for (const phone of candidatePhones(contact, defaultCountry)) {
+    keys.push(`p:${phone}`)
+  }
+
+  const first = normalizeName(contact.firstName)
+  const last = normalizeName(contact.lastName)
+  if (first && last) keys.push(`n:${last.slice(0, 4)}:${first.slice(0, 2)}`)
+
+  const company = normalizeName(contact.company)
+  if (company && first) keys.push(`c:${company.slice(0, 6)}:${first.slice(0, 2)}`)
+
+  return keys
+}
+
+// Contacts read per query when scanning a tenant
+const SCAN_BATCH_SIZE = 1000
+
+// Name and company keys shared by more contacts than this are too common to
+// narrow anything down; their pairs are only found through email or phone
+const MAX_NAME_BLOCK_SIZE = 200
+
+export const dedupeCandidateSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  mobile: true,
+  phoneE164: true,
+  mobileE164: true,
+  company: true,
+  createdAt: true
+} satisfies Prisma.ContactSelect
+
+type ScannedContact = Prisma.ContactGetPayload<{ select: typeof dedupeCandidateSelect }>
+
+export interface DuplicatePair extends DuplicateMatch {
+  // Oldest first
+  contacts: [ScannedContact, ScannedContact]
+}
+
+// Contacts that could share a blocking key with `contact`. The database
+// filters are looser than the keys, which are checked afterwards.
+function candidateFilters(contact: DedupeCandidate, defaultCountry: string): Prisma.ContactWhereInput[] {
+  const filters: Prisma.ContactWhereInput[] = []
+
+  const email = normalizeEmail(contact.email)
+  if (email) {
+    const [local, domain] = email.split('@')
+    filters.push(domain === 'gmail.com'
+      // Gmail addresses differ in dots and +tags, so narrow by first letter only
+      ? {
+          AND: [
+            { email: { startsWith: local[0], mode: 'insensitive' } },
+            { OR: GMAIL_DOMAINS.map(gmail => ({ email: { endsWith: `@${gmail}`, mode: 'insensitive' as const } })) }
+          ]
+        }
+      : { email: { equals: email, mode: 'insensitive' } })
+  }
+
+  // Contacts without normalized numbers are only found by their other keys
+  const phones = candidatePhones(contact, defaultCountry)
+  if (phones.length > 0) {
+    filters.push({ phoneE164: { in: phones } }, { mobileE164: { in: phones } })
+  }
+
+  const lastName = contact.lastName.trim()
+  if (lastName) filters.push({ lastName: { startsWith: lastName.slice(0, 2), mode: 'insensitive' } })
+
+  const company = contact.company?.trim()
+  if (company) filters.push({ company: { startsWith: company.slice(0, 2), mode: 'insensitive' } })
+
+  return filters
+}
+
+function orderedPair(a: ScannedContact, b: ScannedContact): [ScannedContact, ScannedContact] {
+  return a.createdAt <= b.createdAt ? [a, b] : [b, a]
+}
+
+// Duplicates of one contact: only contacts matching its keys are loaded
+async function findDuplicatesOf(
+  prisma: PrismaClient,
+  tenantId: string,
+  contactId: string,
+  minScore: number,
+  defaultCountry: string
+): Promise<DuplicatePair[]> {
+  const contact = await prisma.contact.findFirst({
+    where: { id: contactId, tenantId, deletedAt: null },
+    select: dedupeCandidateSelect
+  })
+  if (!contact) return []
+
+  const filters = candidateFilters(contact, defaultCountry)
+  if (filters.length === 0) return []
+
+  const candidates = await prisma.contact.findMany({
+    where: { tenantId, deletedAt: null, id: { not: contact.id }, OR: filters },
+    select: dedupeCandidateSelect
+  })
+
+  const keys = new Set(blockingKeys(contact, defaultCountry))
+  const pairs: DuplicatePair[] = []
+  for (const candidate of candidates) {
+    if (!blockingKeys(candidate, defaultCountry).some(key => keys.has(key))) continue
+
+    const match = scoreDuplicate(contact, candidate, defaultCountry)
+    if (match.score >= minScore) {
+      pairs.push({ ...match, contacts: orderedPair(contact, candidate) })
+    }
+  }
+  return pairs
+}
+
+// Duplicates across the tenant. Contacts are read in pages and grouped by
+// blocking key so only plausible pairs get scored.
+async function findTenantDuplicates(
+  prisma: PrismaClient,
+  tenantId: string,
+  minScore: number,
+  defaultCountry: string
+): Promise<DuplicatePair[]> {
+  const blocks = new Map<string, ScannedContact[]>()
+  let cursor: string | undefined
+  do {
+    const page = await prisma.contact.findMany({
+      where: { tenantId, deletedAt: null, ...(cursor && { id: { gt: cursor } }) },
+      select: dedupeCandidateSelect,
+      orderBy: { id: 'asc' },
+      take: SCAN_BATCH_SIZE
+    })
+    for (const contact of page) {
+      for (const key of blockingKeys(contact, defaultCountry)) {
+        const block = blocks.get(key)
+        if (block) block.push(contact)
+        else blocks.set(key, [contact])
+      }
+    }
+    cursor = page.length === SCAN_BATCH_SIZE ? page[page.length - 1].id : undefined
+  } while (cursor)
+
+  const seen = new Set<string>()
+  const pairs: DuplicatePair[] = []
+  for (const [key, block] of Array.from(blocks.entries())) {
+    if (block.length > MAX_NAME_BLOCK_SIZE && (key.startsWith('n:') || key.startsWith('c:'))) continue
+
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = orderedPair(block[i], block[j])
+        const pairKey = `${a.id}:${b.id}`
+        if (seen.has(pairKey)) continue
+        seen.add(pairKey)
+
+        const match = scoreDuplicate(a, b, defaultCountry)
+        if (match.score >= minScore) {
+          pairs.push({ ...match, contacts: [a, b] })
+        }
+      }
+    }
+  }
+  return pairs
+}
+
+// Likely duplicate pairs, best first: of one contact when `contactId` is
+// given, otherwise across the tenant
+export async function findDuplicatePairs(
+  prisma: PrismaClient,
+  tenantId: string,
+  options: { contactId?: string; minScore: number }
+): Promise<DuplicatePair[]> {
+  const defaultCountry = await getTenantDefaultCountry(prisma, tenantId)
+  const pairs = options.contactId
+    ? await findDuplicatesOf(prisma, tenantId, options.contactId, options.minScore, defaultCountry)
+    : await findTenantDuplicates(prisma, tenantId, options.minScore, defaultCountry)
+  return pairs.sort((x, y) => y.score - x.score)
+}
@@ -0,0 +1,289 @@
+// packages/trpc/src/lib/contact-export.ts
+import { Writable } from 'stream'
+import { z } from 'zod'
+import ExcelJS from 'exceljs'
+import { Prisma, PrismaClient } from '@elevate/database'
+import { assertSearchComplete, buildContactListWhere, contactListFilterSchema } from './contact-filter'
+
+export const EXPORT_FORMATS = ['CSV', 'XLSX', 'VCARD'] as const
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+// Larger exports are handed to the worker and downloaded by link
+export const INLINE_EXPORT_LIMIT = 1000
+
+const BATCH_SIZE = 1000
+
+const STANDARD_COLUMNS = {
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  email: 'Email',
+  phone: 'Phone',
+  mobile: 'Mobile',
+  company: 'Company',
+  jobTitle: 'Job Title',
+  address: 'Address',
+  city: 'City',
+  state: 'State',
+  zipCode: 'Zip Code',
+  country: 'Country',
+  website: 'Website',
+  leadSource: 'Lead Source',
+  leadStatus: 'Lead Status',
+  leadScore: 'Lead Score',
+  createdAt: 'Created At',
+  tags: 'Tags',
+  owner: 'Owner'
+} as const
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'firstName', 'lastName', 'email', 'phone', 'company', 'jobTitle', 'leadStatus', 'tags', 'owner'
+]
+
+export const contactExportInputSchema = z.object({
+  format: z.enum(EXPORT_FORMATS),
+  // Standard column keys, or `customData.<key>` for custom fields
+  columns: z.array(z.string()).min(1).default(DEFAULT_EXPORT_COLUMNS),
+  filter: contactListFilterSchema.default({})
+})
+
+export type ContactExportInput = z.infer<typeof contactExportInputSchema>
+
+export interface ContactExportFile {
+  filename: string
+  contentType: string
+  rowCount: number
+}
+
+// Receives the export file a piece at a time, in order
+export type ExportWriter = (chunk: Buffer) => Promise<void>
+
+const exportInclude = {
+  tags: { include: { tag: { select: { name: true } } } },
+  assignedTo: { select: { firstName: true, lastName: true, email: true } }
+} satisfies Prisma.ContactInclude
+
+type ExportContact = Prisma.ContactGetPayload<{ include: typeof exportInclude }>
+
+interface ExportColumn {
+  key: string
+  header: string
+  value: (contact: ExportContact) => string | number | Date | null
+}
+
+async function resolveColumns(
+  prisma: PrismaClient,
+  tenantId: string,
+  keys: string[]
+): Promise<ExportColumn[]> {
+  const customFields = await prisma.customField.findMany({
+    where: { tenantId },
+    select: { key: true, name: true }
+  })
+  const customFieldNames = new Map(customFields.map(f => [f.key, f.name]))
+
+  return keys.flatMap((key): ExportColumn[] => {
+    if (key === 'tags') {
+      return [{ key, header: STANDARD_COLUMNS.tags, value: c => c.tags.map(t => t.tag.name).join(', ') }]
+    }
+    if (key === 'owner') {
+      return [{
+        key,
+        header: STANDARD_COLUMNS.owner,
+        value: c => (c.assignedTo ? `${c.assignedTo.firstName} ${c.assignedTo.lastName}` : null)
+      }]
+    }
+    if (key.startsWith('customData.')) {
+      const customKey = key.slice('customData.'.length)
+      const name = customFieldNames.get(customKey)
+      if (!name) return []
+      return [{
+        key,
+        header: name,
+        value: c => {
+          const value = ((c.customData || {}) as Record<string, unknown>)[customKey]
+          if (value === undefined || value === null) return null
+          return Array.isArray(value) ? value.join(', ') : (value as string | number)
+        }
+      }]
+    }
+    if (key in STANDARD_COLUMNS) {
+      const field = key as keyof typeof STANDARD_COLUMNS
+      return [{ key, header: STANDARD_COLUMNS[field], value: c => c[field as keyof ExportContact] as string | number | Date | null }]
+    }
+    return []
+  })
+}
+
+// Load every matching contact in ID-ordered batches to keep memory flat
+async function* contactBatches(
+  prisma: PrismaClient,
+  where: Prisma.ContactWhereInput
+): AsyncGenerator<ExportContact[]> {
+  let cursor: string | undefined
+  while (true) {
+    const batch = await prisma.contact.findMany({
+      where,
+      take: BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      orderBy: { id: 'asc' },
+      include: exportInclude
+    })
+    if (batch.length === 0) return
+    yield batch
+    if (batch.length < BATCH_SIZE) return
+    cursor = batch[batch.length - 1].id
+  }
+}
+
+// A cell value as text for CSV files opened in spreadsheet apps
+export function formatCell(value: string | number | Date | null): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'number') return String(value)
+  // Keep spreadsheet apps from evaluating text cells as formulas. Plain
+  // numbers with a sign, such as E.164 phones and negatives, are left as is.
+  if (/^[+-]?\d+(\.\d+)?$/.test(value)) return value
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+}
+
+function csvEscape(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function vcardEscape(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;')
+}
+
+// Fold content lines at 75 octets as required by RFC 6350
+function vcardLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74
+    if (Buffer.byteLength(current + char, 'utf8') > limit) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function toVCard(contact: ExportContact, columns: Set<string>): string {
+  const value = (field: keyof ExportContact) => (columns.has(field) ? (contact[field] as string | null) : null)
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:4.0',
+    `FN:${vcardEscape(`${contact.firstName} ${contact.lastName}`.trim())}`,
+    `N:${vcardEscape(contact.lastName)};${vcardEscape(contact.firstName)};;;`
+  ]
+
+  if (value('email')) lines.push(`EMAIL;TYPE=work:${vcardEscape(value('email')!)}`)
+  if (value('phone')) lines.push(`TEL;VALUE=uri;TYPE=work:tel:${value('phone')!.replace(/\s/g, '')}`)
+  if (value('mobile')) lines.push(`TEL;VALUE=uri;TYPE=cell:tel:${value('mobile')!.replace(/\s/g, '')}`)
+  if (value('company')) lines.push(`ORG:${vcardEscape(value('company')!)}`)
+  if (value('jobTitle')) lines.push(`TITLE:${vcardEscape(value('jobTitle')!)}`)
+  if (value('website')) lines.push(`URL:${value('website')}`)
+
+  const address = ['address', 'city', 'state', 'zipCode', 'country'] as const
+  if (address.some(field => value(field))) {
+    const [street, city, region, code, country] = address.map(field => vcardEscape(value(field) || ''))
+    lines.push(`ADR;TYPE=work:;;${street};${city};${region};${code};${country}`)
+  }
+
+  if (columns.has('tags') && contact.tags.length > 0) {
+    lines.push(`CATEGORIES:${contact.tags.map(t => vcardEscape(t.tag.name)).join(',')}`)
+  }
+
+  const customData = (contact.customData || {}) as Record<string, unknown>
+  for (const column of columns) {
+    if (!column.startsWith('customData.')) continue
+    const customKey = column.slice('customData.'.length)
+    const customValue = customData[customKey]
+    if (customValue === undefined || customValue === null) continue
+    const name = customKey.toUpperCase().replace(/[^A-Z0-9-]/g, '-')
+    lines.push(`X-CUSTOM-${name}:${vcardEscape(Array.isArray(customValue) ? customValue.join(', ') : String(customValue))}`)
+  }
+
+  lines.push(`REV:${contact.updatedAt.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`)
+  lines.push('END:VCARD')
+
+  return lines.map(vcardLine).join('\r\n')
+}
+
+// Build the export file for every contact matching the filter, handing it to
+// `write` a batch of contacts at a time so large exports never sit in memory
+export async function generateContactExport(
+  prisma: PrismaClient,
+  tenantId: string,
+  input: ContactExportInput,
+  write: ExportWriter
+): Promise<ContactExportFile> {
+  const where = assertSearchComplete(await buildContactListWhere(prisma, tenantId, input.filter))
+  const columns = await resolveColumns(prisma, tenantId, input.columns)
+  const stamp = new Date().toISOString().slice(0, 10)
+  let rowCount = 0
+
+  if (input.format === 'XLSX') {
+    // The streaming writer emits the zipped workbook as rows are committed
+    const output = new Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        write(chunk).then(() => callback(), callback)
+      }
+    })
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true })
+    const sheet = workbook.addWorksheet('Contacts')
+    sheet.columns = columns.map(c => ({ header: c.header, key: c.key, width: 20 }))
+    sheet.getRow(1).font = { bold: true }
+
+    for await (const batch of contactBatches(prisma, where)) {
+      for (const contact of batch) {
+        sheet.addRow(Object.fromEntries(columns.map(c => [c.key, c.value(contact)]))).commit()
+      }
+      rowCount += batch.length
+    }
+    sheet.commit()
+    await workbook.commit()
+
+    return {
+      filename: `contacts-${stamp}.xlsx`,
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      rowCount
+    }
+  }
+
+  if (input.format === 'VCARD') {
+    const selected = new Set(columns.map(c => c.key))
+    for await (const batch of contactBatches(prisma, where)) {
+      await write(Buffer.from(batch.map(contact => toVCard(contact, selected) + '\r\n').join(''), 'utf8'))
+      rowCount += batch.length
+    }
+
+    return {
+      filename: `contacts-${stamp}.vcf`,
+      contentType: 'text/vcard; charset=utf-8',
+      rowCount
+    }
+  }
+
+  // BOM so Excel opens UTF-8 names correctly
+  await write(Buffer.from('\uFEFF' + columns.map(c => csvEscape(c.header)).join(',') + '\r\n', 'utf8'))
+  for await (const batch of contactBatches(prisma, where)) {
+    const lines = batch.map(contact => columns.map(c => csvEscape(formatCell(c.value(contact)))).join(',') + '\r\n')
+    await write(Buffer.from(lines.join(''), 'utf8'))
+    rowCount += batch.length
+  }
+
+  return {
+    filename: `contacts-${stamp}.csv`,
+    contentType: 'text/csv; charset=utf-8',
+    rowCount
+  }
+}
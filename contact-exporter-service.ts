@@ -0,0 +1,95 @@
+// packages/worker/src/services/contact-exporter.ts
+import { PrismaClient } from '@elevate/database'
+import { contactExportInputSchema, ExportWriter, generateContactExport } from '@elevate/trpc/lib/contact-export'
+
+const prisma = new PrismaClient()
+
+// How long a finished export can be downloaded
+const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// A PROCESSING export without a heartbeat for this long lost its worker
+const STALE_JOB_MS = 10 * 60 * 1000
+
+// The file is stored in pieces of about this size
+const CHUNK_BYTES = 1024 * 1024
+
+export class ContactExporter {
+  // Generate pending exports, restart ones abandoned by a crashed worker and
+  // drop expired files
+  async processQueue(): Promise<void> {
+    await prisma.contactExport.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    })
+
+    const jobs = await prisma.contactExport.findMany({
+      where: {
+        OR: [
+          { status: 'PENDING' },
+          { status: 'PROCESSING', heartbeatAt: { lt: new Date(Date.now() - STALE_JOB_MS) } }
+        ]
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 5
+    })
+
+    for (const job of jobs) {
+      // Claim the job so overlapping runs don't generate it twice
+      const claimed = await prisma.contactExport.updateMany({
+        where: { id: job.id, status: job.status, heartbeatAt: job.heartbeatAt },
+        data: { status: 'PROCESSING', heartbeatAt: new Date() }
+      })
+      if (claimed.count === 0) continue
+
+      try {
+        const input = contactExportInputSchema.parse(job.params)
+        const file = await this.writeFile(job.id, output => generateContactExport(prisma, job.tenantId, input, output))
+
+        await prisma.contactExport.update({
+          where: { id: job.id },
+          data: {
+            status: 'COMPLETED',
+            filename: file.filename,
+            contentType: file.contentType,
+            rowCount: file.rowCount,
+            completedAt: new Date(),
+            expiresAt: new Date(Date.now() + EXPORT_TTL_MS)
+          }
+        })
+      } catch (error) {
+        console.error(`Error generating export ${job.id}:`, error)
+        await prisma.contactExport.update({
+          where: { id: job.id },
+          data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error) }
+        })
+      }
+    }
+  }
+
+  // Store the file as it is generated, a chunk at a time, renewing the lease
+  // with each one. A restarted export writes the file again from the start.
+  private async writeFile<T>(exportId: string, generate: (write: ExportWriter) => Promise<T>): Promise<T> {
+    await prisma.contactExportChunk.deleteMany({ where: { exportId } })
+
+    let pending: Buffer[] = []
+    let pendingBytes = 0
+    let index = 0
+    const flush = async () => {
+      if (pendingBytes === 0) return
+      const data = Buffer.concat(pending)
+      pending = []
+      pendingBytes = 0
+      await prisma.$transaction([
+        prisma.contactExportChunk.create({ data: { exportId, index: index++, data } }),
+        prisma.contactExport.update({ where: { id: exportId }, data: { heartbeatAt: new Date() } })
+      ])
+    }
+
+    const result = await generate(async chunk => {
+      pending.push(chunk)
+      pendingBytes += chunk.length
+      if (pendingBytes >= CHUNK_BYTES) await flush()
+    })
+    await flush()
+    return result
+  }
+}
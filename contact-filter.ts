@@ -0,0 +1,429 @@
+// packages/trpc/src/lib/contact-filter.ts
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { Prisma, PrismaClient } from '@elevate/database'
+import { SEARCH_MATCH_LIMIT, searchContactWhere } from './contact-search'
+
+const STRING_FIELDS = [
+  'firstName', 'lastName', 'email', 'phone', 'mobile', 'company', 'jobTitle',
+  'address', 'city', 'state', 'zipCode', 'country', 'website', 'leadSource'
+] as const
+const DATE_FIELDS = ['createdAt', 'updatedAt'] as const
+const NUMBER_FIELDS = ['leadScore'] as const
+const LEAD_STATUSES = ['NEW', 'CONTACTED', 'QUALIFIED', 'UNQUALIFIED', 'CONVERTED'] as const
+
+const MAX_DEPTH = 5
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const fieldConditionSchema = z.object({
+  type: z.literal('field'),
+  field: z.enum([...STRING_FIELDS, ...DATE_FIELDS, ...NUMBER_FIELDS, 'leadStatus', 'assignedToId']),
+  operator: z.enum([
+    'equals', 'notEquals', 'contains', 'notContains', 'startsWith', 'endsWith',
+    'in', 'notIn', 'isEmpty', 'isNotEmpty', 'gt', 'gte', 'lt', 'lte',
+    'before', 'after', 'withinLastDays', 'notWithinLastDays'
+  ]),
+  value: z.union([z.string(), z.number(), z.array(z.string())]).optional()
+})
+
+const tagConditionSchema = z.object({
+  type: z.literal('tag'),
+  operator: z.enum(['hasAny', 'hasAll', 'hasNone']),
+  tagIds: z.array(z.string()).min(1)
+})
+
+const customDataConditionSchema = z.object({
+  type: z.literal('customData'),
+  key: z.string().min(1),
+  operator: z.enum(['equals', 'notEquals', 'contains', 'gt', 'gte', 'lt', 'lte', 'exists', 'notExists']),
+  value: z.union([z.string(), z.number(), z.boolean()]).optional()
+})
+
+const dealCountConditionSchema = z.object({
+  type: z.literal('dealCount'),
+  operator: z.enum(['eq', 'gt', 'gte', 'lt', 'lte']),
+  value: z.number().int().min(0),
+  status: z.enum(['OPEN', 'WON', 'LOST']).optional()
+})
+
+const activityConditionSchema = z.object({
+  type: z.literal('activity'),
+  operator: z.enum(['withinLastDays', 'notWithinLastDays']),
+  days: z.number().int().min(1),
+  activityType: z.enum(['NOTE', 'EMAIL', 'SMS', 'CALL', 'MEETING', 'SYSTEM']).optional()
+})
+
+type FieldCondition = z.infer<typeof fieldConditionSchema>
+type TagCondition = z.infer<typeof tagConditionSchema>
+type CustomDataCondition = z.infer<typeof customDataConditionSchema>
+type DealCountCondition = z.infer<typeof dealCountConditionSchema>
+type ActivityCondition = z.infer<typeof activityConditionSchema>
+
+export type ContactFilter =
+  | { type: 'group'; operator: 'AND' | 'OR'; conditions: ContactFilter[] }
+  | FieldCondition
+  | TagCondition
+  | CustomDataCondition
+  | DealCountCondition
+  | ActivityCondition
+
+// Nested AND/OR tree of contact conditions, shared by contact.list and saved segments
+export const contactFilterSchema: z.ZodType<ContactFilter> = z.lazy(() =>
+  z.union([
+    z.object({
+      type: z.literal('group'),
+      operator: z.enum(['AND', 'OR']),
+      conditions: z.array(contactFilterSchema)
+    }),
+    fieldConditionSchema,
+    tagConditionSchema,
+    customDataConditionSchema,
+    dealCountConditionSchema,
+    activityConditionSchema
+  ])
+)
+
+function invalid(message: string): never {
+  throw new TRPCError({ code: 'BAD_REQUEST', message })
+}
+
+function unsupported(operator: string, field: string): never {
+  invalid(`Operator "${operator}" is not supported for field "${field}"`)
+}
+
+function asString(condition: FieldCondition): string {
+  if (typeof condition.value !== 'string') {
+    invalid(`Field "${condition.field}" with operator "${condition.operator}" requires a string value`)
+  }
+  return condition.value
+}
+
+function asStringArray(condition: FieldCondition): string[] {
+  if (!Array.isArray(condition.value)) {
+    invalid(`Field "${condition.field}" with operator "${condition.operator}" requires a list of values`)
+  }
+  return condition.value
+}
+
+function asNumber(condition: FieldCondition): number {
+  if (typeof condition.value !== 'number') {
+    invalid(`Field "${condition.field}" with operator "${condition.operator}" requires a number`)
+  }
+  return condition.value
+}
+
+function asDays(condition: FieldCondition): Date {
+  if (typeof condition.value !== 'number' || condition.value < 0) {
+    invalid(`Field "${condition.field}" with operator "${condition.operator}" requires a number of days`)
+  }
+  return new Date(Date.now() - condition.value * DAY_MS)
+}
+
+function asDate(condition: FieldCondition): Date {
+  const date = typeof condition.value === 'string' ? new Date(condition.value) : null
+  if (!date || isNaN(date.getTime())) {
+    invalid(`Field "${condition.field}" with operator "${condition.operator}" requires an ISO date`)
+  }
+  return date
+}
+
+function fieldWhere(condition: FieldCondition): Prisma.ContactWhereInput {
+  const { field, operator } = condition
+  const where = (filter: unknown) => ({ [field]: filter }) as Prisma.ContactWhereInput
+  const empty: Prisma.ContactWhereInput = { OR: [where(null), where('')] }
+
+  if ((STRING_FIELDS as readonly string[]).includes(field)) {
+    switch (operator) {
+      case 'equals':
+        return where({ equals: asString(condition), mode: 'insensitive' })
+      case 'notEquals':
+        return { OR: [where(null), { NOT: where({ equals: asString(condition), mode: 'insensitive' }) }] }
+      case 'contains':
+        return where({ contains: asString(condition), mode: 'insensitive' })
+      case 'notContains':
+        return { OR: [where(null), { NOT: where({ contains: asString(condition), mode: 'insensitive' }) }] }
+      case 'startsWith':
+        return where({ startsWith: asString(condition), mode: 'insensitive' })
+      case 'endsWith':
+        return where({ endsWith: asString(condition), mode: 'insensitive' })
+      case 'in':
+        return where({ in: asStringArray(condition), mode: 'insensitive' })
+      case 'notIn':
+        return { OR: [where(null), { NOT: where({ in: asStringArray(condition), mode: 'insensitive' }) }] }
+      case 'isEmpty':
+        return empty
+      case 'isNotEmpty':
+        return { NOT: empty }
+    }
+  }
+
+  if ((DATE_FIELDS as readonly string[]).includes(field)) {
+    switch (operator) {
+      case 'before':
+        return where({ lt: asDate(condition) })
+      case 'after':
+        return where({ gt: asDate(condition) })
+      case 'withinLastDays':
+        return where({ gte: asDays(condition) })
+      case 'notWithinLastDays':
+        return where({ lt: asDays(condition) })
+    }
+  }
+
+  if ((NUMBER_FIELDS as readonly string[]).includes(field)) {
+    switch (operator) {
+      case 'equals':
+        return where(asNumber(condition))
+      case 'notEquals':
+        return where({ not: asNumber(condition) })
+      case 'gt':
+      case 'gte':
+      case 'lt':
+      case 'lte':
+        return where({ [operator]: asNumber(condition) })
+    }
+  }
+
+  if (field === 'leadStatus') {
+    const statuses = operator === 'in' || operator === 'notIn' ? asStringArray(condition) : [asString(condition)]
+    if (statuses.some(s => !(LEAD_STATUSES as readonly string[]).includes(s))) {
+      invalid(`Unknown lead status in filter: ${statuses.join(', ')}`)
+    }
+    switch (operator) {
+      case 'equals':
+        return where(statuses[0])
+      case 'notEquals':
+        return where({ not: statuses[0] })
+      case 'in':
+        return where({ in: statuses })
+      case 'notIn':
+        return where({ notIn: statuses })
+    }
+  }
+
+  if (field === 'assignedToId') {
+    switch (operator) {
+      case 'equals':
+        return where(asString(condition))
+      case 'notEquals':
+        return { OR: [where(null), where({ not: asString(condition) })] }
+      case 'in':
+        return where({ in: asStringArray(condition) })
+      case 'isEmpty':
+        return where(null)
+      case 'isNotEmpty':
+        return where({ not: null })
+    }
+  }
+
+  unsupported(operator, field)
+}
+
+function tagWhere(condition: TagCondition): Prisma.ContactWhereInput {
+  switch (condition.operator) {
+    case 'hasAny':
+      return { tags: { some: { tagId: { in: condition.tagIds } } } }
+    case 'hasAll':
+      return { AND: condition.tagIds.map(tagId => ({ tags: { some: { tagId } } })) }
+    case 'hasNone':
+      return { tags: { none: { tagId: { in: condition.tagIds } } } }
+  }
+}
+
+function customDataWhere(condition: CustomDataCondition): Prisma.ContactWhereInput {
+  const { key, operator, value } = condition
+  const path = [key]
+
+  if (operator === 'exists') {
+    return { customData: { path, not: Prisma.AnyNull } }
+  }
+  if (operator === 'notExists') {
+    return { NOT: { customData: { path, not: Prisma.AnyNull } } }
+  }
+  if (value === undefined) {
+    invalid(`Custom field "${key}" with operator "${operator}" requires a value`)
+  }
+
+  switch (operator) {
+    case 'equals':
+      return { customData: { path, equals: value } }
+    case 'notEquals':
+      return { NOT: { customData: { path, equals: value } } }
+    case 'contains':
+      return { customData: { path, string_contains: String(value) } }
+    case 'gt':
+      return { customData: { path, gt: value } }
+    case 'gte':
+      return { customData: { path, gte: value } }
+    case 'lt':
+      return { customData: { path, lt: value } }
+    case 'lte':
+      return { customData: { path, lte: value } }
+  }
+}
+
+// Prisma can't filter on relation counts, so resolve the matching contact IDs up front
+async function dealCountWhere(
+  prisma: PrismaClient,
+  tenantId: string,
+  condition: DealCountCondition
+): Promise<Prisma.ContactWhereInput> {
+  const { operator, value, status } = condition
+  const dealWhere: Prisma.DealWhereInput = { tenantId, deletedAt: null, ...(status && { status }) }
+
+  const contactIdsWithCount = async (having: Prisma.IntFilter) => {
+    const groups = await prisma.deal.groupBy({
+      by: ['contactId'],
+      where: dealWhere,
+      having: { contactId: { _count: having } }
+    })
+    return groups.map(g => g.contactId)
+  }
+
+  switch (operator) {
+    case 'eq':
+      return value === 0
+        ? { deals: { none: dealWhere } }
+        : { id: { in: await contactIdsWithCount({ equals: value }) } }
+    case 'gt':
+      return { id: { in: await contactIdsWithCount({ gt: value }) } }
+    case 'gte':
+      return value === 0 ? {} : { id: { in: await contactIdsWithCount({ gte: value }) } }
+    case 'lt':
+      return value === 0 ? { id: { in: [] } } : { id: { notIn: await contactIdsWithCount({ gte: value }) } }
+    case 'lte':
+      return { id: { notIn: await contactIdsWithCount({ gt: value }) } }
+  }
+}
+
+function activityWhere(condition: ActivityCondition): Prisma.ContactWhereInput {
+  const activityFilter: Prisma.ActivityWhereInput = {
+    createdAt: { gte: new Date(Date.now() - condition.days * DAY_MS) },
+    ...(condition.activityType && { type: condition.activityType })
+  }
+
+  return condition.operator === 'withinLastDays'
+    ? { activities: { some: activityFilter } }
+    : { activities: { none: activityFilter } }
+}
+
+// Translate a filter tree into a Prisma where clause (without the tenant scope)
+export async function buildContactFilterWhere(
+  prisma: PrismaClient,
+  tenantId: string,
+  filter: ContactFilter,
+  depth = 0
+): Promise<Prisma.ContactWhereInput> {
+  if (depth > MAX_DEPTH) {
+    invalid(`Filters can be nested at most ${MAX_DEPTH} levels deep`)
+  }
+
+  switch (filter.type) {
+    case 'group': {
+      const conditions = await Promise.all(
+        filter.conditions.map(c => buildContactFilterWhere(prisma, tenantId, c, depth + 1))
+      )
+      if (conditions.length === 0) return {}
+      return filter.operator === 'AND' ? { AND: conditions } : { OR: conditions }
+    }
+    case 'field':
+      return fieldWhere(filter)
+    case 'tag':
+      return tagWhere(filter)
+    case 'customData':
+      return customDataWhere(filter)
+    case 'dealCount':
+      return dealCountWhere(prisma, tenantId, filter)
+    case 'activity':
+      return activityWhere(filter)
+  }
+}
+
+// Load a saved segment and resolve its filter into a where clause
+export async function getSegmentWhere(
+  prisma: PrismaClient,
+  tenantId: string,
+  segmentId: string
+): Promise<Prisma.ContactWhereInput> {
+  const segment = await prisma.segment.findFirst({
+    where: { id: segmentId, tenantId }
+  })
+  if (!segment) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Segment not found' })
+  }
+
+  return buildContactFilterWhere(prisma, tenantId, contactFilterSchema.parse(segment.filter))
+}
+
+// The simple filters accepted by `contact.list`, reused by bulk operations
+export const contactListFilterSchema = z.object({
+  search: z.string().optional(),
+  tagIds: z.array(z.string()).optional(),
+  leadStatus: z.enum(LEAD_STATUSES).optional(),
+  assignedToId: z.string().optional(),
+  companyId: z.string().optional(),
+  segmentId: z.string().optional(),
+  filter: contactFilterSchema.optional(),
+  minScore: z.number().int().optional(),
+  maxScore: z.number().int().optional()
+})
+
+export type ContactListFilter = z.infer<typeof contactListFilterSchema>
+
+export interface ContactListWhere {
+  where: Prisma.ContactWhereInput
+  // The search matched more than SEARCH_MATCH_LIMIT contacts, so `where`
+  // covers only the best-ranked ones
+  searchTruncated: boolean
+}
+
+// Tenant-scoped where clause for the `contact.list` filters, excluding trashed contacts
+export async function buildContactListWhere(
+  prisma: PrismaClient,
+  tenantId: string,
+  input: ContactListFilter
+): Promise<ContactListWhere> {
+  // Saved segment, ad-hoc filter tree and search all narrow the simple filters below
+  const filterWheres: Prisma.ContactWhereInput[] = []
+  let searchTruncated = false
+  if (input.segmentId) {
+    filterWheres.push(await getSegmentWhere(prisma, tenantId, input.segmentId))
+  }
+  if (input.filter) {
+    filterWheres.push(await buildContactFilterWhere(prisma, tenantId, input.filter))
+  }
+  if (input.search) {
+    const search = await searchContactWhere(prisma, tenantId, input.search)
+    filterWheres.push(search.where)
+    searchTruncated = search.truncated
+  }
+
+  const where: Prisma.ContactWhereInput = {
+    tenantId,
+    deletedAt: null,
+    ...(input.leadStatus && { leadStatus: input.leadStatus }),
+    ...(input.assignedToId && { assignedToId: input.assignedToId }),
+    ...(input.companyId && { companyId: input.companyId }),
+    ...(input.tagIds?.length && {
+      tags: { some: { tagId: { in: input.tagIds } } }
+    }),
+    ...((input.minScore !== undefined || input.maxScore !== undefined) && {
+      leadScore: { gte: input.minScore, lte: input.maxScore }
+    }),
+    ...(filterWheres.length && { AND: filterWheres })
+  }
+
+  return { where, searchTruncated }
+}
+
+// Bulk actions and exports must cover every matching contact, so they refuse
+// a search that was cut short
+export function assertSearchComplete(list: ContactListWhere): Prisma.ContactWhereInput {
+  if (list.searchTruncated) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `The search matches more than ${SEARCH_MATCH_LIMIT} contacts. Narrow it down and try again.`
+    })
+  }
+  return list.where
+}
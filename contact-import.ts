@@ -0,0 +1,419 @@
+// packages/trpc/src/lib/contact-import.ts
+import { z } from 'zod'
+import Papa from 'papaparse'
+import { Prisma, PrismaClient } from '@elevate/database'
+import { resolveContactCompany } from './company'
+import { contactPhoneColumns, normalizePhone } from './phone'
+import { assignContact } from './lead-assignment'
+import { validateCustomData } from './custom-fields'
+import { describeChanges, diffCustomData, diffFields, FieldChangeInput, recordFieldChanges } from './field-history'
+import { MappedImportRow } from './import-mapping'
+import { formatCell } from './contact-export'
+
+const LEAD_STATUSES = ['NEW', 'CONTACTED', 'QUALIFIED', 'UNQUALIFIED', 'CONVERTED'] as const
+
+// Rows handled between progress updates and cancellation checks
+export const IMPORT_BATCH_SIZE = 500
+
+// Uploads travel base64-encoded in a tRPC payload
+export const MAX_IMPORT_FILE_BYTES = 10 * 1024 * 1024
+
+export const IMPORT_MODES = ['CREATE', 'UPDATE', 'UPSERT'] as const
+export const IMPORT_MATCH_KEYS = ['email', 'phone', 'externalId'] as const
+
+export const importOptionsSchema = z.object({
+  // CREATE only adds contacts, UPDATE only changes existing ones, UPSERT does both
+  mode: z.enum(IMPORT_MODES).default('CREATE'),
+  // How rows are matched to existing contacts
+  matchOn: z.enum(IMPORT_MATCH_KEYS).default('email'),
+  // In CREATE mode, skip rows that match an existing contact
+  skipDuplicates: z.boolean().default(true),
+  // Work out what each row would do without writing anything
+  dryRun: z.boolean().default(false)
+})
+
+export type ImportOptions = z.infer<typeof importOptionsSchema>
+
+const optionalText = z.string().trim().optional().transform(v => v || undefined)
+
+// Validates the standard fields of a mapped row. Names are only required
+// when the row creates a contact.
+export const importContactSchema = z.object({
+  firstName: optionalText,
+  lastName: optionalText,
+  externalId: optionalText,
+  email: optionalText.pipe(z.string().email('Invalid email address').optional()),
+  phone: optionalText,
+  mobile: optionalText,
+  company: optionalText,
+  jobTitle: optionalText,
+  address: optionalText,
+  city: optionalText,
+  state: optionalText,
+  zipCode: optionalText,
+  country: optionalText,
+  website: optionalText
+    .transform(v => (v && !/^https?:\/\//i.test(v) ? `https://${v}` : v))
+    .pipe(z.string().url('Invalid website URL').optional()),
+  leadSource: optionalText,
+  leadStatus: optionalText
+    .transform(v => v?.toUpperCase())
+    .pipe(z.enum(LEAD_STATUSES, { errorMap: () => ({ message: `Lead status must be one of: ${LEAD_STATUSES.join(', ')}` }) }).optional())
+})
+
+export type ImportContact = z.infer<typeof importContactSchema>
+
+export interface ImportRowError {
+  // 1-based position among the file's data rows
+  rowNumber: number
+  message: string
+  data: Record<string, string>
+}
+
+export type ImportRowAction = 'CREATE' | 'UPDATE' | 'SKIP'
+
+// What a row did (or, in a dry run, would do)
+export interface ImportRowOutcome {
+  rowNumber: number
+  action: ImportRowAction
+  // Null for contacts a dry run would create
+  contactId: string | null
+  // Why a row was skipped
+  reason?: string
+  // Fields an update changes
+  changes?: FieldChangeInput[]
+}
+
+export interface ImportBatchResult {
+  created: number
+  updated: number
+  skipped: number
+  errors: ImportRowError[]
+  outcomes: ImportRowOutcome[]
+}
+
+export interface ImportRow {
+  rowNumber: number
+  // The row as uploaded, for the error report
+  data: Record<string, string>
+  mapped: MappedImportRow
+}
+
+interface KnownContact {
+  // Null for contacts created earlier in a dry run
+  id: string | null
+  trashed: boolean
+}
+
+export interface ImportContext {
+  tenantId: string
+  userId: string
+  defaultCountry: string
+  // The background job being run; its contacts record the row they came from
+  jobId?: string
+  options: ImportOptions
+  // Tag ids by lowercased name, filled in as tags are looked up or created
+  tagIds: Map<string, string>
+  // Contacts by match key, filled in as batches are looked up or created
+  known: Map<string, KnownContact[]>
+}
+
+export function createImportContext(
+  options: ImportOptions,
+  context: { tenantId: string; userId: string; defaultCountry: string; jobId?: string }
+): ImportContext {
+  return { ...context, options, tagIds: new Map(), known: new Map() }
+}
+
+// A row's value for the match key, normalized the way it is looked up
+function matchKeyFor(context: ImportContext, data: ImportContact): string | undefined {
+  switch (context.options.matchOn) {
+    case 'email':
+      return data.email?.toLowerCase()
+    case 'phone':
+      return normalizePhone(data.phone ?? data.mobile, context.defaultCountry)?.e164 ?? undefined
+    case 'externalId':
+      return data.externalId
+  }
+}
+
+// Look up existing contacts for keys not seen in earlier batches
+async function loadKnownContacts(prisma: PrismaClient, context: ImportContext, keys: string[]): Promise<void> {
+  const missing = Array.from(new Set(keys.filter(key => !context.known.has(key))))
+  if (missing.length === 0) return
+
+  const contacts = await prisma.contact.findMany({
+    where: {
+      tenantId: context.tenantId,
+      ...(context.options.matchOn === 'email' && { email: { in: missing, mode: 'insensitive' } }),
+      ...(context.options.matchOn === 'phone' && {
+        OR: [{ phoneE164: { in: missing } }, { mobileE164: { in: missing } }]
+      }),
+      ...(context.options.matchOn === 'externalId' && { externalId: { in: missing } })
+    },
+    select: { id: true, email: true, phoneE164: true, mobileE164: true, externalId: true, deletedAt: true }
+  })
+
+  missing.forEach(key => context.known.set(key, []))
+  for (const contact of contacts) {
+    const contactKeys = {
+      email: [contact.email?.toLowerCase()],
+      phone: [contact.phoneE164, contact.mobileE164],
+      externalId: [contact.externalId]
+    }[context.options.matchOn]
+    for (const key of Array.from(new Set(contactKeys))) {
+      if (key && context.known.has(key)) {
+        context.known.get(key)!.push({ id: contact.id, trashed: !!contact.deletedAt })
+      }
+    }
+  }
+}
+
+// Ids for tag names, creating tags the tenant doesn't have yet. A dry run
+// returns a placeholder for tags it would create.
+async function resolveTagIds(prisma: PrismaClient, context: ImportContext, names: string[]): Promise<string[]> {
+  const missing = names.filter(name => !context.tagIds.has(name.toLowerCase()))
+  if (missing.length > 0) {
+    const existing = await prisma.tag.findMany({
+      where: { tenantId: context.tenantId, name: { in: missing, mode: 'insensitive' } },
+      select: { id: true, name: true }
+    })
+    existing.forEach(tag => context.tagIds.set(tag.name.toLowerCase(), tag.id))
+
+    for (const name of missing) {
+      if (context.tagIds.has(name.toLowerCase())) continue
+      const id = context.options.dryRun
+        ? `new:${name}`
+        : (await prisma.tag.create({ data: { tenantId: context.tenantId, name } })).id
+      context.tagIds.set(name.toLowerCase(), id)
+    }
+  }
+  return Array.from(new Set(names.map(name => context.tagIds.get(name.toLowerCase())!)))
+}
+
+async function createImportedContact(
+  prisma: PrismaClient,
+  context: ImportContext,
+  rowNumber: number,
+  data: ImportContact,
+  mapped: MappedImportRow
+): Promise<string | null> {
+  if (!data.firstName || !data.lastName) {
+    throw new Error(!data.firstName ? 'Missing first name' : 'Missing last name')
+  }
+
+  const customData = await validateCustomData(prisma, context.tenantId, mapped.customData)
+  if (context.options.dryRun) return null
+
+  const companyData = await resolveContactCompany(prisma, context.tenantId, data)
+  const tagIds = await resolveTagIds(prisma, context, mapped.tags)
+
+  const contact = await prisma.contact.create({
+    data: {
+      ...data,
+      firstName: data.firstName,
+      lastName: data.lastName,
+      ...companyData,
+      ...contactPhoneColumns({ phone: data.phone ?? null, mobile: data.mobile ?? null }, context.defaultCountry),
+      customData: customData as Prisma.InputJsonValue,
+      tenantId: context.tenantId,
+      leadStatus: data.leadStatus ?? 'NEW',
+      assignedToId: mapped.ownerId,
+      ...(context.jobId && { importJobId: context.jobId, importRowNumber: rowNumber }),
+      tags: tagIds.length ? { create: tagIds.map(tagId => ({ tagId })) } : undefined
+    }
+  })
+
+  // Rows without an owner go through the assignment rules
+  await assignContact(prisma, context.tenantId, contact.id, context.userId)
+
+  return contact.id
+}
+
+// Apply the row's non-blank values to an existing contact. Tags are added,
+// never removed. Returns the changes (empty when the contact is up to date).
+async function updateImportedContact(
+  prisma: PrismaClient,
+  context: ImportContext,
+  contactId: string,
+  data: ImportContact,
+  mapped: MappedImportRow
+): Promise<FieldChangeInput[]> {
+  const existing = await prisma.contact.findUniqueOrThrow({
+    where: { id: contactId },
+    include: { tags: { select: { tagId: true } } }
+  })
+
+  const fields = Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined)
+  ) as Partial<ImportContact>
+  const customData = Object.keys(mapped.customData).length > 0
+    ? await validateCustomData(prisma, context.tenantId, mapped.customData, existing.customData as Record<string, unknown> | null)
+    : undefined
+  const existingTagIds = existing.tags.map(t => t.tagId)
+  const addedTagIds = (await resolveTagIds(prisma, context, mapped.tags)).filter(id => !existingTagIds.includes(id))
+
+  const updated = {
+    ...fields,
+    ...(mapped.ownerId && { assignedToId: mapped.ownerId })
+  }
+  const changes = [
+    ...diffFields(
+      existing as unknown as Record<string, unknown>,
+      { ...existing, ...updated } as Record<string, unknown>,
+      Object.keys(updated)
+    ),
+    ...(customData ? diffCustomData(existing.customData as Record<string, unknown> | null, customData) : []),
+    ...(addedTagIds.length > 0
+      ? diffFields({ tagIds: [...existingTagIds].sort() }, { tagIds: [...existingTagIds, ...addedTagIds].sort() }, ['tagIds'])
+      : [])
+  ]
+  if (changes.length === 0 || context.options.dryRun) return changes
+
+  await prisma.contact.update({
+    where: { id: contactId },
+    data: {
+      ...updated,
+      ...(fields.phone !== undefined || fields.mobile !== undefined
+        ? contactPhoneColumns(fields, context.defaultCountry)
+        : {}),
+      ...(customData && { customData: customData as Prisma.InputJsonValue }),
+      ...(addedTagIds.length > 0 && { tags: { create: addedTagIds.map(tagId => ({ tagId })) } })
+    }
+  })
+
+  await recordFieldChanges(prisma, context.tenantId, context.userId, { contactId }, changes)
+  await prisma.activity.create({
+    data: {
+      tenantId: context.tenantId,
+      contactId,
+      userId: context.userId,
+      type: 'SYSTEM',
+      title: 'Contact updated by import',
+      description: `Contact ${existing.firstName} ${existing.lastName} was updated: ${describeChanges(changes)}`,
+      metadata: { changes } as unknown as Prisma.InputJsonValue
+    }
+  })
+
+  return changes
+}
+
+// Contacts a job already created for these rows, by row number. There are
+// some when a batch runs again after its worker stopped before recording progress.
+async function loadCreatedRows(prisma: PrismaClient, context: ImportContext, rows: ImportRow[]): Promise<Map<number, string>> {
+  if (!context.jobId || context.options.dryRun) return new Map()
+
+  const contacts = await prisma.contact.findMany({
+    where: { importJobId: context.jobId, importRowNumber: { in: rows.map(row => row.rowNumber) } },
+    select: { id: true, importRowNumber: true }
+  })
+  return new Map(contacts.map(contact => [contact.importRowNumber!, contact.id]))
+}
+
+// Import one batch of mapped rows. Existing contacts are looked up once per
+// batch by the match key; a failing row is reported and the rest continue.
+// Rows the job already created a contact for count as created again, so a
+// re-run batch doesn't duplicate them.
+export async function importContactRows(
+  prisma: PrismaClient,
+  context: ImportContext,
+  rows: ImportRow[]
+): Promise<ImportBatchResult> {
+  const result: ImportBatchResult = { created: 0, updated: 0, skipped: 0, errors: [], outcomes: [] }
+  const { mode, skipDuplicates } = context.options
+  const matching = mode !== 'CREATE' || skipDuplicates
+  const created = await loadCreatedRows(prisma, context, rows)
+
+  const parsed = rows.map(row => {
+    const contact = importContactSchema.safeParse(row.mapped.fields)
+    return { ...row, contact, key: contact.success ? matchKeyFor(context, contact.data) : undefined }
+  })
+  if (matching) {
+    await loadKnownContacts(prisma, context, parsed.flatMap(row => (row.key ? [row.key] : [])))
+  }
+
+  const skip = (rowNumber: number, reason: string) => {
+    result.skipped++
+    result.outcomes.push({ rowNumber, action: 'SKIP', contactId: null, reason })
+  }
+
+  for (const row of parsed) {
+    const createdId = created.get(row.rowNumber)
+    if (createdId) {
+      if (row.key) context.known.set(row.key, [{ id: createdId, trashed: false }])
+      result.created++
+      result.outcomes.push({ rowNumber: row.rowNumber, action: 'CREATE', contactId: createdId })
+      continue
+    }
+
+    const messages = [
+      ...row.mapped.errors,
+      ...(row.contact.success ? [] : row.contact.error.issues.map(issue => issue.message))
+    ]
+    if (!row.contact.success || messages.length > 0) {
+      result.errors.push({ rowNumber: row.rowNumber, message: messages.join('; '), data: row.data })
+      continue
+    }
+
+    const data = row.contact.data
+    const matches = matching && row.key ? context.known.get(row.key) ?? [] : []
+
+    try {
+      if (matches.length > 1) {
+        throw new Error(`Matches ${matches.length} contacts by ${context.options.matchOn}`)
+      }
+      const match = matches[0]
+
+      if (match && mode === 'CREATE') {
+        skip(row.rowNumber, 'Matches an existing contact')
+      } else if (match && match.trashed) {
+        throw new Error('The matching contact is in the trash')
+      } else if (match) {
+        // A contact created earlier in a dry run has nothing stored to diff against
+        const changes = match.id
+          ? await updateImportedContact(prisma, context, match.id, data, row.mapped)
+          : []
+        if (match.id && changes.length === 0) {
+          skip(row.rowNumber, 'Already up to date')
+        } else {
+          result.updated++
+          result.outcomes.push({ rowNumber: row.rowNumber, action: 'UPDATE', contactId: match.id, changes })
+        }
+      } else if (mode === 'UPDATE') {
+        skip(row.rowNumber, row.key ? 'No matching contact' : `No ${context.options.matchOn} to match on`)
+      } else {
+        const contactId = await createImportedContact(prisma, context, row.rowNumber, data, row.mapped)
+        // Later rows with the same key match this contact
+        if (row.key) context.known.set(row.key, [{ id: contactId, trashed: false }])
+        result.created++
+        result.outcomes.push({ rowNumber: row.rowNumber, action: 'CREATE', contactId })
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : ''
+      result.errors.push({ rowNumber: row.rowNumber, message: message || String(error), data: row.data })
+    }
+  }
+
+  return result
+}
+
+// CSV of the failed rows: row number and reason, then the original columns,
+// with formulas escaped the way exports do
+export async function buildImportErrorReport(
+  prisma: PrismaClient,
+  job: { id: string; headers: unknown }
+): Promise<string> {
+  const headers = Array.isArray(job.headers) ? (job.headers as string[]) : []
+  const errors = await prisma.importRowError.findMany({
+    where: { jobId: job.id },
+    orderBy: { rowNumber: 'asc' }
+  })
+
+  return Papa.unparse({
+    fields: ['Row', 'Error', ...headers].map(formatCell),
+    data: errors.map(error => {
+      const data = (error.data ?? {}) as Record<string, string>
+      return [error.rowNumber, error.message, ...headers.map(header => data[header] ?? '')].map(formatCell)
+    })
+  })
+}
@@ -0,0 +1,147 @@
+// packages/worker/src/services/contact-importer.ts
+import { ImportJob, Prisma, PrismaClient } from '@elevate/database'
+import { getTenantDefaultCountry } from '@elevate/trpc/lib/phone'
+import {
+  createImportContext,
+  IMPORT_BATCH_SIZE,
+  importContactRows,
+  importOptionsSchema
+} from '@elevate/trpc/lib/contact-import'
+import { applyImportMapping, importMappingSchema, prepareImportMapping } from '@elevate/trpc/lib/import-mapping'
+import { parseImportFile, storedImportFile } from '@elevate/trpc/lib/import-sources'
+
+const prisma = new PrismaClient()
+
+// A PROCESSING job without a heartbeat for this long lost its worker
+const STALE_JOB_MS = 10 * 60 * 1000
+
+// Uploads never started are dropped after a day
+const DRAFT_TTL_MS = 24 * 60 * 60 * 1000
+
+export class ContactImporter {
+  // Run pending imports, resume ones abandoned by a crashed worker and
+  // drop stale drafts
+  async processQueue(): Promise<void> {
+    await prisma.importJob.deleteMany({
+      where: { status: 'DRAFT', createdAt: { lt: new Date(Date.now() - DRAFT_TTL_MS) } }
+    })
+
+    const jobs = await prisma.importJob.findMany({
+      where: {
+        OR: [
+          { status: 'PENDING' },
+          { status: 'PROCESSING', heartbeatAt: { lt: new Date(Date.now() - STALE_JOB_MS) } }
+        ]
+      },
+      orderBy: { createdAt: 'asc' },
+      take: 2
+    })
+
+    for (const job of jobs) {
+      // Claim the job so overlapping runs don't process it twice
+      const claimed = await prisma.importJob.updateMany({
+        where: { id: job.id, status: job.status, heartbeatAt: job.heartbeatAt },
+        data: { status: 'PROCESSING', heartbeatAt: new Date(), startedAt: job.startedAt ?? new Date() }
+      })
+      if (claimed.count === 0) continue
+
+      try {
+        await this.run(job)
+      } catch (error) {
+        console.error(`Error processing import ${job.id}:`, error)
+        await prisma.importJob.updateMany({
+          where: { id: job.id, status: 'PROCESSING' },
+          data: { status: 'FAILED', error: error instanceof Error ? error.message : String(error) }
+        })
+      }
+    }
+  }
+
+  private async run(job: ImportJob): Promise<void> {
+    const { headers, rows } = await parseImportFile(storedImportFile(job), job.fileType, { sheet: job.sheet })
+    const options = importOptionsSchema.parse(job.options)
+    const mapping = await prepareImportMapping(prisma, job.tenantId, importMappingSchema.parse(job.mapping), options)
+    const context = createImportContext(options, {
+      tenantId: job.tenantId,
+      userId: job.userId,
+      defaultCountry: await getTenantDefaultCountry(prisma, job.tenantId),
+      jobId: job.id
+    })
+
+    await prisma.importJob.update({
+      where: { id: job.id },
+      data: { headers, totalRows: rows.length }
+    })
+
+    // Contacts created by a batch that didn't get to record its progress are
+    // found by their row number when the batch runs again
+    for (let start = job.processedRows; start < rows.length; start += IMPORT_BATCH_SIZE) {
+      // Stop between batches once the job has been cancelled
+      const current = await prisma.importJob.findUnique({
+        where: { id: job.id },
+        select: { status: true }
+      })
+      if (current?.status !== 'PROCESSING') return
+
+      const batch = rows.slice(start, start + IMPORT_BATCH_SIZE).map((data, i) => ({
+        rowNumber: start + i + 1,
+        data,
+        mapped: applyImportMapping(data, mapping)
+      }))
+      const result = await importContactRows(prisma, context, batch)
+
+      await prisma.$transaction([
+        prisma.importRowError.createMany({
+          data: result.errors.map(error => ({
+            jobId: job.id,
+            rowNumber: error.rowNumber,
+            message: error.message,
+            data: error.data
+          }))
+        }),
+        // A dry run keeps every row's outcome so it can be reviewed in full
+        prisma.importRowOutcome.createMany({
+          data: options.dryRun
+            ? result.outcomes.map(outcome => ({
+                jobId: job.id,
+                rowNumber: outcome.rowNumber,
+                action: outcome.action,
+                contactId: outcome.contactId,
+                reason: outcome.reason,
+                changes: outcome.changes as Prisma.InputJsonValue | undefined
+              }))
+            : []
+        }),
+        prisma.importJob.update({
+          where: { id: job.id },
+          data: {
+            processedRows: start + batch.length,
+            createdCount: { increment: result.created },
+            updatedCount: { increment: result.updated },
+            skippedCount: { increment: result.skipped },
+            errorCount: { increment: result.errors.length },
+            heartbeatAt: new Date()
+          }
+        })
+      ])
+    }
+
+    const finished = await prisma.importJob.updateMany({
+      where: { id: job.id, status: 'PROCESSING' },
+      data: { status: 'COMPLETED', completedAt: new Date() }
+    })
+    if (finished.count === 0 || options.dryRun) return
+
+    const totals = await prisma.importJob.findUniqueOrThrow({ where: { id: job.id } })
+    await prisma.activity.create({
+      data: {
+        tenantId: job.tenantId,
+        userId: job.userId,
+        type: 'SYSTEM',
+        title: 'Bulk contact import',
+        description: `Imported ${job.filename}: ${totals.createdCount} created, ${totals.updatedCount} updated, ${totals.skippedCount} skipped, ${totals.errorCount} failed`,
+        metadata: { importJobId: job.id }
+      }
+    })
+  }
+}
@@ -0,0 +1,36 @@
+-- packages/database/prisma/migrations/20240315000000_contact_last_activity/migration.sql
+-- Denormalized time of each contact's most recent activity, for list sorting.
+-- Kept current by a trigger on activities.
+
+ALTER TABLE contacts ADD COLUMN last_activity_at timestamp(3);
+
+CREATE OR REPLACE FUNCTION activities_touch_contact() RETURNS trigger AS $$
+BEGIN
+  IF NEW.contact_id IS NOT NULL THEN
+    UPDATE contacts
+       SET last_activity_at = NEW.created_at
+     WHERE id = NEW.contact_id
+       AND (last_activity_at IS NULL OR last_activity_at < NEW.created_at);
+  END IF;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+-- Merges re-point activities, so contact_id changes count too
+CREATE TRIGGER activities_touch_contact
+  AFTER INSERT OR UPDATE OF contact_id
+  ON activities
+  FOR EACH ROW EXECUTE FUNCTION activities_touch_contact();
+
+-- Backfill existing rows
+UPDATE contacts c
+   SET last_activity_at = a.last_at
+  FROM (
+    SELECT contact_id, max(created_at) AS last_at
+      FROM activities
+     WHERE contact_id IS NOT NULL
+     GROUP BY contact_id
+  ) a
+ WHERE a.contact_id = c.id;
+
+CREATE INDEX contacts_tenant_last_activity_idx ON contacts (tenant_id, last_activity_at DESC NULLS LAST, id);
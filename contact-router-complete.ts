@@ -1,8 +1,42 @@
 // packages/trpc/src/routers/contact.ts
+import { randomBytes } from 'crypto'
 import { z } from 'zod'
 import { router, tenantProcedure } from '../trpc'
 import { TRPCError } from '@trpc/server'
-import { Prisma } from '@elevate/database'
+import { Prisma, PrismaClient } from '@elevate/database'
+import { assertSearchComplete, buildContactListWhere, contactListFilterSchema } from '../lib/contact-filter'
+import { findDuplicatePairs } from '../lib/contact-dedupe'
+import { NUMERIC_CUSTOM_FIELD_TYPES, NUMERIC_TEXT_PATTERN, validateCustomData } from '../lib/custom-fields'
+import { calculateLeadScore, recalculateLeadScore } from '../lib/lead-scoring'
+import { trashContacts } from '../lib/trash'
+import {
+  contactExportInputSchema,
+  generateContactExport,
+  INLINE_EXPORT_LIMIT
+} from '../lib/contact-export'
+import { resolveContactCompany } from '../lib/company'
+import { getSearchSnippets, searchContactIds } from '../lib/contact-search'
+import { contactPhoneColumns, getTenantDefaultCountry } from '../lib/phone'
+import { assignContact } from '../lib/lead-assignment'
+import {
+  CONSENT_CHANNELS,
+  CONSENT_STATUSES,
+  consentStatusOf,
+  setConsent
+} from '../lib/consent'
+import { getContactTimeline, TIMELINE_TYPES } from '../lib/contact-timeline'
+import { createNote, noteInclude, noteOrderBy } from '../lib/notes'
+import { createImportContext, importContactRows, importOptionsSchema } from '../lib/contact-import'
+import { listPageSchema, paginateList, SortOption } from '../lib/list-query'
+import {
+  describeChanges,
+  diffCustomData,
+  diffFields,
+  getFieldChange,
+  getFieldHistory,
+  recordFieldChanges,
+  recordManyFieldChanges
+} from '../lib/field-history'
 
 const contactSchema = z.object({
   firstName: z.string().min(1),
@@ -20,59 +54,258 @@ const contactSchema = z.object({
   website: z.string().url().optional().nullable(),
   leadSource: z.string().optional().nullable(),
   leadStatus: z.enum(['NEW', 'CONTACTED', 'QUALIFIED', 'UNQUALIFIED', 'CONVERTED']).optional(),
+  externalId: z.string().max(255).optional().nullable(),
   assignedToId: z.string().optional().nullable(),
+  companyId: z.string().optional().nullable(),
   tagIds: z.array(z.string()).optional(),
   customData: z.record(z.any()).optional()
 })
 
+// Scalar fields whose value can be picked from any contact during a merge
+const MERGEABLE_FIELDS = [
+  'firstName', 'lastName', 'email', 'phone', 'mobile', 'company', 'jobTitle',
+  'address', 'city', 'state', 'zipCode', 'country', 'website', 'leadSource',
+  'leadStatus', 'externalId', 'assignedToId', 'companyId'
+] as const
+
+const CONTACT_SORT_KEYS = ['createdAt', 'updatedAt', 'name', 'leadScore', 'lastActivityAt'] as const
+
+const CONTACT_SORTS: Record<typeof CONTACT_SORT_KEYS[number], SortOption> = {
+  createdAt: { columns: [{ field: 'createdAt' }], defaultDirection: 'desc' },
+  updatedAt: { columns: [{ field: 'updatedAt' }], defaultDirection: 'desc' },
+  name: { columns: [{ field: 'lastName' }, { field: 'firstName' }], defaultDirection: 'asc' },
+  leadScore: { columns: [{ field: 'leadScore' }], defaultDirection: 'desc' },
+  lastActivityAt: { columns: [{ field: 'lastActivityAt', nullable: true }], defaultDirection: 'desc' }
+}
+
+// Largest number of contacts a single bulk update may touch
+const BULK_UPDATE_LIMIT = 5000
+
+const listInclude = {
+  tags: { include: { tag: true } },
+  assignedTo: { select: { id: true, firstName: true, lastName: true } },
+  companyRecord: { select: { id: true, name: true } },
+  _count: { select: { deals: true, activities: true, notes: true } }
+} satisfies Prisma.ContactInclude
+
+type ContactUpdateData = Partial<z.infer<typeof contactSchema>>
+
+// Where a page of an in-memory ranking starts. The cursor is the id of the
+// page's first contact; one that has left the list can't be resumed from.
+function rankedPageStart(ranked: { id: string }[], cursor: string | undefined): number {
+  if (!cursor) return 0
+  const start = ranked.findIndex(r => r.id === cursor)
+  if (start === -1) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cursor is no longer in the list' })
+  }
+  return start
+}
+
+// Apply a partial update, record a per-field diff and rescore the contact.
+// Shared by `update` and `revertField` so both leave the same history.
+async function updateContact(
+  prisma: PrismaClient,
+  tenantId: string,
+  userId: string,
+  id: string,
+  data: ContactUpdateData,
+  revertedChangeId?: string
+) {
+  const { tagIds, customData, ...contactData } = data
+
+  // Verify contact belongs to tenant
+  const existing = await prisma.contact.findFirst({
+    where: { id, tenantId, deletedAt: null },
+    include: { tags: { select: { tagId: true } } }
+  })
+  if (!existing) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
+  }
+
+  // Custom data is a partial update merged over the stored values
+  const validatedCustomData = customData !== undefined
+    ? await validateCustomData(
+        prisma, tenantId, customData, existing.customData as Record<string, unknown> | null
+      )
+    : undefined
+  const newTagIds = tagIds !== undefined ? [...new Set(tagIds)].sort() : undefined
+
+  // Explicit company links are validated; a changed email may match a company domain
+  const companyData = contactData.companyId !== undefined ||
+    (contactData.email && contactData.email !== existing.email && !existing.companyId)
+    ? await resolveContactCompany(prisma, tenantId, {
+        companyId: contactData.companyId,
+        email: contactData.email,
+        company: contactData.company ?? existing.company
+      })
+    : {}
+
+  const phoneData = contactData.phone !== undefined || contactData.mobile !== undefined
+    ? contactPhoneColumns(contactData, await getTenantDefaultCountry(prisma, tenantId))
+    : {}
+
+  // Handle tag updates
+  const contact = await prisma.contact.update({
+    where: { id },
+    data: {
+      ...contactData,
+      ...companyData,
+      ...phoneData,
+      ...(validatedCustomData && { customData: validatedCustomData as Prisma.InputJsonValue }),
+      ...(newTagIds !== undefined && {
+        tags: {
+          deleteMany: {},
+          create: newTagIds.map(tagId => ({ tagId }))
+        }
+      })
+    },
+    include: {
+      tags: { include: { tag: true } },
+      assignedTo: { select: { id: true, firstName: true, lastName: true } }
+    }
+  })
+
+  const changes = [
+    ...diffFields(
+      existing as unknown as Record<string, unknown>,
+      contact as unknown as Record<string, unknown>,
+      [...new Set([...Object.keys(contactData), ...Object.keys(companyData)])]
+    ),
+    ...(validatedCustomData
+      ? diffCustomData(existing.customData as Record<string, unknown> | null, validatedCustomData)
+      : []),
+    ...(newTagIds !== undefined
+      ? diffFields({ tagIds: existing.tags.map(t => t.tagId).sort() }, { tagIds: newTagIds }, ['tagIds'])
+      : [])
+  ]
+
+  if (changes.length > 0) {
+    await recordFieldChanges(prisma, tenantId, userId, { contactId: id }, changes)
+
+    // Log activity
+    await prisma.activity.create({
+      data: {
+        tenantId,
+        contactId: contact.id,
+        userId,
+        type: 'SYSTEM',
+        title: revertedChangeId ? 'Contact field reverted' : 'Contact updated',
+        description: `Contact ${contact.firstName} ${contact.lastName} was updated: ${describeChanges(changes)}`,
+        metadata: {
+          changes,
+          ...(revertedChangeId && { revertedChangeId })
+        } as unknown as Prisma.InputJsonValue
+      }
+    })
+  }
+
+  const { score } = await recalculateLeadScore(prisma, tenantId, contact.id)
+
+  return { ...contact, leadScore: score }
+}
+
 export const contactRouter = router({
   // List contacts with filters and pagination
   list: tenantProcedure
-    .input(z.object({
-      search: z.string().optional(),
-      tagIds: z.array(z.string()).optional(),
-      leadStatus: z.enum(['NEW', 'CONTACTED', 'QUALIFIED', 'UNQUALIFIED', 'CONVERTED']).optional(),
-      assignedToId: z.string().optional(),
-      cursor: z.string().optional(),
+    .input(contactListFilterSchema.merge(listPageSchema).extend({
+      // Defaults to relevance when searching, otherwise newest first
+      sortBy: z.enum(['relevance', ...CONTACT_SORT_KEYS]).optional(),
+      customFieldSort: z.object({
+        key: z.string(),
+        direction: z.enum(['asc', 'desc']).default('asc')
+      }).optional(),
       limit: z.number().min(1).max(100).default(20)
     }))
     .query(async ({ ctx, input }) => {
-      const where: Prisma.ContactWhereInput = {
-        tenantId: ctx.tenantId,
-        ...(input.search && {
-          OR: [
-            { firstName: { contains: input.search, mode: 'insensitive' } },
-            { lastName: { contains: input.search, mode: 'insensitive' } },
-            { email: { contains: input.search, mode: 'insensitive' } },
-            { company: { contains: input.search, mode: 'insensitive' } }
-          ]
-        }),
-        ...(input.leadStatus && { leadStatus: input.leadStatus }),
-        ...(input.assignedToId && { assignedToId: input.assignedToId }),
-        ...(input.tagIds?.length && {
-          tags: { some: { tagId: { in: input.tagIds } } }
+      const sortBy = input.sortBy ?? (input.search ? 'relevance' : 'createdAt')
+
+      // Highlighted match snippets for search results
+      const withSnippets = async <T extends { id: string }>(contacts: T[]) => {
+        const snippets = input.search
+          ? await getSearchSnippets(ctx.prisma, contacts.map(c => c.id), input.search)
+          : new Map<string, string>()
+        return contacts.map(contact => ({ ...contact, searchSnippet: snippets.get(contact.id) ?? null }))
+      }
+
+      // Relevance order comes from the search ranking, so page over the ranked IDs
+      if (input.search && sortBy === 'relevance' && !input.customFieldSort) {
+        const [{ matches, truncated }, { where: filterWhere }] = await Promise.all([
+          searchContactIds(ctx.prisma, ctx.tenantId, input.search),
+          buildContactListWhere(ctx.prisma, ctx.tenantId, { ...input, search: undefined })
+        ])
+        const allowed = new Set((await ctx.prisma.contact.findMany({
+          where: { AND: [filterWhere, { id: { in: matches.map(m => m.id) } }] },
+          select: { id: true }
+        })).map(c => c.id))
+        const ranked = matches.filter(m => allowed.has(m.id))
+
+        const start = rankedPageStart(ranked, input.cursor)
+        const pageIds = ranked.slice(start, start + input.limit).map(r => r.id)
+        const page = await ctx.prisma.contact.findMany({
+          where: { id: { in: pageIds } },
+          include: listInclude
         })
+
+        return {
+          contacts: await withSnippets(pageIds.map(id => page.find(c => c.id === id)!)),
+          nextCursor: ranked[start + input.limit]?.id as string | undefined,
+          total: input.includeTotal ? ranked.length : undefined,
+          truncated
+        }
       }
 
-      const contacts = await ctx.prisma.contact.findMany({
-        where,
-        take: input.limit + 1,
-        cursor: input.cursor ? { id: input.cursor } : undefined,
-        orderBy: { createdAt: 'desc' },
-        include: {
-          tags: { include: { tag: true } },
-          assignedTo: { select: { id: true, firstName: true, lastName: true } },
-          _count: { select: { deals: true, activities: true, notes: true } }
+      const { where, searchTruncated: truncated } = await buildContactListWhere(ctx.prisma, ctx.tenantId, input)
+
+      // JSON values can't be ordered through Prisma, so sort matching IDs in SQL and page over them
+      if (input.customFieldSort) {
+        const { key, direction } = input.customFieldSort
+        const definition = await ctx.prisma.customField.findFirst({
+          where: { tenantId: ctx.tenantId, key }
+        })
+        if (!definition) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Custom field not found' })
         }
-      })
 
-      let nextCursor: string | undefined
-      if (contacts.length > input.limit) {
-        const nextItem = contacts.pop()
-        nextCursor = nextItem!.id
+        const matching = await ctx.prisma.contact.findMany({ where, select: { id: true } })
+        const sortExpression = NUMERIC_CUSTOM_FIELD_TYPES.includes(definition.type)
+          ? Prisma.sql`CASE WHEN custom_data->>${key} ~ ${NUMERIC_TEXT_PATTERN} THEN (custom_data->>${key})::numeric END`
+          : Prisma.sql`lower(custom_data->>${key})`
+        const sorted = await ctx.prisma.$queryRaw<Array<{ id: string }>>`
+          SELECT id FROM contacts
+          WHERE id = ANY(${matching.map(c => c.id)})
+          ORDER BY ${sortExpression} ${Prisma.raw(direction === 'asc' ? 'ASC' : 'DESC')} NULLS LAST, id
+        `
+
+        const start = rankedPageStart(sorted, input.cursor)
+        const pageIds = sorted.slice(start, start + input.limit).map(r => r.id)
+        const page = await ctx.prisma.contact.findMany({
+          where: { id: { in: pageIds } },
+          include: listInclude
+        })
+
+        return {
+          contacts: await withSnippets(pageIds.map(id => page.find(c => c.id === id)!)),
+          nextCursor: sorted[start + input.limit]?.id as string | undefined,
+          total: input.includeTotal ? sorted.length : undefined,
+          truncated
+        }
       }
 
-      return { contacts, nextCursor }
+      const { items: contacts, nextCursor, total } = await paginateList({
+        ...input,
+        // Relevance without a search term falls back to newest first
+        sortBy: sortBy === 'relevance' ? 'createdAt' : sortBy,
+        sorts: CONTACT_SORTS,
+        findMany: page => ctx.prisma.contact.findMany({
+          where: { AND: [where, page.where as Prisma.ContactWhereInput] },
+          take: page.take,
+          orderBy: page.orderBy as Prisma.ContactOrderByWithRelationInput[],
+          include: listInclude
+        }),
+        count: () => ctx.prisma.contact.count({ where })
+      })
+
+      return { contacts: await withSnippets(contacts), nextCursor, total, truncated }
     }),
 
   // Get single contact with full details
@@ -80,10 +313,11 @@ export const contactRouter = router({
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
       const contact = await ctx.prisma.contact.findFirst({
-        where: { id: input.id, tenantId: ctx.tenantId },
+        where: { id: input.id, tenantId: ctx.tenantId, deletedAt: null },
         include: {
           tags: { include: { tag: true } },
           assignedTo: { select: { id: true, firstName: true, lastName: true, email: true } },
+          companyRecord: { select: { id: true, name: true, domain: true, website: true } },
           deals: { include: { pipeline: true, stage: true } },
           activities: { 
             orderBy: { createdAt: 'desc' },
@@ -91,9 +325,9 @@ export const contactRouter = router({
             include: { user: { select: { firstName: true, lastName: true } } }
           },
           notes: {
-            orderBy: { createdAt: 'desc' },
+            orderBy: noteOrderBy,
             take: 20,
-            include: { user: { select: { firstName: true, lastName: true } } }
+            include: noteInclude
           },
           appointments: { where: { status: { not: 'CANCELLED' } }, orderBy: { startTime: 'asc' } },
           emails: { orderBy: { createdAt: 'desc' }, take: 20 },
@@ -108,28 +342,50 @@ export const contactRouter = router({
       return contact
     }),
 
+  // Activities, notes, emails, SMS, appointments and deal stage changes as one
+  // feed, newest first; pass `nextCursor` back to load older entries
+  timeline: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      types: z.array(z.enum(TIMELINE_TYPES)).optional(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(25)
+    }))
+    .query(async ({ ctx, input }) => {
+      return getContactTimeline(ctx.prisma, ctx.tenantId, input.id, input)
+    }),
+
   // Create contact
   create: tenantProcedure
     .input(contactSchema)
     .mutation(async ({ ctx, input }) => {
-      const { tagIds, ...contactData } = input
+      const { tagIds, customData, ...contactData } = input
 
       // Check for duplicate email
       if (contactData.email) {
         const existing = await ctx.prisma.contact.findFirst({
-          where: { tenantId: ctx.tenantId, email: contactData.email }
+          where: { tenantId: ctx.tenantId, email: { equals: contactData.email, mode: 'insensitive' } }
         })
         if (existing) {
           throw new TRPCError({ 
             code: 'CONFLICT', 
-            message: 'A contact with this email already exists' 
+            message: existing.deletedAt
+              ? 'A contact with this email is in the trash. Restore it instead.'
+              : 'A contact with this email already exists' 
           })
         }
       }
 
+      const validatedCustomData = await validateCustomData(ctx.prisma, ctx.tenantId, customData)
+      const companyData = await resolveContactCompany(ctx.prisma, ctx.tenantId, contactData)
+      const defaultCountry = await getTenantDefaultCountry(ctx.prisma, ctx.tenantId)
+
       const contact = await ctx.prisma.contact.create({
         data: {
           ...contactData,
+          ...companyData,
+          ...contactPhoneColumns({ phone: contactData.phone ?? null, mobile: contactData.mobile ?? null }, defaultCountry),
+          customData: validatedCustomData as Prisma.InputJsonValue,
           tenantId: ctx.tenantId,
           tags: tagIds?.length ? {
             create: tagIds.map(tagId => ({ tagId }))
@@ -153,7 +409,18 @@ export const contactRouter = router({
         }
       })
 
-      return contact
+      // Route to an owner via assignment rules unless one was picked
+      const assignment = contact.assignedToId
+        ? null
+        : await assignContact(ctx.prisma, ctx.tenantId, contact.id, ctx.user.id)
+
+      const { score } = await recalculateLeadScore(ctx.prisma, ctx.tenantId, contact.id)
+
+      return {
+        ...contact,
+        ...(assignment && { assignedToId: assignment.userId }),
+        leadScore: score
+      }
     }),
 
   // Update contact
@@ -163,193 +430,616 @@ export const contactRouter = router({
       data: contactSchema.partial()
     }))
     .mutation(async ({ ctx, input }) => {
-      const { tagIds, ...contactData } = input.data
+      return updateContact(ctx.prisma, ctx.tenantId, ctx.user.id, input.id, input.data)
+    }),
 
-      // Verify contact belongs to tenant
-      const existing = await ctx.prisma.contact.findFirst({
-        where: { id: input.id, tenantId: ctx.tenantId }
+  // Delete contact
+  delete: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const contact = await ctx.prisma.contact.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId, deletedAt: null }
       })
-      if (!existing) {
+      if (!contact) {
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
       }
 
-      // Handle tag updates
-      const contact = await ctx.prisma.contact.update({
-        where: { id: input.id },
-        data: {
-          ...contactData,
-          ...(tagIds !== undefined && {
-            tags: {
-              deleteMany: {},
-              create: tagIds.map(tagId => ({ tagId }))
-            }
+      // Soft delete; the trash router handles restore and purge
+      await trashContacts(ctx.prisma, ctx.tenantId, ctx.user.id, [input.id])
+      return { success: true }
+    }),
+
+  // Bulk delete (moves to trash)
+  bulkDelete: tenantProcedure
+    .input(z.object({ ids: z.array(z.string()) }))
+    .mutation(async ({ ctx, input }) => {
+      const deleted = await trashContacts(ctx.prisma, ctx.tenantId, ctx.user.id, input.ids)
+      return { deleted }
+    }),
+
+  // Bulk edit owner, status, source and tags for explicit IDs or everything matching a list filter
+  bulkUpdate: tenantProcedure
+    .input(z.object({
+      target: z.union([
+        z.object({ ids: z.array(z.string()).min(1).max(BULK_UPDATE_LIMIT) }),
+        z.object({ filter: contactListFilterSchema })
+      ]),
+      set: z.object({
+        leadStatus: contactSchema.shape.leadStatus,
+        leadSource: contactSchema.shape.leadSource,
+        assignedToId: contactSchema.shape.assignedToId
+      }).default({}),
+      addTagIds: z.array(z.string()).default([]),
+      removeTagIds: z.array(z.string()).default([])
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const setFields = (Object.keys(input.set) as Array<keyof typeof input.set>)
+        .filter(field => input.set[field] !== undefined)
+      if (setFields.length === 0 && input.addTagIds.length === 0 && input.removeTagIds.length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Nothing to update' })
+      }
+
+      // Owner and tags must belong to this tenant
+      if (input.set.assignedToId) {
+        const owner = await ctx.prisma.user.findFirst({
+          where: { id: input.set.assignedToId, tenantId: ctx.tenantId }
+        })
+        if (!owner) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'Assigned user not found' })
+        }
+      }
+      const tagIds = [...new Set([...input.addTagIds, ...input.removeTagIds])]
+      if (tagIds.length > 0) {
+        const tagCount = await ctx.prisma.tag.count({ where: { id: { in: tagIds }, tenantId: ctx.tenantId } })
+        if (tagCount !== tagIds.length) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'One or more tags not found' })
+        }
+      }
+
+      const where = 'ids' in input.target
+        ? { id: { in: input.target.ids }, tenantId: ctx.tenantId, deletedAt: null }
+        : assertSearchComplete(await buildContactListWhere(ctx.prisma, ctx.tenantId, input.target.filter))
+
+      const contacts = await ctx.prisma.contact.findMany({
+        where,
+        take: BULK_UPDATE_LIMIT + 1,
+        include: { tags: { select: { tagId: true } } }
+      })
+      if (contacts.length > BULK_UPDATE_LIMIT) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Bulk updates are limited to ${BULK_UPDATE_LIMIT} contacts. Narrow the filter and try again.`
+        })
+      }
+
+      // Work out each contact's diff up front so unchanged contacts are left alone
+      const planned = contacts.map(contact => {
+        const oldTagIds = contact.tags.map(t => t.tagId).sort()
+        const newTagIds = [...new Set([...oldTagIds, ...input.addTagIds])]
+          .filter(tagId => !input.removeTagIds.includes(tagId))
+          .sort()
+        const changes = [
+          ...diffFields(contact as unknown as Record<string, unknown>, { ...contact, ...input.set }, setFields),
+          ...diffFields({ tagIds: oldTagIds }, { tagIds: newTagIds }, ['tagIds'])
+        ]
+        return { contact, changes }
+      })
+      const changed = planned.filter(p => p.changes.length > 0)
+      const changedIds = changed.map(p => p.contact.id)
+
+      if (changedIds.length > 0) {
+        await ctx.prisma.$transaction(async (tx) => {
+          // Score is invalidated so the worker rescores against the new values
+          await tx.contact.updateMany({
+            where: { id: { in: changedIds } },
+            data: { ...input.set, leadScoreUpdatedAt: null }
           })
-        },
-        include: {
-          tags: { include: { tag: true } },
-          assignedTo: { select: { id: true, firstName: true, lastName: true } }
+          if (input.removeTagIds.length > 0) {
+            await tx.contactTag.deleteMany({
+              where: { contactId: { in: changedIds }, tagId: { in: input.removeTagIds } }
+            })
+          }
+          if (input.addTagIds.length > 0) {
+            await tx.contactTag.createMany({
+              data: changedIds.flatMap(contactId => input.addTagIds
+                .filter(tagId => !input.removeTagIds.includes(tagId))
+                .map(tagId => ({ contactId, tagId }))),
+              skipDuplicates: true
+            })
+          }
+
+          await tx.activity.createMany({
+            data: changed.map(({ contact, changes }) => ({
+              tenantId: ctx.tenantId,
+              contactId: contact.id,
+              userId: ctx.user.id,
+              type: 'SYSTEM' as const,
+              title: 'Contact updated',
+              description: `Contact ${contact.firstName} ${contact.lastName} was updated in bulk: ${describeChanges(changes)}`,
+              metadata: { changes, bulk: true } as unknown as Prisma.InputJsonValue
+            }))
+          })
+        }, { timeout: 60000 })
+
+        // History is written after the update commits to keep the transaction short
+        await recordManyFieldChanges(ctx.prisma, ctx.tenantId, ctx.user.id, changed.map(({ contact, changes }) => ({
+          target: { contactId: contact.id },
+          changes
+        })))
+      }
+
+      const foundIds = new Set(contacts.map(c => c.id))
+      const results = [
+        ...planned.map(({ contact, changes }) => ({
+          id: contact.id,
+          status: changes.length > 0 ? 'updated' as const : 'unchanged' as const,
+          changes
+        })),
+        ...('ids' in input.target ? input.target.ids : [])
+          .filter(id => !foundIds.has(id))
+          .map(id => ({ id, status: 'not_found' as const, changes: [] }))
+      ]
+
+      return {
+        updated: changedIds.length,
+        unchanged: planned.length - changedIds.length,
+        notFound: results.length - planned.length,
+        results
+      }
+    }),
+
+  // Find likely duplicate pairs by normalized email, phone and name/company similarity
+  findDuplicates: tenantProcedure
+    .input(z.object({
+      contactId: z.string().optional(),
+      minScore: z.number().min(0).max(1).default(0.6),
+      limit: z.number().min(1).max(200).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
+      const pairs = await findDuplicatePairs(ctx.prisma, ctx.tenantId, {
+        contactId: input.contactId,
+        minScore: input.minScore
+      })
+      return pairs.slice(0, input.limit)
+    }),
+
+  // Merge duplicates into a survivor, re-pointing all related records
+  merge: tenantProcedure
+    .input(z.object({
+      survivorId: z.string(),
+      duplicateIds: z.array(z.string()).min(1).max(10),
+      // Per-field choice of which contact's value to keep
+      fieldSources: z.record(z.enum(MERGEABLE_FIELDS), z.string()).default({})
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const duplicateIds = input.duplicateIds.filter(id => id !== input.survivorId)
+      if (duplicateIds.length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Select at least one duplicate to merge' })
+      }
+
+      const contacts = await ctx.prisma.contact.findMany({
+        where: { id: { in: [input.survivorId, ...duplicateIds] }, tenantId: ctx.tenantId, deletedAt: null }
+      })
+      const survivor = contacts.find(c => c.id === input.survivorId)
+      const duplicates = duplicateIds.map(id => contacts.find(c => c.id === id))
+
+      if (!survivor || duplicates.some(d => !d)) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
+      }
+
+      // Resolve each field: explicit pick, else survivor value, else first non-empty duplicate value
+      const byId = new Map(contacts.map(c => [c.id, c]))
+      const resolved: Record<string, unknown> = {}
+      for (const field of MERGEABLE_FIELDS) {
+        const sourceId = input.fieldSources[field]
+        if (sourceId) {
+          const source = byId.get(sourceId)
+          if (!source) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `Field "${field}" must come from one of the merged contacts`
+            })
+          }
+          resolved[field] = source[field]
+        } else if (survivor[field] === null || survivor[field] === '') {
+          const fallback = duplicates.find(d => d![field] !== null && d![field] !== '')
+          if (fallback) resolved[field] = fallback[field]
         }
+      }
+
+      // Survivor's custom data wins over duplicates' keys
+      const customData = Object.assign(
+        {},
+        ...[...duplicates].reverse().map(d => (d!.customData as Record<string, unknown>) || {}),
+        (survivor.customData as Record<string, unknown>) || {}
+      )
+
+      const phoneData = contactPhoneColumns(
+        resolved as { phone?: string | null; mobile?: string | null },
+        await getTenantDefaultCountry(ctx.prisma, ctx.tenantId)
+      )
+
+      const merged = await ctx.prisma.$transaction(async (tx) => {
+        const repoint = { where: { contactId: { in: duplicateIds } }, data: { contactId: survivor.id } }
+        await tx.deal.updateMany(repoint)
+        await tx.note.updateMany(repoint)
+        await tx.activity.updateMany(repoint)
+        await tx.email.updateMany(repoint)
+        await tx.smsMessage.updateMany(repoint)
+        await tx.appointment.updateMany(repoint)
+        await tx.consentEvent.updateMany(repoint)
+        await tx.task.updateMany(repoint)
+        await tx.fieldChange.updateMany(repoint)
+        await tx.notification.updateMany(repoint)
+
+        const duplicateTags = await tx.contactTag.findMany({
+          where: { contactId: { in: duplicateIds } },
+          select: { tagId: true }
+        })
+        await tx.contactTag.createMany({
+          data: duplicateTags.map(({ tagId }) => ({ contactId: survivor.id, tagId })),
+          skipDuplicates: true
+        })
+
+        // Delete duplicates before updating the survivor so unique email constraints hold
+        await tx.contact.deleteMany({ where: { id: { in: duplicateIds } } })
+
+        const contact = await tx.contact.update({
+          where: { id: survivor.id },
+          data: {
+            ...(resolved as Prisma.ContactUpdateInput),
+            ...phoneData,
+            customData: customData as Prisma.InputJsonValue
+          },
+          include: {
+            tags: { include: { tag: true } },
+            assignedTo: { select: { id: true, firstName: true, lastName: true } }
+          }
+        })
+
+        await recordFieldChanges(tx, ctx.tenantId, ctx.user.id, { contactId: survivor.id }, [
+          ...diffFields(
+            survivor as unknown as Record<string, unknown>,
+            contact as unknown as Record<string, unknown>,
+            MERGEABLE_FIELDS
+          ),
+          ...diffCustomData(survivor.customData as Record<string, unknown> | null, customData)
+        ])
+
+        // An opt-out on any merged record carries over to the survivor
+        for (const channel of CONSENT_CHANNELS) {
+          if (duplicates.some(d => consentStatusOf(d!, channel) === 'OPTED_OUT')) {
+            await setConsent(tx, ctx.tenantId, survivor.id, channel, 'OPTED_OUT', {
+              source: 'MERGE',
+              userId: ctx.user.id
+            })
+          }
+        }
+
+        await tx.activity.create({
+          data: {
+            tenantId: ctx.tenantId,
+            contactId: survivor.id,
+            userId: ctx.user.id,
+            type: 'SYSTEM',
+            title: 'Contacts merged',
+            description: `Merged ${duplicates.map(d => `${d!.firstName} ${d!.lastName}`).join(', ')} into this contact`,
+            metadata: {
+              mergedContactIds: duplicateIds,
+              fieldSources: input.fieldSources
+            }
+          }
+        })
+
+        return contact
       })
 
-      // Log activity
-      await ctx.prisma.activity.create({
+      const { score } = await recalculateLeadScore(ctx.prisma, ctx.tenantId, merged.id)
+
+      return { ...merged, leadScore: score }
+    }),
+
+  // Export contacts matching the list filters. Small exports are returned
+  // inline; larger ones are queued for the worker and downloaded by link.
+  export: tenantProcedure
+    .input(contactExportInputSchema)
+    .mutation(async ({ ctx, input }) => {
+      const where = assertSearchComplete(await buildContactListWhere(ctx.prisma, ctx.tenantId, input.filter))
+      const total = await ctx.prisma.contact.count({ where })
+
+      if (total <= INLINE_EXPORT_LIMIT) {
+        const chunks: Buffer[] = []
+        const file = await generateContactExport(ctx.prisma, ctx.tenantId, input, async chunk => {
+          chunks.push(chunk)
+        })
+        return {
+          status: 'ready' as const,
+          filename: file.filename,
+          contentType: file.contentType,
+          rowCount: file.rowCount,
+          data: Buffer.concat(chunks).toString('base64')
+        }
+      }
+
+      const job = await ctx.prisma.contactExport.create({
         data: {
           tenantId: ctx.tenantId,
-          contactId: contact.id,
           userId: ctx.user.id,
-          type: 'SYSTEM',
-          title: 'Contact updated',
-          description: `Contact ${contact.firstName} ${contact.lastName} was updated`
+          format: input.format,
+          params: input as unknown as Prisma.InputJsonValue,
+          downloadToken: randomBytes(32).toString('hex'),
+          status: 'PENDING'
         }
       })
 
-      return contact
+      return { status: 'queued' as const, exportId: job.id, total }
     }),
 
-  // Delete contact
-  delete: tenantProcedure
+  // Poll a queued export; includes the download link once it is ready
+  exportStatus: tenantProcedure
     .input(z.object({ id: z.string() }))
-    .mutation(async ({ ctx, input }) => {
+    .query(async ({ ctx, input }) => {
+      const job = await ctx.prisma.contactExport.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId, userId: ctx.user.id },
+        select: {
+          id: true,
+          format: true,
+          status: true,
+          rowCount: true,
+          filename: true,
+          error: true,
+          downloadToken: true,
+          expiresAt: true,
+          createdAt: true,
+          completedAt: true
+        }
+      })
+      if (!job) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Export not found' })
+      }
+
+      const { downloadToken, ...rest } = job
+      return {
+        ...rest,
+        downloadUrl: job.status === 'COMPLETED'
+          ? `${process.env.APP_URL}/api/exports/${downloadToken}`
+          : null
+      }
+    }),
+
+  // Field-level change history, newest first
+  history: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      field: z.string().optional(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
       const contact = await ctx.prisma.contact.findFirst({
-        where: { id: input.id, tenantId: ctx.tenantId }
+        where: { id: input.id, tenantId: ctx.tenantId },
+        select: { id: true }
       })
       if (!contact) {
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
       }
 
-      await ctx.prisma.contact.delete({ where: { id: input.id } })
-      return { success: true }
+      return getFieldHistory(ctx.prisma, ctx.tenantId, { contactId: input.id }, input)
     }),
 
-  // Bulk delete
-  bulkDelete: tenantProcedure
-    .input(z.object({ ids: z.array(z.string()) }))
+  // Set a field back to the value it had before a recorded change
+  revertField: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      changeId: z.string()
+    }))
     .mutation(async ({ ctx, input }) => {
-      const result = await ctx.prisma.contact.deleteMany({
-        where: { id: { in: input.ids }, tenantId: ctx.tenantId }
-      })
-      return { deleted: result.count }
+      const change = await getFieldChange(ctx.prisma, ctx.tenantId, { contactId: input.id }, input.changeId)
+
+      let data: Record<string, unknown>
+      if (change.field === 'tagIds') {
+        // Tags deleted since the change can't be re-attached
+        const tags = await ctx.prisma.tag.findMany({
+          where: { id: { in: (change.oldValue as string[] | null) || [] }, tenantId: ctx.tenantId },
+          select: { id: true }
+        })
+        data = { tagIds: tags.map(t => t.id) }
+      } else if (change.field.startsWith('customData.')) {
+        data = { customData: { [change.field.slice('customData.'.length)]: change.oldValue } }
+      } else if (change.field in contactSchema.shape) {
+        data = { [change.field]: change.oldValue }
+      } else {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Field "${change.field}" cannot be reverted` })
+      }
+
+      const parsed = contactSchema.partial().safeParse(data)
+      if (!parsed.success) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Cannot revert ${change.field}: ${parsed.error.issues[0].message}`
+        })
+      }
+
+      return updateContact(ctx.prisma, ctx.tenantId, ctx.user.id, input.id, parsed.data, change.id)
     }),
 
-  // Add note to contact
-  addNote: tenantProcedure
+  // Record a consent change for one channel, e.g. a verbal opt-out on a call
+  updateConsent: tenantProcedure
     .input(z.object({
-      contactId: z.string(),
-      content: z.string().min(1)
+      id: z.string(),
+      channel: z.enum(CONSENT_CHANNELS),
+      status: z.enum(CONSENT_STATUSES),
+      source: z.enum(['MANUAL', 'FORM', 'IMPORT']).default('MANUAL'),
+      note: z.string().max(500).optional()
     }))
     .mutation(async ({ ctx, input }) => {
+      const changed = await ctx.prisma.$transaction(tx =>
+        setConsent(tx, ctx.tenantId, input.id, input.channel, input.status, {
+          source: input.source,
+          userId: ctx.user.id,
+          note: input.note
+        })
+      )
+
+      const contact = await ctx.prisma.contact.findUniqueOrThrow({
+        where: { id: input.id },
+        select: {
+          emailConsent: true,
+          emailConsentSource: true,
+          emailConsentAt: true,
+          smsConsent: true,
+          smsConsentSource: true,
+          smsConsentAt: true,
+          callConsent: true,
+          callConsentSource: true,
+          callConsentAt: true
+        }
+      })
+
+      return { changed, ...contact }
+    }),
+
+  // Consent change log, newest first, for compliance requests
+  consentHistory: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      channel: z.enum(CONSENT_CHANNELS).optional(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
       const contact = await ctx.prisma.contact.findFirst({
-        where: { id: input.contactId, tenantId: ctx.tenantId }
+        where: { id: input.id, tenantId: ctx.tenantId },
+        select: { id: true }
       })
       if (!contact) {
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
       }
 
-      const note = await ctx.prisma.note.create({
-        data: {
+      const events = await ctx.prisma.consentEvent.findMany({
+        where: {
           tenantId: ctx.tenantId,
-          contactId: input.contactId,
-          userId: ctx.user.id,
-          content: input.content
+          contactId: input.id,
+          ...(input.channel && { channel: input.channel })
         },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
         include: {
-          user: { select: { firstName: true, lastName: true } }
+          user: { select: { id: true, firstName: true, lastName: true } }
         }
       })
 
-      // Log activity
-      await ctx.prisma.activity.create({
-        data: {
-          tenantId: ctx.tenantId,
-          contactId: input.contactId,
-          userId: ctx.user.id,
-          type: 'NOTE',
-          title: 'Note added',
-          description: input.content.substring(0, 100)
-        }
+      let nextCursor: string | undefined
+      if (events.length > input.limit) {
+        const nextItem = events.pop()
+        nextCursor = nextItem!.id
+      }
+
+      return { events, nextCursor }
+    }),
+
+  // Explain how a contact's lead score was reached
+  scoreExplanation: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const contact = await ctx.prisma.contact.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId, deletedAt: null },
+        select: { id: true, leadScore: true, leadScoreUpdatedAt: true }
       })
+      if (!contact) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
+      }
 
-      return note
+      // Recompute live so the explanation reflects current rules and events
+      const { score, breakdown } = await calculateLeadScore(ctx.prisma, ctx.tenantId, contact.id)
+
+      return {
+        score,
+        storedScore: contact.leadScore,
+        scoredAt: contact.leadScoreUpdatedAt,
+        breakdown
+      }
     }),
 
-  // Bulk import from CSV
-  bulkImport: tenantProcedure
+  // Add note to contact
+  addNote: tenantProcedure
     .input(z.object({
+      contactId: z.string(),
+      content: z.string().min(1)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.prisma.$transaction(tx =>
+        createNote(tx, ctx.tenantId, ctx.user.id, { contactId: input.contactId }, input.content)
+      )
+    }),
+
+  // Bulk import of already-parsed rows. Meant for small API payloads; files
+  // go through import jobs (import.create), which the worker runs in batches.
+  bulkImport: tenantProcedure
+    .input(importOptionsSchema.extend({
       contacts: z.array(z.object({
-        firstName: z.string(),
-        lastName: z.string(),
+        firstName: z.string().optional(),
+        lastName: z.string().optional(),
         email: z.string().email().optional(),
         phone: z.string().optional(),
         company: z.string().optional(),
         jobTitle: z.string().optional(),
         leadSource: z.string().optional(),
+        externalId: z.string().optional(),
         tags: z.array(z.string()).optional()
-      })),
-      skipDuplicates: z.boolean().default(true)
+      })).max(1000)
     }))
     .mutation(async ({ ctx, input }) => {
-      const results = {
-        created: 0,
-        skipped: 0,
-        errors: [] as string[]
-      }
-
-      for (const contactData of input.contacts) {
-        try {
-          // Check for duplicate email
-          if (input.skipDuplicates && contactData.email) {
-            const existing = await ctx.prisma.contact.findFirst({
-              where: { tenantId: ctx.tenantId, email: contactData.email }
-            })
-            if (existing) {
-              results.skipped++
-              continue
-            }
-          }
-
-          const { tags, ...data } = contactData
+      const { contacts, ...options } = input
+      const context = createImportContext(options, {
+        tenantId: ctx.tenantId,
+        userId: ctx.user.id,
+        defaultCountry: await getTenantDefaultCountry(ctx.prisma, ctx.tenantId)
+      })
 
-          await ctx.prisma.contact.create({
-            data: {
-              ...data,
-              tenantId: ctx.tenantId,
-              leadStatus: 'NEW'
-            }
-          })
+      const result = await importContactRows(ctx.prisma, context, contacts.map(({ tags, ...fields }, i) => ({
+        rowNumber: i + 1,
+        data: {},
+        mapped: { fields, tags: tags ?? [], customData: {}, errors: [] }
+      })))
 
-          results.created++
-        } catch (error) {
-          results.errors.push(`Failed to import ${contactData.email}: ${error}`)
-        }
+      if (!options.dryRun) {
+        // Log bulk import activity
+        await ctx.prisma.activity.create({
+          data: {
+            tenantId: ctx.tenantId,
+            userId: ctx.user.id,
+            type: 'SYSTEM',
+            title: 'Bulk contact import',
+            description: `Imported ${result.created} contacts, updated ${result.updated}, skipped ${result.skipped}`
+          }
+        })
       }
 
-      // Log bulk import activity
-      await ctx.prisma.activity.create({
-        data: {
-          tenantId: ctx.tenantId,
-          userId: ctx.user.id,
-          type: 'SYSTEM',
-          title: 'Bulk contact import',
-          description: `Imported ${results.created} contacts, skipped ${results.skipped} duplicates`
-        }
-      })
-
-      return results
+      return {
+        created: result.created,
+        updated: result.updated,
+        skipped: result.skipped,
+        errors: result.errors.map(error => `Row ${error.rowNumber}: ${error.message}`),
+        // Per-row actions, so a dry run shows exactly what would happen
+        outcomes: result.outcomes
+      }
     }),
 
   // Get contact statistics
   stats: tenantProcedure
     .query(async ({ ctx }) => {
       const [total, byStatus, bySource, recentlyAdded] = await Promise.all([
-        ctx.prisma.contact.count({ where: { tenantId: ctx.tenantId } }),
+        ctx.prisma.contact.count({ where: { tenantId: ctx.tenantId, deletedAt: null } }),
         ctx.prisma.contact.groupBy({
           by: ['leadStatus'],
-          where: { tenantId: ctx.tenantId },
+          where: { tenantId: ctx.tenantId, deletedAt: null },
           _count: true
         }),
         ctx.prisma.contact.groupBy({
           by: ['leadSource'],
-          where: { tenantId: ctx.tenantId, leadSource: { not: null } },
+          where: { tenantId: ctx.tenantId, deletedAt: null, leadSource: { not: null } },
           _count: true,
           orderBy: { _count: { leadSource: 'desc' } },
           take: 10
@@ -357,6 +1047,7 @@ export const contactRouter = router({
         ctx.prisma.contact.count({
           where: {
             tenantId: ctx.tenantId,
+            deletedAt: null,
             createdAt: { gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
           }
         })
@@ -0,0 +1,82 @@
+-- packages/database/prisma/migrations/20240301000000_contact_search/migration.sql
+-- Full-text and trigram search over contacts. The search columns are kept
+-- up to date by triggers, so application code never writes them.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE contacts
+  ADD COLUMN search_document tsvector,
+  ADD COLUMN search_text text,
+  ADD COLUMN phone_digits text;
+
+CREATE OR REPLACE FUNCTION contacts_search_refresh() RETURNS trigger AS $$
+DECLARE
+  notes_text text;
+  custom_text text;
+BEGIN
+  SELECT string_agg(n.content, ' ')
+    INTO notes_text
+    FROM notes n
+   WHERE n.contact_id = NEW.id;
+
+  -- Only free-text style custom fields are searchable
+  SELECT string_agg(e.value, ' ')
+    INTO custom_text
+    FROM jsonb_each_text(COALESCE(NEW.custom_data, '{}'::jsonb)) e
+    JOIN custom_fields f
+      ON f.tenant_id = NEW.tenant_id
+     AND f.key = e.key
+     AND f.type IN ('TEXT', 'URL', 'SELECT', 'MULTI_SELECT');
+
+  NEW.phone_digits := NULLIF(
+    concat_ws(' ',
+      regexp_replace(COALESCE(NEW.phone, ''), '\D', '', 'g'),
+      regexp_replace(COALESCE(NEW.mobile, ''), '\D', '', 'g')
+    ),
+    ' '
+  );
+
+  NEW.search_document :=
+    setweight(to_tsvector('simple', concat_ws(' ', NEW.first_name, NEW.last_name)), 'A') ||
+    setweight(to_tsvector('simple', concat_ws(' ', NEW.email, regexp_replace(COALESCE(NEW.email, ''), '[^[:alnum:]]+', ' ', 'g'), NEW.company)), 'B') ||
+    setweight(to_tsvector('simple', concat_ws(' ', NEW.job_title, NEW.phone_digits)), 'C') ||
+    setweight(to_tsvector('simple', concat_ws(' ', notes_text, custom_text)), 'D');
+
+  -- pg_trgm is case-insensitive, so keep the original casing for snippets
+  NEW.search_text := concat_ws(' ',
+    NEW.first_name, NEW.last_name, NEW.email, NEW.company, NEW.job_title, custom_text, notes_text
+  );
+
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER contacts_search_refresh
+  BEFORE INSERT OR UPDATE OF first_name, last_name, email, phone, mobile, company, job_title, custom_data, search_document
+  ON contacts
+  FOR EACH ROW EXECUTE FUNCTION contacts_search_refresh();
+
+-- Note changes re-trigger the contact's refresh by touching search_document
+CREATE OR REPLACE FUNCTION notes_touch_contact_search() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.contact_id IS NOT NULL THEN
+    UPDATE contacts SET search_document = NULL WHERE id = OLD.contact_id;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.contact_id IS NOT NULL THEN
+    UPDATE contacts SET search_document = NULL WHERE id = NEW.contact_id;
+  END IF;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER notes_touch_contact_search
+  AFTER INSERT OR UPDATE OF content, contact_id OR DELETE
+  ON notes
+  FOR EACH ROW EXECUTE FUNCTION notes_touch_contact_search();
+
+-- Backfill existing rows
+UPDATE contacts SET search_document = NULL;
+
+CREATE INDEX contacts_search_document_idx ON contacts USING GIN (search_document);
+CREATE INDEX contacts_search_text_trgm_idx ON contacts USING GIN (search_text gin_trgm_ops);
+CREATE INDEX contacts_phone_digits_trgm_idx ON contacts USING GIN (phone_digits gin_trgm_ops);
@@ -0,0 +1,119 @@
+// packages/trpc/src/lib/contact-search.ts
+import { Prisma, PrismaClient } from '@elevate/database'
+
+// Most matches a search can narrow a list to
+export const SEARCH_MATCH_LIMIT = 5000
+
+// Lower than pg_trgm's 0.6 default so "Jon" still matches "John"
+const WORD_SIMILARITY_THRESHOLD = 0.4
+
+// Phone matching only kicks in once the query has this many digits
+const MIN_PHONE_DIGITS = 4
+
+const HIGHLIGHT_START = '[[[mark]]]'
+const HIGHLIGHT_STOP = '[[[/mark]]]'
+
+export interface ContactSearchMatch {
+  id: string
+  rank: number
+}
+
+export interface ContactSearchResult {
+  matches: ContactSearchMatch[]
+  // More contacts matched than the limit; only the best-ranked are included
+  truncated: boolean
+}
+
+function searchTerms(query: string): string[] {
+  // Only letters and digits survive, so terms are always safe inside to_tsquery
+  return query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+// Prefix query so partially typed words match ("smi" finds "Smith")
+function prefixTsQuery(terms: string[], operator: '&' | '|'): string {
+  return terms.map(term => `${term}:*`).join(` ${operator} `)
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Ranked IDs of the tenant's live contacts matching the query. Full-text
+// matches on names rank highest; trigram similarity adds typo tolerance and
+// phone numbers match on their digits alone.
+export async function searchContactIds(
+  prisma: PrismaClient,
+  tenantId: string,
+  query: string,
+  limit = SEARCH_MATCH_LIMIT
+): Promise<ContactSearchResult> {
+  const terms = searchTerms(query)
+  if (terms.length === 0) return { matches: [], truncated: false }
+
+  const text = terms.join(' ')
+  const tsQuery = prefixTsQuery(terms, '&')
+  const digits = query.replace(/\D/g, '')
+  const phoneDigits = digits.length >= MIN_PHONE_DIGITS ? digits : ''
+
+  const [, rows] = await prisma.$transaction([
+    prisma.$executeRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(WORD_SIMILARITY_THRESHOLD)}, true)`,
+    prisma.$queryRaw<Array<{ id: string; rank: number }>>`
+      SELECT id,
+        (ts_rank_cd(search_document, to_tsquery('simple', ${tsQuery})) * 2
+          + word_similarity(${text}, search_text)
+          + CASE WHEN ${phoneDigits} <> '' AND phone_digits LIKE '%' || ${phoneDigits} || '%' THEN 1 ELSE 0 END
+        )::float AS rank
+      FROM contacts
+      WHERE tenant_id = ${tenantId}
+        AND deleted_at IS NULL
+        AND (
+          search_document @@ to_tsquery('simple', ${tsQuery})
+          OR ${text} <% search_text
+          OR (${phoneDigits} <> '' AND phone_digits LIKE '%' || ${phoneDigits} || '%')
+        )
+      ORDER BY rank DESC, id
+      LIMIT ${limit + 1}
+    `
+  ])
+
+  return { matches: rows.slice(0, limit), truncated: rows.length > limit }
+}
+
+// HTML snippets with matched words wrapped in <mark>; everything else is escaped
+export async function getSearchSnippets(
+  prisma: PrismaClient,
+  contactIds: string[],
+  query: string
+): Promise<Map<string, string>> {
+  const terms = searchTerms(query)
+  if (terms.length === 0 || contactIds.length === 0) return new Map()
+
+  const options = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MinWords=5, MaxWords=20, MaxFragments=2`
+  const rows = await prisma.$queryRaw<Array<{ id: string; snippet: string | null }>>`
+    SELECT id, ts_headline('simple', COALESCE(search_text, ''), to_tsquery('simple', ${prefixTsQuery(terms, '|')}), ${options}) AS snippet
+    FROM contacts
+    WHERE id = ANY(${contactIds})
+  `
+
+  return new Map(rows.map(row => [
+    row.id,
+    escapeHtml(row.snippet || '')
+      .split(escapeHtml(HIGHLIGHT_START)).join('<mark>')
+      .split(escapeHtml(HIGHLIGHT_STOP)).join('</mark>')
+  ]))
+}
+
+// Where clause restricting contacts to search matches, flagged as truncated
+// when the search matched more contacts than it could include
+export async function searchContactWhere(
+  prisma: PrismaClient,
+  tenantId: string,
+  query: string
+): Promise<{ where: Prisma.ContactWhereInput; truncated: boolean }> {
+  const { matches, truncated } = await searchContactIds(prisma, tenantId, query)
+  return { where: { id: { in: matches.map(m => m.id) } }, truncated }
+}
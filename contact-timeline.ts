@@ -0,0 +1,186 @@
+// packages/trpc/src/lib/contact-timeline.ts
+import { PrismaClient } from '@elevate/database'
+import { TRPCError } from '@trpc/server'
+import { STAGE_MOVE_ACTIVITY_TITLE } from './deal-stages'
+
+// Also the tie-break order for entries with the same timestamp (later wins)
+export const TIMELINE_TYPES = ['ACTIVITY', 'NOTE', 'EMAIL', 'SMS', 'APPOINTMENT', 'STAGE_CHANGE'] as const
+export type TimelineType = typeof TIMELINE_TYPES[number]
+
+// Email, SMS and note activities duplicate their own timeline entries
+const DUPLICATED_ACTIVITY_TYPES = ['EMAIL', 'SMS', 'NOTE'] as const
+
+// Stage moves come from the deal stage transitions, not their activities
+const DUPLICATED_ACTIVITY_TITLES = [STAGE_MOVE_ACTIVITY_TITLE]
+
+interface TimelineCursor {
+  at: string
+  type: TimelineType
+  id: string
+}
+
+function encodeCursor(cursor: TimelineCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(value: string): TimelineCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString())
+    if (
+      typeof cursor.id === 'string' &&
+      TIMELINE_TYPES.includes(cursor.type) &&
+      !Number.isNaN(new Date(cursor.at).getTime())
+    ) {
+      return cursor
+    }
+  } catch {
+    // fall through
+  }
+  throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid timeline cursor' })
+}
+
+// Rows of `type` that sort after the cursor in (timestamp, type, id) descending order
+function afterCursor(field: string, type: TimelineType, cursor: TimelineCursor | null) {
+  if (!cursor) return {}
+
+  const at = new Date(cursor.at)
+  const rank = TIMELINE_TYPES.indexOf(type)
+  const cursorRank = TIMELINE_TYPES.indexOf(cursor.type)
+  const sameInstant =
+    rank < cursorRank ? [{ [field]: at }]
+      : rank === cursorRank ? [{ [field]: at, id: { lt: cursor.id } }]
+        : []
+
+  return { OR: [{ [field]: { lt: at } }, ...sameInstant] }
+}
+
+const userSelect = { select: { id: true, firstName: true, lastName: true } }
+
+// One page of a contact's merged history, newest first. Each source is read
+// with the same keyset bound and at most `limit + 1` rows, so a page costs
+// one indexed query per type regardless of how long the history is.
+export async function getContactTimeline(
+  prisma: PrismaClient,
+  tenantId: string,
+  contactId: string,
+  options: { types?: TimelineType[]; cursor?: string; limit: number }
+) {
+  const contact = await prisma.contact.findFirst({
+    where: { id: contactId, tenantId, deletedAt: null },
+    select: { id: true }
+  })
+  if (!contact) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
+  }
+
+  const types = new Set(options.types?.length ? options.types : TIMELINE_TYPES)
+  const cursor = options.cursor ? decodeCursor(options.cursor) : null
+  const take = options.limit + 1
+  const newestFirst = [{ createdAt: 'desc' as const }, { id: 'desc' as const }]
+
+  const [activities, notes, emails, smsMessages, appointments, stageChanges] = await Promise.all([
+    types.has('ACTIVITY')
+      ? prisma.activity.findMany({
+          where: {
+            tenantId,
+            contactId,
+            type: { notIn: [...DUPLICATED_ACTIVITY_TYPES] },
+            NOT: { type: 'SYSTEM', dealId: { not: null }, title: { in: DUPLICATED_ACTIVITY_TITLES } },
+            ...afterCursor('createdAt', 'ACTIVITY', cursor)
+          },
+          orderBy: newestFirst,
+          take,
+          include: { user: userSelect }
+        })
+      : [],
+    types.has('NOTE')
+      ? prisma.note.findMany({
+          where: { contactId, ...afterCursor('createdAt', 'NOTE', cursor) },
+          orderBy: newestFirst,
+          take,
+          include: { user: userSelect }
+        })
+      : [],
+    types.has('EMAIL')
+      ? prisma.email.findMany({
+          where: { tenantId, contactId, ...afterCursor('createdAt', 'EMAIL', cursor) },
+          orderBy: newestFirst,
+          take
+        })
+      : [],
+    types.has('SMS')
+      ? prisma.smsMessage.findMany({
+          where: { tenantId, contactId, ...afterCursor('createdAt', 'SMS', cursor) },
+          orderBy: newestFirst,
+          take
+        })
+      : [],
+    types.has('APPOINTMENT')
+      ? prisma.appointment.findMany({
+          where: { contactId, ...afterCursor('startTime', 'APPOINTMENT', cursor) },
+          orderBy: [{ startTime: 'desc' }, { id: 'desc' }],
+          take,
+          include: { calendar: { select: { name: true, color: true } } }
+        })
+      : [],
+    types.has('STAGE_CHANGE')
+      ? prisma.dealStageTransition.findMany({
+          where: {
+            tenantId,
+            deal: { contactId },
+            // A deal's first transition is its creation, already an activity
+            fromStatus: { not: null },
+            ...afterCursor('createdAt', 'STAGE_CHANGE', cursor)
+          },
+          orderBy: newestFirst,
+          take,
+          include: {
+            user: userSelect,
+            deal: { select: { id: true, title: true } },
+            fromStage: { select: { name: true } },
+            toStage: { select: { name: true } }
+          }
+        })
+      : []
+  ])
+
+  const entries = [
+    ...activities.map(activity => ({ type: 'ACTIVITY' as const, id: activity.id, occurredAt: activity.createdAt, activity })),
+    ...notes.map(note => ({ type: 'NOTE' as const, id: note.id, occurredAt: note.createdAt, note })),
+    ...emails.map(email => ({ type: 'EMAIL' as const, id: email.id, occurredAt: email.createdAt, email })),
+    ...smsMessages.map(sms => ({ type: 'SMS' as const, id: sms.id, occurredAt: sms.createdAt, sms })),
+    ...appointments.map(appointment => ({
+      type: 'APPOINTMENT' as const,
+      id: appointment.id,
+      occurredAt: appointment.startTime,
+      appointment
+    })),
+    ...stageChanges.map(change => ({
+      type: 'STAGE_CHANGE' as const,
+      id: change.id,
+      occurredAt: change.createdAt,
+      stageChange: {
+        deal: change.deal,
+        user: change.user,
+        fromStage: change.fromStage?.name ?? null,
+        toStage: change.toStage?.name ?? null,
+        fromStatus: change.fromStatus,
+        toStatus: change.toStatus
+      }
+    }))
+  ]
+
+  entries.sort((a, b) =>
+    b.occurredAt.getTime() - a.occurredAt.getTime() ||
+    TIMELINE_TYPES.indexOf(b.type) - TIMELINE_TYPES.indexOf(a.type) ||
+    (b.id < a.id ? -1 : b.id > a.id ? 1 : 0)
+  )
+
+  const page = entries.slice(0, options.limit)
+  const last = page[page.length - 1]
+  const nextCursor = entries.length > options.limit
+    ? encodeCursor({ at: last.occurredAt.toISOString(), type: last.type, id: last.id })
+    : undefined
+
+  return { entries: page, nextCursor }
+}
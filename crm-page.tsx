@@ -8,8 +8,9 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { trpc } from '@/lib/trpc'
-import { Plus, Search, Mail, Phone, Building } from 'lucide-react'
+import { Plus, Search, Mail, Phone, Building, Download } from 'lucide-react'
 import Link from 'next/link'
 
 const statusColors = {
@@ -23,10 +24,46 @@ const statusColors = {
 export default function CRMPage() {
   const [createOpen, setCreateOpen] = useState(false)
   const [search, setSearch] = useState('')
+  const [segmentId, setSegmentId] = useState<string>('all')
 
-  const { data, isLoading, refetch } = trpc.contact.list.useQuery({
+  const [exportId, setExportId] = useState<string | null>(null)
+
+  const { data: segments } = trpc.segment.list.useQuery()
+
+  const listFilter = {
     search: search || undefined,
-    limit: 50
+    segmentId: segmentId === 'all' ? undefined : segmentId
+  }
+
+  const exportMutation = trpc.contact.export.useMutation({
+    onSuccess: (result) => {
+      if (result.status === 'queued') {
+        setExportId(result.exportId)
+        return
+      }
+      // Small exports come back inline; hand them to the browser as a file
+      const bytes = Uint8Array.from(atob(result.data), (c) => c.charCodeAt(0))
+      const url = URL.createObjectURL(new Blob([bytes], { type: result.contentType }))
+      const link = document.createElement('a')
+      link.href = url
+      link.download = result.filename
+      link.click()
+      URL.revokeObjectURL(url)
+    }
+  })
+
+  const { data: exportJob } = trpc.contact.exportStatus.useQuery(
+    { id: exportId! },
+    {
+      enabled: !!exportId,
+      refetchInterval: (job) => (job?.status === 'COMPLETED' || job?.status === 'FAILED' ? false : 3000)
+    }
+  )
+
+  const { data, isLoading, refetch } = trpc.contact.list.useQuery({
+    ...listFilter,
+    limit: 50,
+    includeTotal: true
   })
 
   const contacts = data?.contacts || []
@@ -48,7 +85,7 @@ export default function CRMPage() {
           </Button>
         </div>
 
-        {/* Search */}
+        {/* Search and segment */}
         <div className="flex items-center space-x-2">
           <div className="relative flex-1 max-w-sm">
             <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
@@ -59,8 +96,52 @@ export default function CRMPage() {
               onChange={(e) => setSearch(e.target.value)}
             />
           </div>
+          <Select value={segmentId} onValueChange={setSegmentId}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="All contacts" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All contacts</SelectItem>
+              {segments?.map((segment) => (
+                <SelectItem key={segment.id} value={segment.id}>
+                  {segment.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value=""
+            onValueChange={(format) =>
+              exportMutation.mutate({ format: format as 'CSV' | 'XLSX' | 'VCARD', filter: listFilter })
+            }
+            disabled={exportMutation.isLoading}
+          >
+            <SelectTrigger className="w-40">
+              <Download className="mr-2 h-4 w-4" />
+              <SelectValue placeholder="Export" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="CSV">CSV</SelectItem>
+              <SelectItem value="XLSX">Excel (XLSX)</SelectItem>
+              <SelectItem value="VCARD">vCard</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
 
+        {exportJob && (
+          <div className="text-sm text-muted-foreground">
+            {exportJob.status === 'COMPLETED' && exportJob.downloadUrl ? (
+              <a href={exportJob.downloadUrl} className="font-medium text-primary hover:underline">
+                Download {exportJob.filename} ({exportJob.rowCount} contacts)
+              </a>
+            ) : exportJob.status === 'FAILED' ? (
+              <span className="text-destructive">Export failed: {exportJob.error}</span>
+            ) : (
+              <span>Preparing export… you can keep working, the link will appear here.</span>
+            )}
+          </div>
+        )}
+
         {/* Contacts Table */}
         <div className="rounded-md border">
           <Table>
@@ -106,6 +187,13 @@ export default function CRMPage() {
                       >
                         {contact.firstName} {contact.lastName}
                       </Link>
+                      {contact.searchSnippet && (
+                        <p
+                          className="text-xs text-muted-foreground [&_mark]:bg-yellow-100 [&_mark]:text-foreground"
+                          // Snippet is escaped server-side; only <mark> tags are emitted
+                          dangerouslySetInnerHTML={{ __html: contact.searchSnippet }}
+                        />
+                      )}
                     </TableCell>
                     <TableCell>
                       {contact.company ? (
@@ -176,7 +264,11 @@ export default function CRMPage() {
         {/* Pagination info */}
         {contacts.length > 0 && (
           <div className="flex items-center justify-between text-sm text-muted-foreground">
-            <span>Showing {contacts.length} contacts</span>
+            <span>
+              Showing {contacts.length}
+              {data?.total !== undefined && ` of ${data.total.toLocaleString()}`} contacts
+              {data?.truncated && ' (best matches only, refine the search to see the rest)'}
+            </span>
             {data?.nextCursor && (
               <Button variant="outline" size="sm">
                 Load more
@@ -0,0 +1,154 @@
+// packages/trpc/src/lib/currency.ts
+import Papa from 'papaparse'
+import { z } from 'zod'
+import { Prisma, PrismaClient } from '@elevate/database'
+
+// Deals keep the currency they were entered in. Totals are reported in the
+// tenant's base currency, each deal converted at the rate in effect on its
+// close date (today for open deals).
+
+const DEFAULT_BASE_CURRENCY = 'USD'
+
+type Amount = Prisma.Decimal | number
+
+export const currencyCodeSchema = z.string().trim().length(3).toUpperCase()
+
+export const exchangeRateSchema = z.object({
+  currency: currencyCodeSchema,
+  // Units of the base currency per unit of `currency`
+  rate: z.number().positive(),
+  effectiveDate: z.date()
+})
+
+export type ExchangeRateInput = z.infer<typeof exchangeRateSchema>
+
+// Deal values are summed in the database by these columns, so every group
+// converts at a single rate: `deal.groupBy({ by: [...dealAmountGroupBy],
+// _sum: { value: true }, _count: { _all: true } })`
+export const dealAmountGroupBy = ['currency', 'actualCloseDate'] as const
+
+// A row of such a groupBy
+export interface DealAmountGroup {
+  currency: string
+  actualCloseDate: Date | null
+  _sum: { value: Prisma.Decimal | null }
+  _count: { _all: number }
+}
+
+export async function getTenantBaseCurrency(prisma: PrismaClient, tenantId: string): Promise<string> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { baseCurrency: true }
+  })
+  return tenant?.baseCurrency || DEFAULT_BASE_CURRENCY
+}
+
+export interface CurrencyConverter {
+  baseCurrency: string
+  // The amount in the base currency, or null when the currency has no rates
+  convert(amount: Amount, currency: string, at: Date): number | null
+  // Convert a deal's value at its close date
+  convertDeal(deal: { value: Amount; currency: string; actualCloseDate: Date | null }): number | null
+  // Sum deal values in the base currency, leaving out unconvertible ones
+  sumDeals(deals: { value: Amount; currency: string; actualCloseDate: Date | null }[]): number
+  // Sum grouped deal values in the base currency, leaving out unconvertible ones
+  sumGroups(groups: DealAmountGroup[]): number
+  // How many deals in the groups have a currency without rates
+  excludedDeals(groups: DealAmountGroup[]): number
+  // Currencies met so far without any rate
+  missingRates(): string[]
+}
+
+// Loads the tenant's rates against its current base currency; rates entered
+// against an earlier base are ignored. A date before a currency's first rate
+// uses that first rate.
+export async function getCurrencyConverter(prisma: PrismaClient, tenantId: string): Promise<CurrencyConverter> {
+  const baseCurrency = await getTenantBaseCurrency(prisma, tenantId)
+  const rates = await prisma.exchangeRate.findMany({
+    where: { tenantId, baseCurrency },
+    orderBy: { effectiveDate: 'asc' },
+    select: { currency: true, rate: true, effectiveDate: true }
+  })
+
+  const history = new Map<string, { rate: Prisma.Decimal; from: number }[]>()
+  for (const { currency, rate, effectiveDate } of rates) {
+    history.set(currency, [...(history.get(currency) ?? []), { rate, from: effectiveDate.getTime() }])
+  }
+  const missing = new Set<string>()
+
+  const convertDecimal = (amount: Amount, currency: string, at: Date): Prisma.Decimal | null => {
+    const code = currency.toUpperCase()
+    if (code === baseCurrency) return new Prisma.Decimal(amount)
+
+    const entries = history.get(code)
+    if (!entries) {
+      missing.add(code)
+      return null
+    }
+    let rate = entries[0].rate
+    for (const entry of entries) {
+      if (entry.from > at.getTime()) break
+      rate = entry.rate
+    }
+    return new Prisma.Decimal(amount).mul(rate)
+  }
+
+  const dealDecimal = (deal: { value: Amount; currency: string; actualCloseDate: Date | null }) =>
+    convertDecimal(deal.value, deal.currency, deal.actualCloseDate ?? new Date())
+
+  return {
+    baseCurrency,
+    convert: (amount, currency, at) => convertDecimal(amount, currency, at)?.toDecimalPlaces(2).toNumber() ?? null,
+    convertDeal: deal => dealDecimal(deal)?.toDecimalPlaces(2).toNumber() ?? null,
+    sumDeals: deals => deals
+      .reduce((sum, deal) => sum.add(dealDecimal(deal) ?? 0), new Prisma.Decimal(0))
+      .toDecimalPlaces(2)
+      .toNumber(),
+    sumGroups: groups => groups
+      .reduce(
+        (sum, group) => sum.add(convertDecimal(group._sum.value ?? 0, group.currency, group.actualCloseDate ?? new Date()) ?? 0),
+        new Prisma.Decimal(0)
+      )
+      .toDecimalPlaces(2)
+      .toNumber(),
+    excludedDeals: groups => groups
+      .filter(group => group.currency.toUpperCase() !== baseCurrency && !history.has(group.currency.toUpperCase()))
+      .reduce((count, group) => count + group._count._all, 0),
+    missingRates: () => Array.from(missing).sort()
+  }
+}
+
+export interface ParsedRateFile {
+  rates: ExchangeRateInput[]
+  errors: { rowNumber: number; message: string }[]
+}
+
+// Rates from a CSV with Currency, Rate and Effective Date (YYYY-MM-DD) columns
+export function parseExchangeRateFile(content: Buffer): ParsedRateFile {
+  const result = Papa.parse<Record<string, string>>(content.toString('utf8').replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim().toLowerCase().replace(/[^a-z]/g, '')
+  })
+
+  const parsed: ParsedRateFile = { rates: [], errors: [] }
+  result.data.forEach((row, i) => {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(row.effectivedate?.trim() ?? '')
+      ? new Date(`${row.effectivedate.trim()}T00:00:00Z`)
+      : null
+    const rate = exchangeRateSchema.safeParse({
+      currency: row.currency ?? '',
+      rate: Number(row.rate),
+      effectiveDate: date
+    })
+    if (rate.success) {
+      parsed.rates.push(rate.data)
+    } else {
+      parsed.errors.push({
+        rowNumber: i + 1,
+        message: date ? rate.error.issues[0].message : 'Effective date must be YYYY-MM-DD'
+      })
+    }
+  })
+  return parsed
+}
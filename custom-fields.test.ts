@@ -0,0 +1,19 @@
+// packages/worker/src/tests/custom-fields.test.ts
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { NUMERIC_TEXT_PATTERN } from '@elevate/trpc/lib/custom-fields'
+
+// Postgres and JavaScript read this pattern the same way
+const numeric = new RegExp(NUMERIC_TEXT_PATTERN)
+
+test('numeric custom field values cast for sorting', () => {
+  for (const value of ['0', '42', '-7', '3.25', '-0.5']) {
+    assert.ok(numeric.test(value), value)
+  }
+})
+
+test('values with a separator that is not a decimal point are not cast', () => {
+  for (const value of ['1-2', '3a5', '1,5', '1.2.3', '1.', '.5', '']) {
+    assert.ok(!numeric.test(value), value)
+  }
+})
@@ -0,0 +1,114 @@
+// packages/trpc/src/lib/custom-fields.ts
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { PrismaClient } from '@elevate/database'
+
+export const CUSTOM_FIELD_TYPES = [
+  'TEXT', 'NUMBER', 'DATE', 'SELECT', 'MULTI_SELECT', 'BOOLEAN', 'URL', 'CURRENCY'
+] as const
+
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number]
+
+interface CustomFieldDefinition {
+  key: string
+  name: string
+  type: CustomFieldType
+  options: string[]
+  required: boolean
+}
+
+// Field types whose stored JSON value is a number (used for sorting and comparisons)
+export const NUMERIC_CUSTOM_FIELD_TYPES: CustomFieldType[] = ['NUMBER', 'CURRENCY']
+
+// Stored text that casts to numeric; other values of numeric fields sort as
+// null. A POSIX pattern for Postgres, passed as a query parameter.
+export const NUMERIC_TEXT_PATTERN = '^-?[0-9]+([.][0-9]+)?$'
+
+function coerceValue(definition: CustomFieldDefinition, value: unknown): unknown {
+  switch (definition.type) {
+    case 'TEXT':
+      if (typeof value !== 'string') throw new Error('must be text')
+      return value
+    case 'NUMBER':
+    case 'CURRENCY': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      if (typeof number !== 'number' || !isFinite(number)) throw new Error('must be a number')
+      return definition.type === 'CURRENCY' ? Math.round(number * 100) / 100 : number
+    }
+    case 'DATE': {
+      const date = typeof value === 'string' || value instanceof Date ? new Date(value) : null
+      if (!date || isNaN(date.getTime())) throw new Error('must be a valid date')
+      return date.toISOString()
+    }
+    case 'SELECT':
+      if (typeof value !== 'string' || !definition.options.includes(value)) {
+        throw new Error(`must be one of: ${definition.options.join(', ')}`)
+      }
+      return value
+    case 'MULTI_SELECT': {
+      const values = Array.isArray(value) ? value : [value]
+      const invalid = values.filter(v => typeof v !== 'string' || !definition.options.includes(v))
+      if (invalid.length > 0) throw new Error(`must only contain: ${definition.options.join(', ')}`)
+      return Array.from(new Set(values))
+    }
+    case 'BOOLEAN':
+      if (value === 'true') return true
+      if (value === 'false') return false
+      if (typeof value !== 'boolean') throw new Error('must be true or false')
+      return value
+    case 'URL':
+      if (typeof value !== 'string' || !z.string().url().safeParse(value).success) {
+        throw new Error('must be a valid URL')
+      }
+      return value
+  }
+}
+
+// Validate and coerce customData against the tenant's field definitions.
+// Keys set to null are removed; `existing` is merged in for partial updates.
+export async function validateCustomData(
+  prisma: PrismaClient,
+  tenantId: string,
+  data: Record<string, unknown> | undefined,
+  existing?: Record<string, unknown> | null
+): Promise<Record<string, unknown>> {
+  const definitions = await prisma.customField.findMany({
+    where: { tenantId },
+    select: { key: true, name: true, type: true, options: true, required: true }
+  })
+  const byKey = new Map(definitions.map(d => [d.key, d as CustomFieldDefinition]))
+
+  const result: Record<string, unknown> = { ...(existing || {}) }
+  const errors: string[] = []
+
+  for (const [key, value] of Object.entries(data || {})) {
+    const definition = byKey.get(key)
+    if (!definition) {
+      errors.push(`Unknown custom field "${key}"`)
+      continue
+    }
+
+    if (value === null || value === undefined || value === '') {
+      delete result[key]
+      continue
+    }
+
+    try {
+      result[key] = coerceValue(definition, value)
+    } catch (error) {
+      errors.push(`${definition.name} ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  for (const definition of byKey.values()) {
+    if (definition.required && result[definition.key] === undefined) {
+      errors.push(`${definition.name} is required`)
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: errors.join('; ') })
+  }
+
+  return result
+}
@@ -4,6 +4,7 @@
 import { DashboardShell } from '@/components/dashboard/shell'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { trpc } from '@/lib/trpc'
+import { formatCurrency } from '@/lib/utils'
 import { Users, DollarSign, Mail, TrendingUp, Phone, Calendar } from 'lucide-react'
 
 export default function DashboardPage() {
@@ -49,13 +50,13 @@ export default function DashboardPage() {
     {
       title: 'Open Deals',
       value: overview?.deals.open || 0,
-      change: `$${(overview?.deals.totalValue || 0).toLocaleString()} value`,
+      change: `${formatCurrency(overview?.deals.totalValue || 0, overview?.deals.baseCurrency)} value`,
       icon: TrendingUp,
       iconColor: 'text-green-500'
     },
     {
       title: 'Revenue (MTD)',
-      value: `$${(overview?.deals.wonValue || 0).toLocaleString()}`,
+      value: formatCurrency(overview?.deals.wonValue || 0, overview?.deals.baseCurrency),
       change: `${overview?.deals.won || 0} deals won`,
       icon: DollarSign,
       iconColor: 'text-emerald-500'
@@ -96,6 +97,12 @@ export default function DashboardPage() {
           ))}
         </div>
 
+        {!!overview?.deals.excludedDeals && (
+          <p className="text-xs text-amber-700">
+            Deal values leave out {overview.deals.excludedDeals} {overview.deals.missingRates.join(', ')} deal{overview.deals.excludedDeals === 1 ? '' : 's'} without an exchange rate
+          </p>
+        )}
+
         {/* Recent Activity & Quick Stats */}
         <div className="grid gap-4 md:grid-cols-2">
           {/* Lead Sources */}
@@ -156,13 +163,18 @@ export default function DashboardPage() {
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Total Pipeline Value</p>
-                  <p className="text-2xl font-bold">${dealStats.totalValue.toLocaleString()}</p>
+                  <p className="text-2xl font-bold">{formatCurrency(dealStats.totalValue, dealStats.baseCurrency)}</p>
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Revenue Won</p>
-                  <p className="text-2xl font-bold">${dealStats.wonValue.toLocaleString()}</p>
+                  <p className="text-2xl font-bold">{formatCurrency(dealStats.wonValue, dealStats.baseCurrency)}</p>
                 </div>
               </div>
+              {dealStats.excludedDeals > 0 && (
+                <p className="mt-4 text-xs text-amber-700">
+                  Leaves out {dealStats.excludedDeals} {dealStats.missingRates.join(', ')} deal{dealStats.excludedDeals === 1 ? '' : 's'} without an exchange rate
+                </p>
+              )}
             </CardContent>
           </Card>
         )}
@@ -0,0 +1,29 @@
+-- packages/database/prisma/migrations/20240501000000_deal_line_item_net_totals/migration.sql
+-- Line items keep their net amount and tax apart, and deal values count the
+-- net amount only. Existing items are split from their stored prices, and
+-- deals with line items get their value recomputed without tax.
+
+ALTER TABLE deal_line_items
+  ADD COLUMN net_total decimal(12, 2),
+  ADD COLUMN tax_amount decimal(12, 2);
+
+UPDATE deal_line_items
+   SET net_total = round(unit_price * quantity * (100 - discount_rate) / 100, 2);
+
+UPDATE deal_line_items
+   SET tax_amount = round(net_total * tax_rate / 100, 2),
+       total = net_total + round(net_total * tax_rate / 100, 2);
+
+ALTER TABLE deal_line_items
+  ALTER COLUMN net_total SET NOT NULL,
+  ALTER COLUMN tax_amount SET NOT NULL;
+
+UPDATE deals d
+   SET value = items.net_total
+  FROM (
+    SELECT deal_id, sum(net_total) AS net_total
+      FROM deal_line_items
+     GROUP BY deal_id
+  ) items
+ WHERE items.deal_id = d.id
+   AND d.value <> items.net_total;
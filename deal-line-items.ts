@@ -0,0 +1,108 @@
+// packages/trpc/src/lib/deal-line-items.ts
+import { z } from 'zod'
+import { Prisma } from '@elevate/database'
+import { TRPCError } from '@trpc/server'
+import { diffFields, recordFieldChanges } from './field-history'
+
+// A line item from the catalog (name, SKU, price and billing copied from the
+// product unless given) or a custom one with its own name and price
+export const lineItemSchema = z.object({
+  productId: z.string().optional().nullable(),
+  name: z.string().min(1).max(200).optional(),
+  sku: z.string().max(100).optional().nullable(),
+  unitPrice: z.number().min(0).optional(),
+  quantity: z.number().positive().default(1),
+  // Percentages
+  discountRate: z.number().min(0).max(100).default(0),
+  taxRate: z.number().min(0).max(100).default(0)
+})
+
+// The product of an existing item can't change; remove and re-add it instead
+export const lineItemUpdateSchema = lineItemSchema.omit({ productId: true }).partial()
+
+export type LineItemInput = z.infer<typeof lineItemSchema>
+
+type Amount = Prisma.Decimal | number
+
+// The net amount (quantity × unit price, less discount), the tax on it and
+// the two together. Deal values count the net amount; tax isn't revenue.
+export function lineItemAmounts(item: { unitPrice: Amount; quantity: Amount; discountRate: Amount; taxRate: Amount }) {
+  const netTotal = new Prisma.Decimal(item.unitPrice)
+    .mul(item.quantity)
+    .mul(new Prisma.Decimal(100).sub(item.discountRate).div(100))
+    .toDecimalPlaces(2)
+  const taxAmount = netTotal.mul(item.taxRate).div(100).toDecimalPlaces(2)
+  return { netTotal, taxAmount, total: netTotal.add(taxAmount) }
+}
+
+// Fill a line item from its product and price it. Products must be active and
+// priced in the deal's currency.
+export async function resolveLineItem(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  currency: string,
+  input: LineItemInput
+) {
+  const product = input.productId
+    ? await db.product.findFirst({ where: { id: input.productId, tenantId } })
+    : null
+
+  if (input.productId && !product) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Product not found' })
+  }
+  if (product && !product.active) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Product "${product.name}" is archived` })
+  }
+  if (product && product.currency !== currency) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Product "${product.name}" is priced in ${product.currency}, the deal in ${currency}`
+    })
+  }
+
+  const name = input.name ?? product?.name
+  const unitPrice = input.unitPrice ?? product?.unitPrice
+  if (!name || unitPrice === undefined) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Custom line items need a name and unit price' })
+  }
+
+  const priced = {
+    unitPrice: new Prisma.Decimal(unitPrice),
+    quantity: new Prisma.Decimal(input.quantity),
+    discountRate: new Prisma.Decimal(input.discountRate),
+    taxRate: new Prisma.Decimal(input.taxRate)
+  }
+
+  return {
+    productId: product?.id ?? null,
+    name,
+    sku: input.sku !== undefined ? input.sku : product?.sku ?? null,
+    billing: product?.billing ?? 'ONE_TIME',
+    ...priced,
+    ...lineItemAmounts(priced)
+  } satisfies Omit<Prisma.DealLineItemUncheckedCreateInput, 'tenantId' | 'dealId'>
+}
+
+// Set a deal's value to the net sum of its line items, recording the change.
+// Recurring items count one billing period.
+export async function syncDealValue(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string,
+  dealId: string
+): Promise<number> {
+  const [deal, sum] = await Promise.all([
+    db.deal.findUniqueOrThrow({ where: { id: dealId }, select: { value: true } }),
+    db.dealLineItem.aggregate({ where: { dealId }, _sum: { netTotal: true } })
+  ])
+  const value = sum._sum.netTotal ?? new Prisma.Decimal(0)
+
+  if (!value.equals(deal.value)) {
+    await db.deal.update({ where: { id: dealId }, data: { value } })
+    await recordFieldChanges(db, tenantId, userId, { dealId }, diffFields(
+      { value: deal.value }, { value }, ['value']
+    ))
+  }
+
+  return value.toNumber()
+}
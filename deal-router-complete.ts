@@ -2,50 +2,200 @@
 import { z } from 'zod'
 import { router, tenantProcedure } from '../trpc'
 import { TRPCError } from '@trpc/server'
-import { Prisma } from '@elevate/database'
+import { Prisma, PrismaClient } from '@elevate/database'
+import { recalculateLeadScore } from '../lib/lead-scoring'
+import {
+  describeChanges,
+  diffFields,
+  getFieldChange,
+  getFieldHistory,
+  recordFieldChanges
+} from '../lib/field-history'
+import { noteInclude, noteOrderBy } from '../lib/notes'
+import {
+  getStageEnteredAt,
+  recordStageTransition,
+  STAGE_MOVE_ACTIVITY_TITLE,
+  summarizeStageTimes
+} from '../lib/deal-stages'
+import {
+  lineItemSchema,
+  lineItemAmounts,
+  lineItemUpdateSchema,
+  resolveLineItem,
+  syncDealValue
+} from '../lib/deal-line-items'
+import { dealAmountGroupBy, getCurrencyConverter } from '../lib/currency'
+import { listPageSchema, paginateList, SortOption } from '../lib/list-query'
+
+const dealUpdateSchema = z.object({
+  title: z.string().min(1).optional(),
+  value: z.number().min(0).optional(),
+  probability: z.number().min(0).max(100).optional(),
+  expectedCloseDate: z.date().optional().nullable(),
+  status: z.enum(['OPEN', 'WON', 'LOST']).optional(),
+  companyId: z.string().optional().nullable()
+})
+
+// Apply a partial update and record a per-field diff.
+// Shared by `update` and `revertField` so both leave the same history.
+async function updateDeal(
+  prisma: PrismaClient,
+  tenantId: string,
+  userId: string,
+  id: string,
+  data: z.infer<typeof dealUpdateSchema> & { stageId?: string },
+  revertedChangeId?: string
+) {
+  const existing = await prisma.deal.findFirst({
+    where: { id, tenantId, deletedAt: null }
+  })
+  if (!existing) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Deal not found' })
+  }
+
+  if (data.value !== undefined) {
+    const lineItems = await prisma.dealLineItem.count({ where: { dealId: id } })
+    if (lineItems > 0) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Deal value is computed from its line items' })
+    }
+  }
+
+  if (data.companyId) {
+    const company = await prisma.company.findFirst({
+      where: { id: data.companyId, tenantId }
+    })
+    if (!company) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Company not found' })
+    }
+  }
+
+  if (data.stageId) {
+    const stage = await prisma.pipelineStage.findFirst({
+      where: { id: data.stageId, pipelineId: existing.pipelineId }
+    })
+    if (!stage) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid stage for this pipeline' })
+    }
+  }
+
+  const deal = await prisma.deal.update({
+    where: { id },
+    data: {
+      ...data,
+      ...(data.status === 'WON' && { actualCloseDate: new Date() }),
+      ...(data.status === 'LOST' && { actualCloseDate: new Date() })
+    },
+    include: {
+      contact: { select: { id: true, firstName: true, lastName: true } },
+      stage: true
+    }
+  })
+
+  const changes = diffFields(
+    existing as unknown as Record<string, unknown>,
+    deal as unknown as Record<string, unknown>,
+    [...Object.keys(data), ...(data.status === 'WON' || data.status === 'LOST' ? ['actualCloseDate'] : [])]
+  )
+
+  await recordStageTransition(prisma, tenantId, userId, {
+    dealId: id,
+    fromStageId: existing.stageId,
+    toStageId: deal.stageId,
+    fromStatus: existing.status,
+    toStatus: deal.status
+  })
+
+  if (changes.length > 0) {
+    await recordFieldChanges(prisma, tenantId, userId, { dealId: id }, changes)
+
+    // Log activity
+    await prisma.activity.create({
+      data: {
+        tenantId,
+        dealId: deal.id,
+        contactId: deal.contactId,
+        userId,
+        type: 'SYSTEM',
+        title: revertedChangeId ? 'Deal field reverted' : 'Deal updated',
+        description: `Deal "${deal.title}" was updated: ${describeChanges(changes)}`,
+        metadata: {
+          changes,
+          ...(revertedChangeId && { revertedChangeId })
+        } as unknown as Prisma.InputJsonValue
+      }
+    })
+  }
+
+  return deal
+}
+
+// A line item of a live deal in the tenant
+async function findLineItem(prisma: PrismaClient, tenantId: string, id: string) {
+  const item = await prisma.dealLineItem.findFirst({
+    where: { id, tenantId, deal: { deletedAt: null } }
+  })
+  if (!item) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Line item not found' })
+  }
+  return item
+}
+
+const DEAL_SORT_KEYS = ['createdAt', 'updatedAt', 'title', 'value', 'expectedCloseDate'] as const
+
+const DEAL_SORTS: Record<typeof DEAL_SORT_KEYS[number], SortOption> = {
+  createdAt: { columns: [{ field: 'createdAt' }], defaultDirection: 'desc' },
+  updatedAt: { columns: [{ field: 'updatedAt' }], defaultDirection: 'desc' },
+  title: { columns: [{ field: 'title' }], defaultDirection: 'asc' },
+  value: { columns: [{ field: 'value' }], defaultDirection: 'desc' },
+  expectedCloseDate: { columns: [{ field: 'expectedCloseDate', nullable: true }], defaultDirection: 'asc' }
+}
 
 export const dealRouter = router({
   // List deals with filters
   list: tenantProcedure
-    .input(z.object({
+    .input(listPageSchema.extend({
       pipelineId: z.string().optional(),
       stageId: z.string().optional(),
       contactId: z.string().optional(),
+      companyId: z.string().optional(),
       status: z.enum(['OPEN', 'WON', 'LOST']).optional(),
-      cursor: z.string().optional(),
-      limit: z.number().min(1).max(100).default(50)
+      sortBy: z.enum(DEAL_SORT_KEYS).default('createdAt')
     }))
     .query(async ({ ctx, input }) => {
       const where: Prisma.DealWhereInput = {
         tenantId: ctx.tenantId,
+        deletedAt: null,
         ...(input.pipelineId && { pipelineId: input.pipelineId }),
         ...(input.stageId && { stageId: input.stageId }),
         ...(input.contactId && { contactId: input.contactId }),
+        ...(input.companyId && { companyId: input.companyId }),
         ...(input.status && { status: input.status })
       }
 
-      const deals = await ctx.prisma.deal.findMany({
-        where,
-        take: input.limit + 1,
-        cursor: input.cursor ? { id: input.cursor } : undefined,
-        orderBy: { createdAt: 'desc' },
-        include: {
-          contact: { select: { id: true, firstName: true, lastName: true, email: true, company: true } },
-          pipeline: { select: { id: true, name: true } },
-          stage: { select: { id: true, name: true, color: true, order: true } }
-        }
+      const { items: deals, nextCursor, total } = await paginateList({
+        ...input,
+        sorts: DEAL_SORTS,
+        findMany: page => ctx.prisma.deal.findMany({
+          where: { AND: [where, page.where as Prisma.DealWhereInput] },
+          take: page.take,
+          orderBy: page.orderBy as Prisma.DealOrderByWithRelationInput[],
+          include: {
+            contact: { select: { id: true, firstName: true, lastName: true, email: true, company: true } },
+            company: { select: { id: true, name: true } },
+            pipeline: { select: { id: true, name: true } },
+            stage: { select: { id: true, name: true, color: true, order: true } }
+          }
+        }),
+        count: () => ctx.prisma.deal.count({ where })
       })
 
-      let nextCursor: string | undefined
-      if (deals.length > input.limit) {
-        const nextItem = deals.pop()
-        nextCursor = nextItem!.id
-      }
-
-      return { deals, nextCursor }
+      return { deals, nextCursor, total }
     }),
 
-  // Get deals grouped by stage (for kanban view)
+  // Get deals grouped by stage (for kanban view). Each deal carries when it
+  // entered its stage, `timeInStage` in milliseconds and its value in the
+  // base currency; totals are in the base currency.
   byStage: tenantProcedure
     .input(z.object({ pipelineId: z.string() }))
     .query(async ({ ctx, input }) => {
@@ -61,7 +211,7 @@ export const dealRouter = router({
 
       // Get all deals for this pipeline
       const deals = await ctx.prisma.deal.findMany({
-        where: { pipelineId: input.pipelineId, status: 'OPEN' },
+        where: { pipelineId: input.pipelineId, status: 'OPEN', deletedAt: null },
         include: {
           contact: { select: { id: true, firstName: true, lastName: true, email: true, company: true } },
           stage: true
@@ -69,20 +219,43 @@ export const dealRouter = router({
         orderBy: { createdAt: 'desc' }
       })
 
+      const [enteredAt, converter, amounts] = await Promise.all([
+        getStageEnteredAt(ctx.prisma, deals),
+        getCurrencyConverter(ctx.prisma, ctx.tenantId),
+        ctx.prisma.deal.groupBy({
+          by: ['stageId', ...dealAmountGroupBy],
+          where: { pipelineId: input.pipelineId, status: 'OPEN', deletedAt: null },
+          _sum: { value: true },
+          _count: { _all: true }
+        })
+      ])
+      const now = Date.now()
+      const withTimeInStage = deals.map(deal => {
+        const stageEnteredAt = enteredAt.get(deal.id)!
+        return {
+          ...deal,
+          baseValue: converter.convertDeal(deal),
+          stageEnteredAt,
+          timeInStage: now - stageEnteredAt.getTime()
+        }
+      })
+
       // Group by stage
       const dealsByStage = pipeline.stages.map(stage => ({
         stage,
-        deals: deals.filter(d => d.stageId === stage.id),
-        totalValue: deals
-          .filter(d => d.stageId === stage.id)
-          .reduce((sum, d) => sum + Number(d.value), 0)
+        deals: withTimeInStage.filter(d => d.stageId === stage.id),
+        totalValue: converter.sumGroups(amounts.filter(group => group.stageId === stage.id))
       }))
 
       return {
         pipeline,
         stages: dealsByStage,
-        totalValue: deals.reduce((sum, d) => sum + Number(d.value), 0),
-        totalDeals: deals.length
+        totalValue: converter.sumGroups(amounts),
+        totalDeals: deals.length,
+        baseCurrency: converter.baseCurrency,
+        // Deals and currencies without exchange rates, left out of the totals
+        excludedDeals: converter.excludedDeals(amounts),
+        missingRates: converter.missingRates()
       }
     }),
 
@@ -91,14 +264,24 @@ export const dealRouter = router({
     .input(z.object({ id: z.string() }))
     .query(async ({ ctx, input }) => {
       const deal = await ctx.prisma.deal.findFirst({
-        where: { id: input.id, tenantId: ctx.tenantId },
+        where: { id: input.id, tenantId: ctx.tenantId, deletedAt: null },
         include: {
           contact: true,
+          company: true,
           pipeline: true,
           stage: true,
           activities: {
             orderBy: { createdAt: 'desc' },
             include: { user: { select: { firstName: true, lastName: true } } }
+          },
+          notes: {
+            orderBy: noteOrderBy,
+            take: 20,
+            include: noteInclude
+          },
+          lineItems: {
+            orderBy: { position: 'asc' },
+            include: { product: { select: { id: true, name: true, active: true } } }
           }
         }
       })
@@ -120,12 +303,16 @@ export const dealRouter = router({
       value: z.number().min(0).default(0),
       currency: z.string().default('USD'),
       probability: z.number().min(0).max(100).optional(),
-      expectedCloseDate: z.date().optional()
+      expectedCloseDate: z.date().optional(),
+      // Defaults to the contact's company
+      companyId: z.string().optional(),
+      // When given, the deal's value is their total
+      lineItems: z.array(lineItemSchema).max(100).optional()
     }))
     .mutation(async ({ ctx, input }) => {
       // Verify contact, pipeline, and stage belong to tenant
       const [contact, pipeline, stage] = await Promise.all([
-        ctx.prisma.contact.findFirst({ where: { id: input.contactId, tenantId: ctx.tenantId } }),
+        ctx.prisma.contact.findFirst({ where: { id: input.contactId, tenantId: ctx.tenantId, deletedAt: null } }),
         ctx.prisma.pipeline.findFirst({ where: { id: input.pipelineId, tenantId: ctx.tenantId } }),
         ctx.prisma.pipelineStage.findFirst({ where: { id: input.stageId, pipelineId: input.pipelineId } })
       ])
@@ -134,6 +321,17 @@ export const dealRouter = router({
       if (!pipeline) throw new TRPCError({ code: 'NOT_FOUND', message: 'Pipeline not found' })
       if (!stage) throw new TRPCError({ code: 'NOT_FOUND', message: 'Stage not found' })
 
+      if (input.companyId) {
+        const company = await ctx.prisma.company.findFirst({ where: { id: input.companyId, tenantId: ctx.tenantId } })
+        if (!company) throw new TRPCError({ code: 'NOT_FOUND', message: 'Company not found' })
+      }
+
+      const lineItems = await Promise.all((input.lineItems ?? []).map(async (item, position) => ({
+        ...await resolveLineItem(ctx.prisma, ctx.tenantId, input.currency, item),
+        tenantId: ctx.tenantId,
+        position
+      })))
+
       const deal = await ctx.prisma.deal.create({
         data: {
           tenantId: ctx.tenantId,
@@ -141,11 +339,15 @@ export const dealRouter = router({
           pipelineId: input.pipelineId,
           stageId: input.stageId,
           title: input.title,
-          value: input.value,
+          value: lineItems.length > 0
+            ? lineItems.reduce((sum, item) => sum.add(item.netTotal), new Prisma.Decimal(0))
+            : input.value,
           currency: input.currency,
           probability: input.probability,
           expectedCloseDate: input.expectedCloseDate,
-          status: 'OPEN'
+          companyId: input.companyId ?? contact.companyId,
+          status: 'OPEN',
+          lineItems: { create: lineItems }
         },
         include: {
           contact: { select: { id: true, firstName: true, lastName: true, email: true } },
@@ -154,6 +356,14 @@ export const dealRouter = router({
         }
       })
 
+      await recordStageTransition(ctx.prisma, ctx.tenantId, ctx.user.id, {
+        dealId: deal.id,
+        fromStageId: null,
+        toStageId: deal.stageId,
+        fromStatus: null,
+        toStatus: deal.status
+      })
+
       // Log activity
       await ctx.prisma.activity.create({
         data: {
@@ -167,56 +377,17 @@ export const dealRouter = router({
         }
       })
 
+      await recalculateLeadScore(ctx.prisma, ctx.tenantId, input.contactId)
+
       return deal
     }),
 
   // Update deal
   update: tenantProcedure
-    .input(z.object({
-      id: z.string(),
-      title: z.string().min(1).optional(),
-      value: z.number().min(0).optional(),
-      probability: z.number().min(0).max(100).optional(),
-      expectedCloseDate: z.date().optional().nullable(),
-      status: z.enum(['OPEN', 'WON', 'LOST']).optional()
-    }))
+    .input(dealUpdateSchema.extend({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
       const { id, ...data } = input
-
-      const existing = await ctx.prisma.deal.findFirst({
-        where: { id, tenantId: ctx.tenantId }
-      })
-      if (!existing) {
-        throw new TRPCError({ code: 'NOT_FOUND', message: 'Deal not found' })
-      }
-
-      const deal = await ctx.prisma.deal.update({
-        where: { id },
-        data: {
-          ...data,
-          ...(data.status === 'WON' && { actualCloseDate: new Date() }),
-          ...(data.status === 'LOST' && { actualCloseDate: new Date() })
-        },
-        include: {
-          contact: { select: { id: true, firstName: true, lastName: true } },
-          stage: true
-        }
-      })
-
-      // Log activity
-      await ctx.prisma.activity.create({
-        data: {
-          tenantId: ctx.tenantId,
-          dealId: deal.id,
-          contactId: deal.contactId,
-          userId: ctx.user.id,
-          type: 'SYSTEM',
-          title: 'Deal updated',
-          description: `Deal "${deal.title}" was updated`
-        }
-      })
-
-      return deal
+      return updateDeal(ctx.prisma, ctx.tenantId, ctx.user.id, id, data)
     }),
 
   // Move deal to different stage
@@ -227,7 +398,7 @@ export const dealRouter = router({
     }))
     .mutation(async ({ ctx, input }) => {
       const deal = await ctx.prisma.deal.findFirst({
-        where: { id: input.id, tenantId: ctx.tenantId },
+        where: { id: input.id, tenantId: ctx.tenantId, deletedAt: null },
         include: { stage: true, pipeline: true }
       })
       if (!deal) {
@@ -251,6 +422,17 @@ export const dealRouter = router({
         }
       })
 
+      await recordFieldChanges(ctx.prisma, ctx.tenantId, ctx.user.id, { dealId: deal.id }, diffFields(
+        { stageId: deal.stageId }, { stageId: updated.stageId }, ['stageId']
+      ))
+      await recordStageTransition(ctx.prisma, ctx.tenantId, ctx.user.id, {
+        dealId: deal.id,
+        fromStageId: deal.stageId,
+        toStageId: updated.stageId,
+        fromStatus: deal.status,
+        toStatus: updated.status
+      })
+
       // Log activity
       await ctx.prisma.activity.create({
         data: {
@@ -259,7 +441,7 @@ export const dealRouter = router({
           contactId: deal.contactId,
           userId: ctx.user.id,
           type: 'SYSTEM',
-          title: 'Deal moved',
+          title: STAGE_MOVE_ACTIVITY_TITLE,
           description: `Deal moved from "${deal.stage.name}" to "${newStage.name}"`
         }
       })
@@ -267,21 +449,196 @@ export const dealRouter = router({
       return updated
     }),
 
+  // Add a line item; the deal's value becomes the total of its items
+  addLineItem: tenantProcedure
+    .input(lineItemSchema.extend({ dealId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { dealId, ...item } = input
+      const deal = await ctx.prisma.deal.findFirst({
+        where: { id: dealId, tenantId: ctx.tenantId, deletedAt: null },
+        select: { id: true, currency: true }
+      })
+      if (!deal) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Deal not found' })
+      }
+
+      const data = await resolveLineItem(ctx.prisma, ctx.tenantId, deal.currency, item)
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const last = await tx.dealLineItem.findFirst({
+          where: { dealId: deal.id },
+          orderBy: { position: 'desc' },
+          select: { position: true }
+        })
+        const lineItem = await tx.dealLineItem.create({
+          data: { ...data, tenantId: ctx.tenantId, dealId: deal.id, position: (last?.position ?? -1) + 1 }
+        })
+        const value = await syncDealValue(tx, ctx.tenantId, ctx.user.id, deal.id)
+        return { lineItem, value }
+      })
+    }),
+
+  // Change a line item's quantity, price, discount or tax
+  updateLineItem: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      data: lineItemUpdateSchema
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await findLineItem(ctx.prisma, ctx.tenantId, input.id)
+      const { sku, name, ...amounts } = input.data
+      const priced = {
+        unitPrice: amounts.unitPrice ?? existing.unitPrice,
+        quantity: amounts.quantity ?? existing.quantity,
+        discountRate: amounts.discountRate ?? existing.discountRate,
+        taxRate: amounts.taxRate ?? existing.taxRate
+      }
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const lineItem = await tx.dealLineItem.update({
+          where: { id: existing.id },
+          data: {
+            ...(name !== undefined && { name }),
+            ...(sku !== undefined && { sku }),
+            ...priced,
+            ...lineItemAmounts(priced)
+          }
+        })
+        const value = await syncDealValue(tx, ctx.tenantId, ctx.user.id, existing.dealId)
+        return { lineItem, value }
+      })
+    }),
+
+  // Remove a line item and recompute the deal's value
+  removeLineItem: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await findLineItem(ctx.prisma, ctx.tenantId, input.id)
+
+      return ctx.prisma.$transaction(async (tx) => {
+        await tx.dealLineItem.delete({ where: { id: existing.id } })
+        const value = await syncDealValue(tx, ctx.tenantId, ctx.user.id, existing.dealId)
+        return { success: true, value }
+      })
+    }),
+
   // Delete deal
   delete: tenantProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ ctx, input }) => {
       const deal = await ctx.prisma.deal.findFirst({
-        where: { id: input.id, tenantId: ctx.tenantId }
+        where: { id: input.id, tenantId: ctx.tenantId, deletedAt: null }
       })
       if (!deal) {
         throw new TRPCError({ code: 'NOT_FOUND', message: 'Deal not found' })
       }
 
-      await ctx.prisma.deal.delete({ where: { id: input.id } })
+      // Soft delete; the trash router handles restore and purge
+      await ctx.prisma.deal.update({
+        where: { id: input.id },
+        data: { deletedAt: new Date(), deletedById: ctx.user.id }
+      })
+
+      await ctx.prisma.activity.create({
+        data: {
+          tenantId: ctx.tenantId,
+          dealId: deal.id,
+          contactId: deal.contactId,
+          userId: ctx.user.id,
+          type: 'SYSTEM',
+          title: 'Deal moved to trash',
+          description: `Deal "${deal.title}" was moved to trash`
+        }
+      })
+
+      await recalculateLeadScore(ctx.prisma, ctx.tenantId, deal.contactId)
       return { success: true }
     }),
 
+  // Field-level change history, newest first
+  history: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      field: z.string().optional(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
+      const deal = await ctx.prisma.deal.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId },
+        select: { id: true }
+      })
+      if (!deal) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Deal not found' })
+      }
+
+      return getFieldHistory(ctx.prisma, ctx.tenantId, { dealId: input.id }, input)
+    }),
+
+  // Stage moves and status changes, oldest first, with the time the deal
+  // spent open in each stage
+  stageHistory: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const deal = await ctx.prisma.deal.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId },
+        select: { id: true }
+      })
+      if (!deal) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Deal not found' })
+      }
+
+      const transitions = await ctx.prisma.dealStageTransition.findMany({
+        where: { dealId: input.id, tenantId: ctx.tenantId },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        include: {
+          fromStage: { select: { id: true, name: true, color: true } },
+          toStage: { select: { id: true, name: true, color: true } },
+          user: { select: { id: true, firstName: true, lastName: true } }
+        }
+      })
+
+      return {
+        transitions,
+        stageTimes: summarizeStageTimes(transitions)
+      }
+    }),
+
+  // Set a field back to the value it had before a recorded change
+  revertField: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      changeId: z.string()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const change = await getFieldChange(ctx.prisma, ctx.tenantId, { dealId: input.id }, input.changeId)
+
+      if (change.field === 'stageId') {
+        return updateDeal(ctx.prisma, ctx.tenantId, ctx.user.id, input.id, {
+          stageId: change.oldValue as string
+        }, change.id)
+      }
+
+      if (!(change.field in dealUpdateSchema.shape)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: `Field "${change.field}" cannot be reverted` })
+      }
+
+      // Dates are stored as ISO strings in the history
+      const oldValue = change.field === 'expectedCloseDate' && typeof change.oldValue === 'string'
+        ? new Date(change.oldValue)
+        : change.oldValue
+
+      const parsed = dealUpdateSchema.safeParse({ [change.field]: oldValue })
+      if (!parsed.success) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `Cannot revert ${change.field}: ${parsed.error.issues[0].message}`
+        })
+      }
+
+      return updateDeal(ctx.prisma, ctx.tenantId, ctx.user.id, input.id, parsed.data, change.id)
+    }),
+
   // Get deal statistics
   stats: tenantProcedure
     .input(z.object({ 
@@ -292,24 +649,25 @@ export const dealRouter = router({
     .query(async ({ ctx, input }) => {
       const where: Prisma.DealWhereInput = {
         tenantId: ctx.tenantId,
+        deletedAt: null,
         ...(input.pipelineId && { pipelineId: input.pipelineId }),
         ...(input.startDate && { createdAt: { gte: input.startDate } }),
         ...(input.endDate && { createdAt: { lte: input.endDate } })
       }
 
-      const [totalDeals, wonDeals, lostDeals, openDeals, totalValue, wonValue] = await Promise.all([
+      const [totalDeals, wonDeals, lostDeals, openDeals, amounts, converter] = await Promise.all([
         ctx.prisma.deal.count({ where }),
         ctx.prisma.deal.count({ where: { ...where, status: 'WON' } }),
         ctx.prisma.deal.count({ where: { ...where, status: 'LOST' } }),
         ctx.prisma.deal.count({ where: { ...where, status: 'OPEN' } }),
-        ctx.prisma.deal.aggregate({
+        // Summed per currency and close date, then converted to the base currency
+        ctx.prisma.deal.groupBy({
+          by: ['status', ...dealAmountGroupBy],
           where,
-          _sum: { value: true }
+          _sum: { value: true },
+          _count: { _all: true }
         }),
-        ctx.prisma.deal.aggregate({
-          where: { ...where, status: 'WON' },
-          _sum: { value: true }
-        })
+        getCurrencyConverter(ctx.prisma, ctx.tenantId)
       ])
 
       const winRate = totalDeals > 0 ? ((wonDeals / (wonDeals + lostDeals)) * 100) : 0
@@ -319,9 +677,13 @@ export const dealRouter = router({
         wonDeals,
         lostDeals,
         openDeals,
-        totalValue: Number(totalValue._sum.value || 0),
-        wonValue: Number(wonValue._sum.value || 0),
-        winRate: Math.round(winRate * 10) / 10
+        totalValue: converter.sumGroups(amounts),
+        wonValue: converter.sumGroups(amounts.filter(group => group.status === 'WON')),
+        winRate: Math.round(winRate * 10) / 10,
+        baseCurrency: converter.baseCurrency,
+        // Deals in currencies without exchange rates, left out of the values
+        excludedDeals: converter.excludedDeals(amounts),
+        missingRates: converter.missingRates()
       }
     })
 })
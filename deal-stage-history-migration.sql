@@ -0,0 +1,59 @@
+-- packages/database/prisma/migrations/20240401000000_deal_stage_history_backfill/migration.sql
+-- Rebuild stage transitions for deals that predate the log, from their
+-- creation time and recorded stageId/status field changes. Which stage a deal
+-- was in when its status changed isn't recorded, so its current stage is used.
+-- Its status at any time is the latest status change up to then, or before
+-- the first change, the status that change started from (the current status
+-- for deals that never changed). Stages deleted since are left null.
+
+-- Creation, in the stage the first recorded move started from
+INSERT INTO deal_stage_transitions (id, tenant_id, deal_id, from_stage_id, to_stage_id, from_status, to_status, user_id, created_at)
+SELECT gen_random_uuid()::text, d.tenant_id, d.id, NULL, s.id, NULL,
+       COALESCE(first_status.status, d.status::text), NULL, d.created_at
+  FROM deals d
+  LEFT JOIN LATERAL (
+    SELECT fc.old_value #>> '{}' AS stage_id
+      FROM field_changes fc
+     WHERE fc.deal_id = d.id AND fc.field = 'stageId'
+     ORDER BY fc.created_at
+     LIMIT 1
+  ) first_move ON true
+  LEFT JOIN LATERAL (
+    SELECT fc.old_value #>> '{}' AS status
+      FROM field_changes fc
+     WHERE fc.deal_id = d.id AND fc.field = 'status'
+     ORDER BY fc.created_at
+     LIMIT 1
+  ) first_status ON true
+  LEFT JOIN pipeline_stages s ON s.id = COALESCE(first_move.stage_id, d.stage_id);
+
+-- Stage moves and status changes
+INSERT INTO deal_stage_transitions (id, tenant_id, deal_id, from_stage_id, to_stage_id, from_status, to_status, user_id, created_at)
+SELECT gen_random_uuid()::text, fc.tenant_id, fc.deal_id,
+       CASE WHEN fc.field = 'stageId' THEN from_stage.id ELSE current_stage.id END,
+       CASE WHEN fc.field = 'stageId' THEN to_stage.id ELSE current_stage.id END,
+       CASE WHEN fc.field = 'status' THEN fc.old_value #>> '{}' ELSE status_then.status END,
+       CASE WHEN fc.field = 'status' THEN fc.new_value #>> '{}' ELSE status_then.status END,
+       fc.user_id, fc.created_at
+  FROM field_changes fc
+  JOIN deals d ON d.id = fc.deal_id
+  -- The deal's status when it moved
+  LEFT JOIN LATERAL (
+    SELECT COALESCE(
+      (SELECT sc.new_value #>> '{}'
+         FROM field_changes sc
+        WHERE sc.deal_id = fc.deal_id AND sc.field = 'status' AND sc.created_at <= fc.created_at
+        ORDER BY sc.created_at DESC
+        LIMIT 1),
+      (SELECT sc.old_value #>> '{}'
+         FROM field_changes sc
+        WHERE sc.deal_id = fc.deal_id AND sc.field = 'status'
+        ORDER BY sc.created_at
+        LIMIT 1),
+      d.status::text
+    ) AS status
+  ) status_then ON true
+  LEFT JOIN pipeline_stages from_stage ON from_stage.id = fc.old_value #>> '{}'
+  LEFT JOIN pipeline_stages to_stage ON to_stage.id = fc.new_value #>> '{}'
+  LEFT JOIN pipeline_stages current_stage ON current_stage.id = d.stage_id
+ WHERE fc.field IN ('stageId', 'status');
@@ -0,0 +1,76 @@
+// packages/trpc/src/lib/deal-stages.ts
+import { Prisma } from '@elevate/database'
+
+// Title of the activity logged when a deal is moved between stages
+export const STAGE_MOVE_ACTIVITY_TITLE = 'Deal moved'
+
+export interface StageTransitionInput {
+  dealId: string
+  // Null for a new deal
+  fromStageId: string | null
+  toStageId: string
+  fromStatus: string | null
+  toStatus: string
+}
+
+// Log a stage move or status change. No-ops are skipped, so callers can pass
+// the deal before and after any update.
+export async function recordStageTransition(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string,
+  transition: StageTransitionInput
+): Promise<void> {
+  if (transition.fromStageId === transition.toStageId && transition.fromStatus === transition.toStatus) return
+
+  await db.dealStageTransition.create({
+    data: { tenantId, userId, ...transition }
+  })
+}
+
+// When each deal entered its current stage: its latest transition into that
+// stage while open, so reopening a closed deal restarts the clock. Deals
+// without one (none should remain after the backfill) count from creation.
+export async function getStageEnteredAt(
+  db: Prisma.TransactionClient,
+  deals: { id: string; stageId: string; createdAt: Date }[]
+): Promise<Map<string, Date>> {
+  const latest = deals.length > 0
+    ? await db.dealStageTransition.groupBy({
+        by: ['dealId', 'toStageId'],
+        where: { dealId: { in: deals.map(d => d.id) }, toStatus: 'OPEN' },
+        _max: { createdAt: true }
+      })
+    : []
+
+  const entered = new Map(latest.map(row => [`${row.dealId}:${row.toStageId}`, row._max.createdAt]))
+  return new Map(deals.map(deal => [deal.id, entered.get(`${deal.id}:${deal.stageId}`) ?? deal.createdAt]))
+}
+
+export interface StageTime {
+  stageId: string
+  // Milliseconds spent in the stage while open, over all visits
+  duration: number
+  visits: number
+}
+
+// Time spent open in each stage, from a deal's transitions oldest first. The
+// last interval runs until now when the deal is still open.
+export function summarizeStageTimes(
+  transitions: { toStageId: string | null; toStatus: string; createdAt: Date }[],
+  now = new Date()
+): StageTime[] {
+  const times = new Map<string, StageTime>()
+
+  transitions.forEach((transition, i) => {
+    if (!transition.toStageId || transition.toStatus !== 'OPEN') return
+    const end = transitions[i + 1]?.createdAt ?? now
+    const time = times.get(transition.toStageId) ?? { stageId: transition.toStageId, duration: 0, visits: 0 }
+    time.duration += end.getTime() - transition.createdAt.getTime()
+    // A status change within the stage continues the visit
+    if (transitions[i - 1]?.toStageId !== transition.toStageId) time.visits++
+    times.set(transition.toStageId, time)
+  })
+
+  return Array.from(times.values())
+}
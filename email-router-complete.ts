@@ -1,7 +1,24 @@
 // packages/trpc/src/routers/email.ts
+import { randomUUID } from 'crypto'
 import { z } from 'zod'
 import { router, tenantProcedure } from '../trpc'
 import { TRPCError } from '@trpc/server'
+import { Prisma } from '@elevate/database'
+import { getSegmentWhere } from '../lib/contact-filter'
+import { recalculateLeadScore } from '../lib/lead-scoring'
+import { assertCanContact, optedOutEmails } from '../lib/consent'
+import { listPageSchema, paginateList, SortOption } from '../lib/list-query'
+
+// Segment members queued per page in sendToSegment
+const SEGMENT_SEND_BATCH_SIZE = 500
+
+const EMAIL_SORT_KEYS = ['createdAt', 'sentAt', 'subject'] as const
+
+const EMAIL_SORTS: Record<typeof EMAIL_SORT_KEYS[number], SortOption> = {
+  createdAt: { columns: [{ field: 'createdAt' }], defaultDirection: 'desc' },
+  sentAt: { columns: [{ field: 'sentAt', nullable: true }], defaultDirection: 'desc' },
+  subject: { columns: [{ field: 'subject' }], defaultDirection: 'asc' }
+}
 
 export const emailRouter = router({
   // List email accounts
@@ -81,6 +98,18 @@ export const emailRouter = router({
         })
       }
 
+      // Never email a contact, or any address, that has opted out
+      if (input.contactId) {
+        await assertCanContact(ctx.prisma, ctx.tenantId, input.contactId, 'EMAIL')
+      }
+      const optedOut = await optedOutEmails(ctx.prisma, ctx.tenantId, [...input.to, ...input.cc, ...input.bcc])
+      if (optedOut.size > 0) {
+        throw new TRPCError({
+          code: 'FORBIDDEN',
+          message: `Recipients have opted out of email: ${[...optedOut].join(', ')}`
+        })
+      }
+
       // Generate tracking ID if tracking enabled
       const trackingId = (input.trackOpens || input.trackClicks)
         ? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
@@ -126,36 +155,138 @@ export const emailRouter = router({
       return email
     }),
 
+  // Queue one email per member of a saved segment
+  sendToSegment: tenantProcedure
+    .input(z.object({
+      accountId: z.string().optional(),
+      segmentId: z.string(),
+      subject: z.string().min(1),
+      body: z.string().min(1),
+      bodyHtml: z.string().optional(),
+      trackOpens: z.boolean().default(true),
+      trackClicks: z.boolean().default(true)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const account = input.accountId
+        ? await ctx.prisma.emailAccount.findFirst({
+            where: { id: input.accountId, tenantId: ctx.tenantId }
+          })
+        : await ctx.prisma.emailAccount.findFirst({
+            where: { tenantId: ctx.tenantId, isDefault: true }
+          })
+
+      if (!account) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'No email account configured. Please add an email account first.'
+        })
+      }
+
+      const segmentWhere = await getSegmentWhere(ctx.prisma, ctx.tenantId, input.segmentId)
+      const results = { queued: 0, skipped: 0, optedOut: 0 }
+
+      // Members are read a page at a time; each page's emails and activities
+      // are written with one createMany apiece
+      let cursor: string | undefined
+      do {
+        const contacts = await ctx.prisma.contact.findMany({
+          where: {
+            tenantId: ctx.tenantId,
+            deletedAt: null,
+            AND: [segmentWhere],
+            ...(cursor && { id: { gt: cursor } })
+          },
+          select: { id: true, email: true, emailConsent: true },
+          orderBy: { id: 'asc' },
+          take: SEGMENT_SEND_BATCH_SIZE
+        })
+
+        const emails: Prisma.EmailCreateManyInput[] = []
+        for (const contact of contacts) {
+          if (!contact.email) {
+            results.skipped++
+            continue
+          }
+          if (contact.emailConsent === 'OPTED_OUT') {
+            results.optedOut++
+            continue
+          }
+
+          const trackingId = (input.trackOpens || input.trackClicks)
+            ? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+            : null
+
+          // IDs are set here so the activities can reference their emails
+          emails.push({
+            id: randomUUID(),
+            tenantId: ctx.tenantId,
+            accountId: account.id,
+            contactId: contact.id,
+            to: [contact.email],
+            cc: [],
+            bcc: [],
+            from: account.email,
+            subject: input.subject,
+            body: input.body,
+            bodyHtml: input.bodyHtml,
+            trackingId,
+            status: 'QUEUED'
+          })
+        }
+
+        if (emails.length > 0) {
+          await ctx.prisma.$transaction([
+            ctx.prisma.email.createMany({ data: emails }),
+            ctx.prisma.activity.createMany({
+              data: emails.map(email => ({
+                tenantId: ctx.tenantId,
+                contactId: email.contactId,
+                userId: ctx.user.id,
+                type: 'EMAIL' as const,
+                title: 'Email sent',
+                description: input.subject,
+                metadata: { emailId: email.id!, segmentId: input.segmentId }
+              }))
+            })
+          ])
+          results.queued += emails.length
+        }
+
+        cursor = contacts.length === SEGMENT_SEND_BATCH_SIZE ? contacts[contacts.length - 1].id : undefined
+      } while (cursor)
+
+      return results
+    }),
+
   // List sent emails
   list: tenantProcedure
-    .input(z.object({
+    .input(listPageSchema.extend({
       contactId: z.string().optional(),
       status: z.enum(['QUEUED', 'SENDING', 'SENT', 'DELIVERED', 'OPENED', 'CLICKED', 'BOUNCED', 'FAILED']).optional(),
-      cursor: z.string().optional(),
-      limit: z.number().min(1).max(100).default(50)
+      sortBy: z.enum(EMAIL_SORT_KEYS).default('createdAt')
     }))
     .query(async ({ ctx, input }) => {
-      const emails = await ctx.prisma.email.findMany({
-        where: {
-          tenantId: ctx.tenantId,
-          ...(input.contactId && { contactId: input.contactId }),
-          ...(input.status && { status: input.status })
-        },
-        take: input.limit + 1,
-        cursor: input.cursor ? { id: input.cursor } : undefined,
-        orderBy: { createdAt: 'desc' },
-        include: {
-          contact: { select: { firstName: true, lastName: true, email: true } }
-        }
-      })
-
-      let nextCursor: string | undefined
-      if (emails.length > input.limit) {
-        const nextItem = emails.pop()
-        nextCursor = nextItem!.id
+      const where: Prisma.EmailWhereInput = {
+        tenantId: ctx.tenantId,
+        ...(input.contactId && { contactId: input.contactId }),
+        ...(input.status && { status: input.status })
       }
 
-      return { emails, nextCursor }
+      const { items: emails, nextCursor, total } = await paginateList({
+        ...input,
+        sorts: EMAIL_SORTS,
+        findMany: page => ctx.prisma.email.findMany({
+          where: { AND: [where, page.where as Prisma.EmailWhereInput] },
+          take: page.take,
+          orderBy: page.orderBy as Prisma.EmailOrderByWithRelationInput[],
+          include: {
+            contact: { select: { firstName: true, lastName: true, email: true } }
+          }
+        }),
+        count: () => ctx.prisma.email.count({ where })
+      })
+
+      return { emails, nextCursor, total }
     }),
 
   // Get email details
@@ -193,6 +324,10 @@ export const emailRouter = router({
             openedAt: new Date()
           }
         })
+
+        if (email.contactId) {
+          await recalculateLeadScore(ctx.prisma, ctx.tenantId, email.contactId)
+        }
       }
 
       return { success: true }
@@ -214,6 +349,10 @@ export const emailRouter = router({
             clickedAt: new Date()
           }
         })
+
+        if (email.contactId) {
+          await recalculateLeadScore(ctx.prisma, ctx.tenantId, email.contactId)
+        }
       }
 
       return { success: true }
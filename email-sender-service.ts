@@ -1,6 +1,8 @@
 // packages/worker/src/services/email-sender.ts
 import sgMail from '@sendgrid/mail'
 import { PrismaClient } from '@elevate/database'
+import { recalculateLeadScore } from '@elevate/trpc/lib/lead-scoring'
+import { optedOutEmails, setConsent, unsubscribeUrl } from '@elevate/trpc/lib/consent'
 
 const prisma = new PrismaClient()
 
@@ -35,6 +37,25 @@ export class EmailSender {
         return
       }
 
+      // Re-check consent at send time; opt-outs can arrive after the email was queued
+      const optedOut = await optedOutEmails(prisma, email.tenantId, [...email.to, ...email.cc, ...email.bcc])
+      email.to = email.to.filter(address => !optedOut.has(address.toLowerCase()))
+      email.cc = email.cc.filter(address => !optedOut.has(address.toLowerCase()))
+      email.bcc = email.bcc.filter(address => !optedOut.has(address.toLowerCase()))
+
+      const contact = email.contactId
+        ? await prisma.contact.findUnique({ where: { id: email.contactId }, select: { emailConsent: true } })
+        : null
+
+      if (email.to.length === 0 || contact?.emailConsent === 'OPTED_OUT') {
+        await prisma.email.update({
+          where: { id: emailId },
+          data: { status: 'FAILED', failureReason: 'Recipient opted out of email' }
+        })
+        console.log(`Email ${emailId} not sent: recipient opted out`)
+        return
+      }
+
       // Update status to SENDING
       await prisma.email.update({
         where: { id: emailId },
@@ -73,6 +94,8 @@ export class EmailSender {
         htmlContent = this.wrapLinksForTracking(htmlContent, email.trackingId)
       }
 
+      const unsubscribe = this.unsubscribeParts(email.contactId)
+
       // Send via SendGrid
       const msg = {
         to: email.to,
@@ -80,8 +103,9 @@ export class EmailSender {
         bcc: email.bcc.length > 0 ? email.bcc : undefined,
         from: email.from,
         subject: email.subject,
-        text: email.body,
-        html: htmlContent,
+        text: email.body + unsubscribe.text,
+        html: htmlContent + unsubscribe.html,
+        headers: unsubscribe.headers,
         customArgs: {
           email_id: email.id,
           tenant_id: email.tenantId,
@@ -137,14 +161,17 @@ export class EmailSender {
       htmlContent = this.wrapLinksForTracking(htmlContent, email.trackingId)
     }
 
+    const unsubscribe = this.unsubscribeParts(email.contactId)
+
     await transporter.sendMail({
       from: email.from,
       to: email.to.join(', '),
       cc: email.cc.join(', '),
       bcc: email.bcc.join(', '),
       subject: email.subject,
-      text: email.body,
-      html: htmlContent
+      text: email.body + unsubscribe.text,
+      html: htmlContent + unsubscribe.html,
+      headers: unsubscribe.headers
     })
 
     await prisma.email.update({
@@ -158,6 +185,26 @@ export class EmailSender {
     console.log(`Email ${email.id} sent successfully via SMTP`)
   }
 
+  // Unsubscribe footer and RFC 8058 one-click headers. Added after click
+  // tracking so unsubscribing never counts as an engagement.
+  private unsubscribeParts(contactId: string | null): {
+    text: string
+    html: string
+    headers?: Record<string, string>
+  } {
+    if (!contactId) return { text: '', html: '' }
+
+    const url = unsubscribeUrl(contactId)
+    return {
+      text: `\n\nUnsubscribe: ${url}`,
+      html: `<p style="font-size:12px;color:#888"><a href="${url}">Unsubscribe</a></p>`,
+      headers: {
+        'List-Unsubscribe': `<${url}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+      }
+    }
+  }
+
   private textToHtml(text: string): string {
     return text
       .split('\n\n')
@@ -220,6 +267,10 @@ export async function handleSendGridWebhook(events: any[]): Promise<void> {
               openedAt: new Date()
             }
           })
+
+          if (email.contactId) {
+            await recalculateLeadScore(prisma, email.tenantId, email.contactId)
+          }
         }
         break
 
@@ -232,6 +283,10 @@ export async function handleSendGridWebhook(events: any[]): Promise<void> {
               clickedAt: new Date()
             }
           })
+
+          if (email.contactId) {
+            await recalculateLeadScore(prisma, email.tenantId, email.contactId)
+          }
         }
         break
 
@@ -242,6 +297,18 @@ export async function handleSendGridWebhook(events: any[]): Promise<void> {
           data: { status: 'BOUNCED' }
         })
         break
+
+      // Provider-side unsubscribes and spam complaints are opt-outs
+      case 'unsubscribe':
+      case 'group_unsubscribe':
+      case 'spamreport':
+        if (email.contactId) {
+          await setConsent(prisma, email.tenantId, email.contactId, 'EMAIL', 'OPTED_OUT', {
+            source: 'PROVIDER',
+            note: `SendGrid ${event.event} event`
+          })
+        }
+        break
     }
   }
 }
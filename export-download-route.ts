@@ -0,0 +1,54 @@
+// apps/web/app/api/exports/[token]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@elevate/database'
+import { getSession } from '@/lib/session'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const session = getSession(request)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const job = await prisma.contactExport.findUnique({
+      where: { downloadToken: params.token },
+      select: { id: true, tenantId: true, status: true, filename: true, contentType: true, expiresAt: true }
+    })
+
+    // A leaked link is no use outside the tenant that made the export
+    if (!job || job.tenantId !== session.tenantId || job.status !== 'COMPLETED' || (job.expiresAt && job.expiresAt < new Date())) {
+      return NextResponse.json({ error: 'Export not found or expired' }, { status: 404 })
+    }
+
+    // Send the stored chunks one at a time instead of loading the whole file
+    let index = 0
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const chunk = await prisma.contactExportChunk.findUnique({
+          where: { exportId_index: { exportId: job.id, index } },
+          select: { data: true }
+        })
+        if (!chunk) {
+          controller.close()
+          return
+        }
+        index++
+        controller.enqueue(new Uint8Array(chunk.data))
+      }
+    })
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': job.contentType || 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${job.filename}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Export download error:', error)
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,138 @@
+// packages/trpc/src/lib/field-history.ts
+import { Prisma } from '@elevate/database'
+import { TRPCError } from '@trpc/server'
+
+export interface FieldChangeInput {
+  field: string
+  oldValue: unknown
+  newValue: unknown
+}
+
+// A change belongs to exactly one record
+export type FieldHistoryTarget = { contactId: string } | { dealId: string }
+
+// Normalize values so they compare and serialize the same way they are stored
+function toHistoryValue(value: unknown): unknown {
+  if (value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  if (Prisma.Decimal.isDecimal(value)) return (value as Prisma.Decimal).toNumber()
+  if (Array.isArray(value)) return value.map(toHistoryValue)
+  return value
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(toHistoryValue(a)) === JSON.stringify(toHistoryValue(b))
+}
+
+// Diff the given columns between the stored row and the updated row
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: readonly string[]
+): FieldChangeInput[] {
+  return fields
+    .filter(field => !isSame(before[field], after[field]))
+    .map(field => ({
+      field,
+      oldValue: toHistoryValue(before[field]),
+      newValue: toHistoryValue(after[field])
+    }))
+}
+
+// Diff custom data per key, recorded as `customData.<key>`
+export function diffCustomData(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldChangeInput[] {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})])
+  return diffFields(before || {}, after || {}, [...keys]).map(change => ({
+    ...change,
+    field: `customData.${change.field}`
+  }))
+}
+
+export async function recordFieldChanges(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string,
+  target: FieldHistoryTarget,
+  changes: FieldChangeInput[]
+): Promise<void> {
+  await recordManyFieldChanges(db, tenantId, userId, [{ target, changes }])
+}
+
+// History rows written per statement
+const HISTORY_CHUNK_SIZE = 1000
+
+// Record the changes of many records at once, a chunk of rows per statement
+export async function recordManyFieldChanges(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string,
+  records: { target: FieldHistoryTarget; changes: FieldChangeInput[] }[]
+): Promise<void> {
+  const jsonValue = (value: unknown) => {
+    const stored = toHistoryValue(value)
+    return stored === null ? Prisma.DbNull : (stored as Prisma.InputJsonValue)
+  }
+
+  const rows = records.flatMap(({ target, changes }) => changes.map(change => ({
+    tenantId,
+    userId,
+    ...target,
+    field: change.field,
+    oldValue: jsonValue(change.oldValue),
+    newValue: jsonValue(change.newValue)
+  })))
+
+  for (let i = 0; i < rows.length; i += HISTORY_CHUNK_SIZE) {
+    await db.fieldChange.createMany({ data: rows.slice(i, i + HISTORY_CHUNK_SIZE) })
+  }
+}
+
+export async function getFieldHistory(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  target: FieldHistoryTarget,
+  options: { field?: string; cursor?: string; limit: number }
+) {
+  const changes = await db.fieldChange.findMany({
+    where: {
+      tenantId,
+      ...target,
+      ...(options.field && { field: options.field })
+    },
+    take: options.limit + 1,
+    cursor: options.cursor ? { id: options.cursor } : undefined,
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    include: { user: { select: { id: true, firstName: true, lastName: true } } }
+  })
+
+  let nextCursor: string | undefined
+  if (changes.length > options.limit) {
+    const nextItem = changes.pop()
+    nextCursor = nextItem!.id
+  }
+
+  return { changes, nextCursor }
+}
+
+export async function getFieldChange(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  target: FieldHistoryTarget,
+  changeId: string
+) {
+  const change = await db.fieldChange.findFirst({
+    where: { id: changeId, tenantId, ...target }
+  })
+  if (!change) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Change not found' })
+  }
+  return change
+}
+
+// Human-readable summary for the activity feed
+export function describeChanges(changes: FieldChangeInput[]): string {
+  return changes.map(c => c.field).join(', ')
+}
@@ -0,0 +1,40 @@
+// apps/web/app/api/imports/[token]/errors/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@elevate/database'
+import { buildImportErrorReport } from '@elevate/trpc/lib/contact-import'
+import { getSession } from '@/lib/session'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const session = getSession(request)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const job = await prisma.importJob.findUnique({
+      where: { errorReportToken: params.token },
+      select: { id: true, tenantId: true, filename: true, headers: true }
+    })
+
+    if (!job || job.tenantId !== session.tenantId) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 })
+    }
+
+    const csv = await buildImportErrorReport(prisma, job)
+    const filename = job.filename.replace(/\.[^.]+$/, '').replace(/"/g, '')
+
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}-errors.csv"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Import error report download error:', error)
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,276 @@
+// packages/trpc/src/lib/import-mapping.ts
+import { z } from 'zod'
+import { TRPCError } from '@trpc/server'
+import { PrismaClient } from '@elevate/database'
+import { ImportOptions } from './contact-import'
+
+// Maps columns of an uploaded file onto contact fields. A column's target is a
+// standard field key, `fullName` (split into first and last name), `tags`,
+// `owner`, or `customData.<key>`; null leaves the column out.
+
+export const IMPORT_STANDARD_FIELDS = {
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  fullName: 'Full Name',
+  email: 'Email',
+  phone: 'Phone',
+  mobile: 'Mobile',
+  company: 'Company',
+  jobTitle: 'Job Title',
+  address: 'Address',
+  city: 'City',
+  state: 'State',
+  zipCode: 'Zip Code',
+  country: 'Country',
+  website: 'Website',
+  leadSource: 'Lead Source',
+  leadStatus: 'Lead Status',
+  externalId: 'External ID'
+} as const
+
+type StandardField = keyof typeof IMPORT_STANDARD_FIELDS
+
+export const importColumnMappingSchema = z.object({
+  header: z.string(),
+  target: z.string().nullable(),
+  // Replace cell values before import, matched case-insensitively
+  // (e.g. "Hot" → "QUALIFIED")
+  valueMap: z.record(z.string()).optional(),
+  // Split a cell into several values, for tags and multi-select fields
+  separator: z.string().min(1).max(3).optional()
+})
+
+export const importMappingSchema = z.object({
+  columns: z.array(importColumnMappingSchema).max(500),
+  // Value per target for rows where the file leaves it blank
+  defaults: z.record(z.string()).default({})
+})
+
+export type ImportColumnMapping = z.infer<typeof importColumnMappingSchema>
+export type ImportMapping = z.infer<typeof importMappingSchema>
+
+// Header spellings seen in our own template and in other CRMs' exports,
+// compared after normalizing (see normalizeHeader)
+const HEADER_SUGGESTIONS: Record<StandardField | 'tags' | 'owner', string[]> = {
+  firstName: ['firstname', 'first', 'givenname', 'fname'],
+  lastName: ['lastname', 'last', 'surname', 'familyname', 'lname'],
+  fullName: ['name', 'fullname', 'contactname', 'personname'],
+  email: ['email', 'emailaddress', 'email1', 'primaryemail', 'workemail', 'emailwork'],
+  phone: ['phone', 'phonenumber', 'workphone', 'businessphone', 'officephone', 'telephone', 'tel', 'phonework'],
+  mobile: ['mobile', 'mobilephone', 'mobilenumber', 'cell', 'cellphone', 'phonemobile'],
+  company: ['company', 'companyname', 'organization', 'organisation', 'organizationname', 'account', 'accountname'],
+  jobTitle: ['jobtitle', 'title', 'position', 'role'],
+  address: ['address', 'street', 'streetaddress', 'address1', 'mailingstreet'],
+  city: ['city', 'town', 'mailingcity'],
+  state: ['state', 'province', 'region', 'stateregion', 'mailingstate'],
+  zipCode: ['zip', 'zipcode', 'postalcode', 'postcode', 'mailingzip', 'mailingpostalcode'],
+  country: ['country', 'countryregion', 'mailingcountry'],
+  website: ['website', 'websiteurl', 'url', 'web'],
+  leadSource: ['leadsource', 'source', 'originalsource'],
+  leadStatus: ['leadstatus', 'status', 'lifecyclestage'],
+  externalId: ['externalid', 'recordid', 'id'],
+  tags: ['tags', 'tag', 'labels', 'label'],
+  owner: ['owner', 'contactowner', 'owneremail', 'assignedto', 'salesrep']
+}
+
+// Prefixes other CRMs put on person columns ("Person - Email", "Contact Owner")
+const HEADER_PREFIXES = ['contact', 'person', 'primary']
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function suggestTarget(header: string, customFields: { key: string; name: string }[]): string | null {
+  const normalized = normalizeHeader(header)
+  const candidates = [normalized]
+  for (const prefix of HEADER_PREFIXES) {
+    if (normalized.startsWith(prefix) && normalized.length > prefix.length) {
+      candidates.push(normalized.slice(prefix.length))
+    }
+  }
+
+  for (const candidate of candidates) {
+    const field = Object.entries(HEADER_SUGGESTIONS).find(([, spellings]) => spellings.includes(candidate))
+    if (field) return field[0]
+
+    const customField = customFields.find(f => normalizeHeader(f.key) === candidate || normalizeHeader(f.name) === candidate)
+    if (customField) return `customData.${customField.key}`
+  }
+
+  return null
+}
+
+// Suggest a target for every header. Each field is suggested once (the first
+// matching column wins); any number of columns can feed tags.
+export function suggestImportMapping(
+  headers: string[],
+  customFields: { key: string; name: string; type: string }[]
+): ImportMapping {
+  const used = new Set<string>()
+  const columns = headers.map(header => {
+    let target = suggestTarget(header, customFields)
+    if (target && target !== 'tags' && used.has(target)) target = null
+    if (target) used.add(target)
+
+    const multiValue = target === 'tags' ||
+      customFields.some(f => target === `customData.${f.key}` && f.type === 'MULTI_SELECT')
+    return { header, target, ...(multiValue && { separator: ',' }) }
+  })
+
+  // A name column is only useful when the file has no separate first/last names
+  if (used.has('firstName') || used.has('lastName')) {
+    for (const column of columns) {
+      if (column.target === 'fullName') column.target = null
+    }
+  }
+
+  return { columns, defaults: {} }
+}
+
+// First/last from a full name: "Doe, Jane" or "Jane Q. Doe" (the last word is
+// the last name)
+export function splitFullName(name: string): { firstName: string; lastName: string } {
+  const trimmed = name.trim().replace(/\s+/g, ' ')
+  const comma = trimmed.indexOf(',')
+  if (comma !== -1) {
+    return { lastName: trimmed.slice(0, comma).trim(), firstName: trimmed.slice(comma + 1).trim() }
+  }
+  const space = trimmed.lastIndexOf(' ')
+  return space === -1
+    ? { firstName: trimmed, lastName: '' }
+    : { firstName: trimmed.slice(0, space), lastName: trimmed.slice(space + 1) }
+}
+
+export interface PreparedImportMapping {
+  columns: (ImportColumnMapping & { target: string })[]
+  defaults: Record<string, string>
+  // Owner lookup by user id, email or "First Last", lowercased
+  owners: Map<string, string>
+  multiValueTargets: Set<string>
+}
+
+// Check a mapping against the tenant's custom fields and, when given, the
+// import mode; load what applying it needs. Throws BAD_REQUEST when it can't work.
+export async function prepareImportMapping(
+  prisma: PrismaClient,
+  tenantId: string,
+  mapping: ImportMapping,
+  options?: Pick<ImportOptions, 'mode' | 'matchOn'>
+): Promise<PreparedImportMapping> {
+  const [customFields, users] = await Promise.all([
+    prisma.customField.findMany({ where: { tenantId }, select: { key: true, type: true } }),
+    prisma.user.findMany({ where: { tenantId }, select: { id: true, email: true, firstName: true, lastName: true } })
+  ])
+  const customTargets = new Map(customFields.map(f => [`customData.${f.key}`, f.type]))
+  const isKnown = (target: string) =>
+    target in IMPORT_STANDARD_FIELDS || target === 'tags' || target === 'owner' || customTargets.has(target)
+
+  const columns = mapping.columns.filter((c): c is ImportColumnMapping & { target: string } => !!c.target)
+  const targets = [...columns.map(c => c.target), ...Object.keys(mapping.defaults)]
+  const unknown = Array.from(new Set(targets.filter(t => !isKnown(t))))
+  if (unknown.length > 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Unknown import fields: ${unknown.join(', ')}` })
+  }
+
+  const repeated = columns
+    .map(c => c.target)
+    .filter((target, i, all) => target !== 'tags' && all.indexOf(target) !== i)
+  if (repeated.length > 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Fields mapped more than once: ${Array.from(new Set(repeated)).join(', ')}` })
+  }
+
+  const provides = (target: string) => targets.includes(target)
+  // Updates can leave names alone, but new contacts need them
+  if (options && options.mode !== 'UPDATE' && !provides('fullName') && !(provides('firstName') && provides('lastName'))) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Map a column to Full Name or to both First Name and Last Name' })
+  }
+  const matchTargets = options?.matchOn === 'phone' ? ['phone', 'mobile'] : [options?.matchOn ?? 'email']
+  if (options && options.mode !== 'CREATE' && !matchTargets.some(provides)) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Map a column to ${IMPORT_STANDARD_FIELDS[matchTargets[0] as StandardField]} to match existing contacts`
+    })
+  }
+
+  const owners = new Map<string, string>()
+  for (const user of users) {
+    owners.set(user.id.toLowerCase(), user.id)
+    owners.set(user.email.toLowerCase(), user.id)
+    owners.set(`${user.firstName} ${user.lastName}`.toLowerCase(), user.id)
+  }
+
+  return {
+    columns,
+    defaults: mapping.defaults,
+    owners,
+    multiValueTargets: new Set([
+      'tags',
+      ...customFields.filter(f => f.type === 'MULTI_SELECT').map(f => `customData.${f.key}`)
+    ])
+  }
+}
+
+export interface MappedImportRow {
+  fields: Partial<Record<Exclude<StandardField, 'fullName'>, string>>
+  tags: string[]
+  // Undefined when the row doesn't name an owner
+  ownerId?: string
+  customData: Record<string, unknown>
+  errors: string[]
+}
+
+function mapValue(value: string, valueMap: Record<string, string> | undefined): string {
+  if (!valueMap) return value
+  const key = Object.keys(valueMap).find(k => k.trim().toLowerCase() === value.toLowerCase())
+  return key === undefined ? value : valueMap[key]
+}
+
+// Apply a prepared mapping to one raw row (cells keyed by header)
+export function applyImportMapping(row: Record<string, string>, mapping: PreparedImportMapping): MappedImportRow {
+  const values = new Map<string, string[]>()
+
+  for (const column of mapping.columns) {
+    const cell = (row[column.header] ?? '').trim()
+    if (!cell) continue
+    const parts = column.separator ? cell.split(column.separator) : [cell]
+    const mapped = parts.map(part => mapValue(part.trim(), column.valueMap).trim()).filter(Boolean)
+    if (mapped.length > 0) values.set(column.target, [...(values.get(column.target) ?? []), ...mapped])
+  }
+
+  for (const [target, value] of Object.entries(mapping.defaults)) {
+    if (!values.has(target) && value.trim()) {
+      values.set(target, mapping.multiValueTargets.has(target) ? value.split(',').map(v => v.trim()) : [value.trim()])
+    }
+  }
+
+  const result: MappedImportRow = { fields: {}, tags: [], customData: {}, errors: [] }
+
+  const fullName = values.get('fullName')?.[0]
+  if (fullName) {
+    const { firstName, lastName } = splitFullName(fullName)
+    result.fields.firstName = firstName
+    result.fields.lastName = lastName
+  }
+
+  for (const [target, list] of Array.from(values)) {
+    if (target === 'fullName') continue
+    if (target === 'tags') {
+      result.tags = Array.from(new Set(list))
+    } else if (target === 'owner') {
+      const ownerId = mapping.owners.get(list[0].toLowerCase())
+      if (ownerId) {
+        result.ownerId = ownerId
+      } else {
+        result.errors.push(`Unknown owner "${list[0]}"`)
+      }
+    } else if (target.startsWith('customData.')) {
+      const key = target.slice('customData.'.length)
+      result.customData[key] = mapping.multiValueTargets.has(target) ? list : list[0]
+    } else {
+      // Separate name columns take precedence over a split full name
+      result.fields[target as keyof MappedImportRow['fields']] = list[0]
+    }
+  }
+
+  return result
+}
@@ -7,99 +7,252 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { trpc } from '@/lib/trpc'
-import { Upload, CheckCircle2, AlertCircle, Download } from 'lucide-react'
+import { Upload, CheckCircle2, AlertCircle, Download, XCircle } from 'lucide-react'
 import { useRouter } from 'next/navigation'
-import Papa from 'papaparse'
-
-interface ParsedContact {
-  firstName: string
-  lastName: string
-  email?: string
-  phone?: string
-  company?: string
-  jobTitle?: string
-  leadSource?: string
+
+const RUNNING_STATUSES = ['PENDING', 'PROCESSING']
+
+const FILE_EXTENSIONS = ['.csv', '.xlsx', '.vcf', '.vcard']
+
+// Radix selects can't use an empty value
+const IGNORE = 'ignore'
+
+const FIELD_OPTIONS = [
+  { value: 'firstName', label: 'First Name' },
+  { value: 'lastName', label: 'Last Name' },
+  { value: 'fullName', label: 'Full Name (split into first and last)' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'mobile', label: 'Mobile' },
+  { value: 'company', label: 'Company' },
+  { value: 'jobTitle', label: 'Job Title' },
+  { value: 'address', label: 'Address' },
+  { value: 'city', label: 'City' },
+  { value: 'state', label: 'State' },
+  { value: 'zipCode', label: 'Zip Code' },
+  { value: 'country', label: 'Country' },
+  { value: 'website', label: 'Website' },
+  { value: 'leadSource', label: 'Lead Source' },
+  { value: 'leadStatus', label: 'Lead Status' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'owner', label: 'Owner (email or name)' }
+]
+
+// Fields users can give a fixed value for every row
+const DEFAULT_FIELDS = [
+  { value: 'leadSource', label: 'Lead Source' },
+  { value: 'leadStatus', label: 'Lead Status' },
+  { value: 'tags', label: 'Tags (comma-separated)' },
+  { value: 'owner', label: 'Owner' }
+]
+
+interface ColumnMapping {
+  header: string
+  target: string | null
+  valueMap?: Record<string, string>
+  separator?: string
+}
+
+const MODE_OPTIONS = [
+  { value: 'CREATE', label: 'Create new contacts only' },
+  { value: 'UPDATE', label: 'Update existing contacts only' },
+  { value: 'UPSERT', label: 'Create and update' }
+]
+
+const MATCH_OPTIONS = [
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'externalId', label: 'External ID' }
+]
+
+interface ImportOptions {
+  mode: 'CREATE' | 'UPDATE' | 'UPSERT'
+  matchOn: 'email' | 'phone' | 'externalId'
+  dryRun: boolean
+}
+
+interface Mapping {
+  columns: ColumnMapping[]
+  defaults: Record<string, string>
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve((reader.result as string).split(',')[1] || '')
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+// "Hot=QUALIFIED; Cold=UNQUALIFIED" <-> { Hot: 'QUALIFIED', Cold: 'UNQUALIFIED' }
+function parseValueMap(text: string): Record<string, string> | undefined {
+  const entries = text
+    .split(';')
+    .map(pair => pair.split('='))
+    .filter(pair => pair.length === 2 && pair[0].trim())
+    .map(([from, to]) => [from.trim(), to.trim()])
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+function formatValueMap(valueMap?: Record<string, string>): string {
+  return Object.entries(valueMap || {}).map(([from, to]) => `${from}=${to}`).join('; ')
 }
 
 export default function ImportPage() {
   const router = useRouter()
   const [file, setFile] = useState<File | null>(null)
-  const [parsedData, setParsedData] = useState<ParsedContact[]>([])
   const [errors, setErrors] = useState<string[]>([])
-  const [step, setStep] = useState<'upload' | 'preview' | 'importing' | 'complete'>('upload')
+  const [importId, setImportId] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<Mapping | null>(null)
+  const [valueMapText, setValueMapText] = useState<Record<string, string>>({})
+  const [presetName, setPresetName] = useState('')
+  const [options, setOptions] = useState<ImportOptions>({ mode: 'CREATE', matchOn: 'email', dryRun: false })
 
-  const importMutation = trpc.contact.bulkImport.useMutation({
-    onSuccess: (result) => {
-      setStep('complete')
+  const { data: job, refetch: refetchJob } = trpc.import.get.useQuery(
+    { id: importId! },
+    {
+      enabled: !!importId,
+      refetchInterval: (job) => (!job || RUNNING_STATUSES.includes(job.status) ? 2000 : false)
     }
+  )
+  const { data: customFields } = trpc.settings.listCustomFields.useQuery()
+  const { data: presets } = trpc.import.presets.useQuery()
+
+  const applyMapping = (next: Mapping) => {
+    setMapping(next)
+    setValueMapText(Object.fromEntries(next.columns.map(c => [c.header, formatValueMap(c.valueMap)])))
+  }
+
+  const createMutation = trpc.import.create.useMutation({
+    onSuccess: (created) => {
+      selectSheetMutation.reset()
+      setImportId(created.id)
+      applyMapping(created.suggestedMapping)
+    },
+    onError: (error) => setErrors([error.message])
+  })
+  const selectSheetMutation = trpc.import.selectSheet.useMutation({
+    onSuccess: (selected) => {
+      applyMapping(selected.suggestedMapping)
+      refetchJob()
+    },
+    onError: (error) => setErrors([error.message])
   })
+  // The uploaded file as last read, from the chosen sheet for workbooks
+  const draft = selectSheetMutation.data ?? createMutation.data
+  const startMutation = trpc.import.start.useMutation({
+    onSuccess: () => refetchJob(),
+    onError: (error) => setErrors([error.message])
+  })
+  const cancelMutation = trpc.import.cancel.useMutation({ onSuccess: () => refetchJob() })
+  const retryMutation = trpc.import.retry.useMutation({ onSuccess: () => refetchJob() })
+  const applyDryRunMutation = trpc.import.applyDryRun.useMutation({
+    onSuccess: (applied) => setImportId(applied.id)
+  })
+
+  // The mapping as sent to the server, with value maps parsed
+  const mappingInput = mapping && {
+    columns: mapping.columns.map(c => ({ ...c, valueMap: parseValueMap(valueMapText[c.header] || '') })),
+    defaults: Object.fromEntries(Object.entries(mapping.defaults).filter(([, value]) => value.trim()))
+  }
+
+  const { data: preview, error: previewError } = trpc.import.preview.useQuery(
+    { id: importId!, mapping: mappingInput!, options },
+    { enabled: !!importId && !!mappingInput && job?.status === 'DRAFT', keepPreviousData: true, retry: false }
+  )
+
+  const isDryRun = !!(job?.options as { dryRun?: boolean } | undefined)?.dryRun
+  const { data: outcomes } = trpc.import.outcomes.useQuery(
+    { id: importId!, limit: 100 },
+    { enabled: !!importId && isDryRun && job?.status === 'COMPLETED' }
+  )
+
+  const step = !importId
+    ? 'upload'
+    : !job || job.status === 'DRAFT'
+      ? 'mapping'
+      : RUNNING_STATUSES.includes(job.status) ? 'importing' : 'complete'
+  const progress = job?.totalRows ? Math.round((job.processedRows / job.totalRows) * 100) : 0
+
+  const targetOptions = [
+    ...FIELD_OPTIONS,
+    ...(customFields || []).map(field => ({ value: `customData.${field.key}`, label: field.name }))
+  ]
+
+  const setColumn = (header: string, changes: Partial<ColumnMapping>) => {
+    if (!mapping) return
+    setMapping({
+      ...mapping,
+      columns: mapping.columns.map(c => (c.header === header ? { ...c, ...changes } : c))
+    })
+  }
+
+  const setDefault = (target: string, value: string) => {
+    if (!mapping) return
+    setMapping({ ...mapping, defaults: { ...mapping.defaults, [target]: value } })
+  }
+
+  const choosePreset = (presetId: string) => {
+    const preset = presets?.find(p => p.id === presetId)
+    if (!preset || !mapping) return
+    const saved = preset.mapping as unknown as Mapping
+    applyMapping({
+      columns: mapping.columns.map(c => saved.columns.find(s => s.header === c.header) ?? { header: c.header, target: null }),
+      defaults: saved.defaults || {}
+    })
+    setPresetName(preset.name)
+  }
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
     if (!selectedFile) return
 
-    if (!selectedFile.name.endsWith('.csv')) {
-      setErrors(['Please upload a CSV file'])
+    if (!FILE_EXTENSIONS.some(ext => selectedFile.name.toLowerCase().endsWith(ext))) {
+      setErrors(['Please upload a CSV, Excel (.xlsx) or vCard (.vcf) file'])
       return
     }
 
     setFile(selectedFile)
     setErrors([])
+  }
 
-    // Parse CSV
-    Papa.parse(selectedFile, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        const contacts: ParsedContact[] = []
-        const parseErrors: string[] = []
-
-        results.data.forEach((row: any, index) => {
-          // Map CSV columns to contact fields
-          const contact: ParsedContact = {
-            firstName: row['First Name'] || row['first_name'] || row['firstName'] || '',
-            lastName: row['Last Name'] || row['last_name'] || row['lastName'] || '',
-            email: row['Email'] || row['email'] || undefined,
-            phone: row['Phone'] || row['phone'] || undefined,
-            company: row['Company'] || row['company'] || undefined,
-            jobTitle: row['Job Title'] || row['job_title'] || row['jobTitle'] || undefined,
-            leadSource: row['Lead Source'] || row['lead_source'] || row['source'] || undefined
-          }
-
-          // Validate required fields
-          if (!contact.firstName || !contact.lastName) {
-            parseErrors.push(`Row ${index + 1}: Missing first name or last name`)
-          } else {
-            contacts.push(contact)
-          }
-        })
-
-        if (parseErrors.length > 0) {
-          setErrors(parseErrors)
-        }
-
-        setParsedData(contacts)
-        if (contacts.length > 0) {
-          setStep('preview')
-        }
-      },
-      error: (error) => {
-        setErrors([`Failed to parse CSV: ${error.message}`])
-      }
+  const handleUpload = async () => {
+    if (!file) return
+    createMutation.mutate({
+      filename: file.name,
+      data: await readFileAsBase64(file),
+      options
     })
   }
 
-  const handleImport = async () => {
-    setStep('importing')
-    await importMutation.mutateAsync({
-      contacts: parsedData,
-      skipDuplicates: true
+  const handleStart = () => {
+    if (!importId || !mappingInput) return
+    setErrors([])
+    startMutation.mutate({
+      id: importId,
+      mapping: mappingInput,
+      options,
+      ...(presetName.trim() && { saveAsPreset: presetName.trim() })
     })
   }
 
+  const reset = () => {
+    createMutation.reset()
+    selectSheetMutation.reset()
+    setImportId(null)
+    setFile(null)
+    setErrors([])
+    setMapping(null)
+    setValueMapText({})
+    setPresetName('')
+    setOptions({ mode: 'CREATE', matchOn: 'email', dryRun: false })
+  }
+
   const downloadTemplate = () => {
     const csv = 'First Name,Last Name,Email,Phone,Company,Job Title,Lead Source\nJohn,Doe,john@example.com,+1234567890,Acme Inc,CEO,Website\nJane,Smith,jane@example.com,+0987654321,Example Corp,CTO,Referral'
     const blob = new Blob([csv], { type: 'text/csv' })
@@ -116,7 +269,7 @@ export default function ImportPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Import Contacts</h1>
           <p className="text-muted-foreground">
-            Upload a CSV file to bulk import contacts
+            Upload a CSV, Excel or vCard file to bulk import contacts
           </p>
         </div>
 
@@ -124,9 +277,10 @@ export default function ImportPage() {
         {step === 'upload' && (
           <Card>
             <CardHeader>
-              <CardTitle>Upload CSV File</CardTitle>
+              <CardTitle>Upload File</CardTitle>
               <CardDescription>
-                Select a CSV file containing your contacts. Not sure about the format?{' '}
+                Select a CSV file, an Excel workbook (.xlsx) or a vCard export (.vcf, version 3.0 or 4.0)
+                containing your contacts. Not sure about the format?{' '}
                 <button
                   onClick={downloadTemplate}
                   className="text-primary hover:underline inline-flex items-center"
@@ -138,11 +292,11 @@ export default function ImportPage() {
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="space-y-2">
-                <Label htmlFor="csv-file">CSV File</Label>
+                <Label htmlFor="import-file">File</Label>
                 <Input
-                  id="csv-file"
+                  id="import-file"
                   type="file"
-                  accept=".csv"
+                  accept={FILE_EXTENSIONS.join(',')}
                   onChange={handleFileChange}
                 />
               </div>
@@ -167,60 +321,248 @@ export default function ImportPage() {
                   {file ? file.name : 'No file selected'}
                 </p>
               </div>
+
+              <div className="flex justify-end">
+                <Button disabled={!file || createMutation.isLoading} onClick={handleUpload}>
+                  {createMutation.isLoading ? 'Uploading...' : 'Continue'}
+                </Button>
+              </div>
             </CardContent>
           </Card>
         )}
 
-        {/* Preview Step */}
-        {step === 'preview' && (
+        {/* Mapping Step */}
+        {step === 'mapping' && mapping && draft && (
           <Card>
             <CardHeader>
-              <CardTitle>Preview Import</CardTitle>
+              <CardTitle>Map Columns</CardTitle>
               <CardDescription>
-                Review the contacts before importing. Found {parsedData.length} contacts.
+                Choose which contact field each column of {draft.filename} fills.
+                Found {draft.totalRows} rows.
               </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-4">
+            <CardContent className="space-y-6">
+              {draft.sheets.length > 1 && (
+                <div className="flex items-center gap-2">
+                  <Label>Sheet</Label>
+                  <Select
+                    value={draft.sheet ?? undefined}
+                    disabled={selectSheetMutation.isLoading}
+                    onValueChange={(sheet) => {
+                      setErrors([])
+                      selectSheetMutation.mutate({ id: draft.id, sheet })
+                    }}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {draft.sheets.map(sheet => (
+                        <SelectItem key={sheet} value={sheet}>{sheet}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {presets && presets.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <Label>Preset</Label>
+                  <Select
+                    value={draft.presetId ?? undefined}
+                    onValueChange={choosePreset}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder="Apply a saved mapping" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {presets.map(preset => (
+                        <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-1">
+                  <Label>Import mode</Label>
+                  <Select
+                    value={options.mode}
+                    onValueChange={(mode) => setOptions({ ...options, mode: mode as ImportOptions['mode'] })}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MODE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Match existing contacts on</Label>
+                  <Select
+                    value={options.matchOn}
+                    onValueChange={(matchOn) => setOptions({ ...options, matchOn: matchOn as ImportOptions['matchOn'] })}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MATCH_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={options.dryRun}
+                    onChange={(e) => setOptions({ ...options, dryRun: e.target.checked })}
+                  />
+                  Dry run (show what would change without saving)
+                </label>
+              </div>
+
               <div className="max-h-96 overflow-y-auto rounded-md border">
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead>Name</TableHead>
-                      <TableHead>Email</TableHead>
-                      <TableHead>Phone</TableHead>
-                      <TableHead>Company</TableHead>
+                      <TableHead>Column</TableHead>
+                      <TableHead>Sample</TableHead>
+                      <TableHead>Maps to</TableHead>
+                      <TableHead>Value mapping</TableHead>
+                      <TableHead>Split on</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {parsedData.slice(0, 50).map((contact, i) => (
-                      <TableRow key={i}>
-                        <TableCell>{contact.firstName} {contact.lastName}</TableCell>
-                        <TableCell>{contact.email || '-'}</TableCell>
-                        <TableCell>{contact.phone || '-'}</TableCell>
-                        <TableCell>{contact.company || '-'}</TableCell>
+                    {mapping.columns.map(column => (
+                      <TableRow key={column.header}>
+                        <TableCell className="font-medium">{column.header}</TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {draft.sampleRows.map(row => row[column.header]).find(Boolean) || '-'}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={column.target ?? IGNORE}
+                            onValueChange={(value) => setColumn(column.header, { target: value === IGNORE ? null : value })}
+                          >
+                            <SelectTrigger className="w-56">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={IGNORE}>Don&apos;t import</SelectItem>
+                              {targetOptions.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            placeholder="Hot=QUALIFIED; Cold=UNQUALIFIED"
+                            disabled={!column.target}
+                            value={valueMapText[column.header] || ''}
+                            onChange={(e) => setValueMapText({ ...valueMapText, [column.header]: e.target.value })}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            className="w-16"
+                            placeholder=","
+                            disabled={!column.target}
+                            value={column.separator || ''}
+                            onChange={(e) => setColumn(column.header, { separator: e.target.value || undefined })}
+                          />
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
                 </Table>
               </div>
 
-              {parsedData.length > 50 && (
-                <p className="text-sm text-muted-foreground">
-                  Showing first 50 of {parsedData.length} contacts
-                </p>
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Defaults for blank values</h3>
+                <div className="grid grid-cols-2 gap-4">
+                  {DEFAULT_FIELDS.map(field => (
+                    <div key={field.value} className="space-y-1">
+                      <Label htmlFor={`default-${field.value}`}>{field.label}</Label>
+                      <Input
+                        id={`default-${field.value}`}
+                        value={mapping.defaults[field.value] || ''}
+                        onChange={(e) => setDefault(field.value, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Preview</h3>
+                {previewError ? (
+                  <p className="text-sm text-destructive">{previewError.message}</p>
+                ) : (
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Row</TableHead>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Email</TableHead>
+                          <TableHead>Company</TableHead>
+                          <TableHead>Tags</TableHead>
+                          <TableHead>Problems</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {(preview || []).map(row => (
+                          <TableRow key={row.rowNumber}>
+                            <TableCell>{row.rowNumber}</TableCell>
+                            <TableCell>{row.fields.firstName} {row.fields.lastName}</TableCell>
+                            <TableCell>{row.fields.email || '-'}</TableCell>
+                            <TableCell>{row.fields.company || '-'}</TableCell>
+                            <TableCell>{row.tags.join(', ') || '-'}</TableCell>
+                            <TableCell className="text-destructive">{row.errors.join('; ')}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+
+              {errors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>Cannot start import</AlertTitle>
+                  <AlertDescription>{errors.join('; ')}</AlertDescription>
+                </Alert>
               )}
 
-              <div className="flex gap-2 justify-end">
-                <Button variant="outline" onClick={() => {
-                  setStep('upload')
-                  setFile(null)
-                  setParsedData([])
-                }}>
-                  Cancel
-                </Button>
-                <Button onClick={handleImport}>
-                  Import {parsedData.length} Contacts
-                </Button>
+              <div className="flex items-end justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="preset-name">Save mapping as preset (optional)</Label>
+                  <Input
+                    id="preset-name"
+                    className="w-64"
+                    value={presetName}
+                    onChange={(e) => setPresetName(e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => {
+                    cancelMutation.mutate({ id: importId! })
+                    reset()
+                  }}>
+                    Cancel
+                  </Button>
+                  <Button disabled={startMutation.isLoading} onClick={handleStart}>
+                    {options.dryRun ? 'Start Dry Run' : `Import ${draft.totalRows} Contacts`}
+                  </Button>
+                </div>
               </div>
             </CardContent>
           </Card>
@@ -229,32 +571,118 @@ export default function ImportPage() {
         {/* Importing Step */}
         {step === 'importing' && (
           <Card>
-            <CardContent className="flex flex-col items-center justify-center py-12">
-              <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent mb-4" />
+            <CardContent className="flex flex-col items-center justify-center py-12 space-y-4">
+              <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent" />
               <p className="text-lg font-medium">Importing contacts...</p>
-              <p className="text-sm text-muted-foreground">This may take a moment</p>
+              {job?.totalRows ? (
+                <div className="w-full max-w-md space-y-2">
+                  <div className="h-2 rounded-full bg-muted">
+                    <div className="h-2 rounded-full bg-primary transition-all" style={{ width: `${progress}%` }} />
+                  </div>
+                  <p className="text-sm text-muted-foreground text-center">
+                    {job.processedRows} of {job.totalRows} rows &middot; {job.createdCount} created
+                    {job.errorCount > 0 && ` · ${job.errorCount} failed`}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Waiting for the import to start</p>
+              )}
+              <Button
+                variant="outline"
+                disabled={cancelMutation.isLoading}
+                onClick={() => cancelMutation.mutate({ id: importId! })}
+              >
+                Cancel Import
+              </Button>
             </CardContent>
           </Card>
         )}
 
         {/* Complete Step */}
-        {step === 'complete' && importMutation.data && (
+        {step === 'complete' && job && (
           <Card>
             <CardContent className="flex flex-col items-center justify-center py-12 space-y-4">
-              <CheckCircle2 className="h-16 w-16 text-green-500" />
+              {job.status === 'COMPLETED' ? (
+                <CheckCircle2 className="h-16 w-16 text-green-500" />
+              ) : (
+                <XCircle className="h-16 w-16 text-destructive" />
+              )}
               <div className="text-center">
-                <h2 className="text-2xl font-bold">Import Complete!</h2>
+                <h2 className="text-2xl font-bold">
+                  {job.status === 'COMPLETED'
+                    ? isDryRun ? 'Dry Run Complete' : 'Import Complete!'
+                    : job.status === 'CANCELLED' ? 'Import Cancelled' : 'Import Failed'}
+                </h2>
                 <p className="text-muted-foreground mt-2">
-                  Successfully imported {importMutation.data.created} contacts
-                  {importMutation.data.skipped > 0 && ` (skipped ${importMutation.data.skipped} duplicates)`}
+                  {isDryRun ? 'Would create' : 'Created'} {job.createdCount} contacts
+                  {job.updatedCount > 0 && `, ${isDryRun ? 'update' : 'updated'} ${job.updatedCount}`}
+                  {job.skippedCount > 0 && ` (${isDryRun ? 'skip' : 'skipped'} ${job.skippedCount})`}
+                  {job.totalRows !== null && job.processedRows < job.totalRows &&
+                    ` · ${job.totalRows - job.processedRows} rows not processed`}
                 </p>
+                {job.error && (
+                  <p className="text-sm text-destructive mt-2">{job.error}</p>
+                )}
               </div>
+
+              {job.errorCount > 0 && job.errorReportUrl && (
+                <Alert variant="destructive" className="max-w-md">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>{job.errorCount} rows could not be imported</AlertTitle>
+                  <AlertDescription>
+                    <a href={job.errorReportUrl} className="inline-flex items-center hover:underline">
+                      <Download className="h-3 w-3 mr-1" />
+                      Download error report
+                    </a>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {isDryRun && outcomes && outcomes.outcomes.length > 0 && (
+                <div className="w-full max-h-96 overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Action</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {outcomes.outcomes.map(outcome => (
+                        <TableRow key={outcome.id}>
+                          <TableCell>{outcome.rowNumber}</TableCell>
+                          <TableCell>{outcome.action}</TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {outcome.reason ||
+                              ((outcome.changes as { field: string }[] | null) || []).map(c => c.field).join(', ')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
               <div className="flex gap-2">
-                <Button variant="outline" onClick={() => {
-                  setStep('upload')
-                  setFile(null)
-                  setParsedData([])
-                }}>
+                {isDryRun && job.status === 'COMPLETED' && (
+                  <Button
+                    disabled={applyDryRunMutation.isLoading}
+                    onClick={() => applyDryRunMutation.mutate({ id: job.id })}
+                  >
+                    Run Import
+                  </Button>
+                )}
+                {job.status !== 'COMPLETED' && (
+                  <Button
+                    variant="outline"
+                    disabled={retryMutation.isLoading}
+                    onClick={() => retryMutation.mutate({ id: job.id })}
+                  >
+                    Resume Import
+                  </Button>
+                )}
+                <Button variant="outline" onClick={reset}>
                   Import More
                 </Button>
                 <Button onClick={() => router.push('/crm')}>
@@ -0,0 +1,475 @@
+// packages/trpc/src/routers/import.ts
+import { randomBytes } from 'crypto'
+import { z } from 'zod'
+import { router, tenantProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { Prisma, PrismaClient } from '@elevate/database'
+import {
+  importContactSchema,
+  importOptionsSchema,
+  MAX_IMPORT_FILE_BYTES
+} from '../lib/contact-import'
+import {
+  applyImportMapping,
+  ImportMapping,
+  importMappingSchema,
+  prepareImportMapping,
+  suggestImportMapping
+} from '../lib/import-mapping'
+import { importFileTypeFor, parseImportFile, ParsedImportFile, storedImportFile } from '../lib/import-sources'
+import { importFileKeys } from '../lib/privacy'
+
+// Rows shown while choosing a mapping
+const SAMPLE_ROWS = 5
+
+// Rows kept on a draft for mapping previews
+const PREVIEW_ROWS = SAMPLE_ROWS * 2
+
+// Everything but the uploaded file
+const importJobSelect = {
+  id: true,
+  filename: true,
+  fileType: true,
+  sheet: true,
+  status: true,
+  totalRows: true,
+  processedRows: true,
+  options: true,
+  createdCount: true,
+  updatedCount: true,
+  skippedCount: true,
+  errorCount: true,
+  error: true,
+  errorReportToken: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  user: { select: { id: true, firstName: true, lastName: true } }
+} satisfies Prisma.ImportJobSelect
+
+type ImportJobSummary = Prisma.ImportJobGetPayload<{ select: typeof importJobSelect }>
+
+function withErrorReport({ errorReportToken, ...job }: ImportJobSummary) {
+  return {
+    ...job,
+    errorReportUrl: job.errorCount > 0
+      ? `${process.env.APP_URL}/api/imports/${errorReportToken}/errors`
+      : null
+  }
+}
+
+async function findImportJob(prisma: PrismaClient, tenantId: string, id: string) {
+  const job = await prisma.importJob.findFirst({
+    where: { id, tenantId },
+    select: importJobSelect
+  })
+  if (!job) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Import not found' })
+  }
+  return job
+}
+
+async function findDraft(prisma: PrismaClient, tenantId: string, id: string) {
+  const job = await prisma.importJob.findFirst({
+    where: { id, tenantId },
+    select: { id: true, status: true, fileData: true, fileType: true, sheet: true, options: true, sampleRows: true }
+  })
+  if (!job) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Import not found' })
+  }
+  if (job.status !== 'DRAFT') {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Import has already been started' })
+  }
+  return job
+}
+
+// The most recently saved preset that maps only columns present in the file,
+// with the file's other columns left unmapped
+async function matchingPreset(prisma: PrismaClient, tenantId: string, headers: string[]) {
+  const presets = await prisma.importMappingPreset.findMany({
+    where: { tenantId },
+    orderBy: { updatedAt: 'desc' }
+  })
+  for (const preset of presets) {
+    const mapping = importMappingSchema.safeParse(preset.mapping)
+    if (mapping.success && mapping.data.columns.every(c => !c.target || headers.includes(c.header))) {
+      const columns = headers.map(header =>
+        mapping.data.columns.find(c => c.header === header) ?? { header, target: null }
+      )
+      return { id: preset.id, mapping: { ...mapping.data, columns } }
+    }
+  }
+  return null
+}
+
+// What the mapping step needs to know about a parsed file
+async function describeFile(prisma: PrismaClient, tenantId: string, { headers, rows, sheets }: ParsedImportFile) {
+  if (headers.length === 0 || rows.length === 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'The file has no rows to import' })
+  }
+
+  const [customFields, preset] = await Promise.all([
+    prisma.customField.findMany({
+      where: { tenantId },
+      select: { key: true, name: true, type: true }
+    }),
+    matchingPreset(prisma, tenantId, headers)
+  ])
+
+  return {
+    headers,
+    sheets: sheets ?? [],
+    sampleRows: rows.slice(0, SAMPLE_ROWS),
+    suggestedMapping: preset?.mapping ?? suggestImportMapping(headers, customFields),
+    presetId: preset?.id ?? null
+  }
+}
+
+function savePreset(prisma: PrismaClient, tenantId: string, userId: string, name: string, mapping: ImportMapping) {
+  return prisma.importMappingPreset.upsert({
+    where: { tenantId_name: { tenantId, name } },
+    create: { tenantId, name, mapping: mapping as Prisma.InputJsonValue, createdById: userId },
+    update: { mapping: mapping as Prisma.InputJsonValue }
+  })
+}
+
+export const importRouter = router({
+  // Upload a CSV, Excel or vCard file as a draft import. Returns its columns,
+  // a few sample rows and a suggested mapping (from a matching preset when
+  // there is one); workbooks start on their first sheet.
+  create: tenantProcedure
+    .input(z.object({
+      filename: z.string().min(1).max(255),
+      // Base64-encoded file contents
+      data: z.string().min(1),
+      options: importOptionsSchema.default({})
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const fileType = importFileTypeFor(input.filename)
+
+      const fileData = Buffer.from(input.data, 'base64')
+      if (fileData.length > MAX_IMPORT_FILE_BYTES) {
+        throw new TRPCError({ code: 'PAYLOAD_TOO_LARGE', message: 'Import files are limited to 10 MB' })
+      }
+
+      const parsed = await parseImportFile(fileData, fileType)
+      const file = await describeFile(ctx.prisma, ctx.tenantId, parsed)
+
+      const job = await ctx.prisma.importJob.create({
+        data: {
+          tenantId: ctx.tenantId,
+          userId: ctx.user.id,
+          filename: input.filename,
+          fileData,
+          fileKeys: await importFileKeys(fileData, fileType),
+          fileKeysIndexed: true,
+          fileType,
+          sheet: parsed.sheet,
+          options: input.options,
+          headers: parsed.headers,
+          sampleRows: parsed.rows.slice(0, PREVIEW_ROWS),
+          totalRows: parsed.rows.length,
+          errorReportToken: randomBytes(32).toString('hex'),
+          status: 'DRAFT'
+        },
+        select: importJobSelect
+      })
+
+      return { ...withErrorReport(job), ...file }
+    }),
+
+  // Read a different worksheet of a draft workbook
+  selectSheet: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      sheet: z.string().min(1)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const draft = await findDraft(ctx.prisma, ctx.tenantId, input.id)
+      if (draft.fileType !== 'XLSX') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only Excel imports have sheets' })
+      }
+
+      const parsed = await parseImportFile(storedImportFile(draft), draft.fileType, { sheet: input.sheet })
+      const file = await describeFile(ctx.prisma, ctx.tenantId, parsed)
+
+      const job = await ctx.prisma.importJob.update({
+        where: { id: draft.id },
+        data: {
+          sheet: parsed.sheet,
+          headers: parsed.headers,
+          sampleRows: parsed.rows.slice(0, PREVIEW_ROWS),
+          totalRows: parsed.rows.length
+        },
+        select: importJobSelect
+      })
+
+      return { ...withErrorReport(job), ...file }
+    }),
+
+  // How the first rows of a draft come out under a mapping, with any errors.
+  // A dry run shows what each row would do to existing contacts.
+  preview: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      mapping: importMappingSchema,
+      options: importOptionsSchema.optional()
+    }))
+    .query(async ({ ctx, input }) => {
+      const job = await findDraft(ctx.prisma, ctx.tenantId, input.id)
+      const options = input.options ?? importOptionsSchema.parse(job.options)
+      const mapping = await prepareImportMapping(ctx.prisma, ctx.tenantId, input.mapping, options)
+      // Read from the rows cached at upload rather than parsing the file again
+      const rows = (job.sampleRows ?? []) as Record<string, string>[]
+
+      return rows.map((row, i) => {
+        const mapped = applyImportMapping(row, mapping)
+        const contact = importContactSchema.safeParse(mapped.fields)
+        const missingName = options.mode !== 'UPDATE' && contact.success &&
+          (!contact.data.firstName || !contact.data.lastName)
+        return {
+          rowNumber: i + 1,
+          fields: contact.success ? contact.data : mapped.fields,
+          tags: mapped.tags,
+          ownerId: mapped.ownerId ?? null,
+          customData: mapped.customData,
+          errors: [
+            ...mapped.errors,
+            ...(contact.success ? [] : contact.error.issues.map(issue => issue.message)),
+            ...(missingName ? ['Missing first or last name'] : [])
+          ]
+        }
+      })
+    }),
+
+  // Confirm the mapping and queue a draft for the worker
+  start: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      mapping: importMappingSchema,
+      options: importOptionsSchema.optional(),
+      // Save the mapping as a preset under this name
+      saveAsPreset: z.string().trim().min(1).max(100).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const job = await findDraft(ctx.prisma, ctx.tenantId, input.id)
+      const options = input.options ?? importOptionsSchema.parse(job.options)
+      // Reject mappings that can't work now rather than failing in the worker
+      await prepareImportMapping(ctx.prisma, ctx.tenantId, input.mapping, options)
+
+      if (input.saveAsPreset) {
+        await savePreset(ctx.prisma, ctx.tenantId, ctx.user.id, input.saveAsPreset, input.mapping)
+      }
+
+      const queued = await ctx.prisma.importJob.updateMany({
+        where: { id: job.id, status: 'DRAFT' },
+        data: {
+          status: 'PENDING',
+          mapping: input.mapping as Prisma.InputJsonValue,
+          options,
+          sampleRows: Prisma.DbNull
+        }
+      })
+      if (queued.count === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Import has already been started' })
+      }
+
+      return withErrorReport(await findImportJob(ctx.prisma, ctx.tenantId, job.id))
+    }),
+
+  // Saved mapping presets
+  presets: tenantProcedure.query(async ({ ctx }) => {
+    return ctx.prisma.importMappingPreset.findMany({
+      where: { tenantId: ctx.tenantId },
+      orderBy: { name: 'asc' }
+    })
+  }),
+
+  // Create or overwrite a preset by name
+  savePreset: tenantProcedure
+    .input(z.object({
+      name: z.string().trim().min(1).max(100),
+      mapping: importMappingSchema
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await prepareImportMapping(ctx.prisma, ctx.tenantId, input.mapping)
+
+      return savePreset(ctx.prisma, ctx.tenantId, ctx.user.id, input.name, input.mapping)
+    }),
+
+  // Delete a preset
+  deletePreset: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const deleted = await ctx.prisma.importMappingPreset.deleteMany({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (deleted.count === 0) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Preset not found' })
+      }
+
+      return { success: true }
+    }),
+
+  // Recent imports, newest first
+  list: tenantProcedure
+    .input(z.object({
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(20)
+    }))
+    .query(async ({ ctx, input }) => {
+      const jobs = await ctx.prisma.importJob.findMany({
+        where: { tenantId: ctx.tenantId, status: { not: 'DRAFT' } },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        select: importJobSelect
+      })
+
+      let nextCursor: string | undefined
+      if (jobs.length > input.limit) {
+        const nextItem = jobs.pop()
+        nextCursor = nextItem!.id
+      }
+
+      return { imports: jobs.map(withErrorReport), nextCursor }
+    }),
+
+  // Poll an import's progress
+  get: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const job = await findImportJob(ctx.prisma, ctx.tenantId, input.id)
+      return withErrorReport(job)
+    }),
+
+  // Failed rows, in file order
+  errors: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
+      const job = await findImportJob(ctx.prisma, ctx.tenantId, input.id)
+
+      const errors = await ctx.prisma.importRowError.findMany({
+        where: { jobId: job.id },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ rowNumber: 'asc' }, { id: 'asc' }]
+      })
+
+      let nextCursor: string | undefined
+      if (errors.length > input.limit) {
+        const nextItem = errors.pop()
+        nextCursor = nextItem!.id
+      }
+
+      return { errors, nextCursor }
+    }),
+
+  // What each row of a dry run would do, in file order
+  outcomes: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      action: z.enum(['CREATE', 'UPDATE', 'SKIP']).optional(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
+      const job = await findImportJob(ctx.prisma, ctx.tenantId, input.id)
+
+      const outcomes = await ctx.prisma.importRowOutcome.findMany({
+        where: {
+          jobId: job.id,
+          ...(input.action && { action: input.action })
+        },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ rowNumber: 'asc' }, { id: 'asc' }]
+      })
+
+      let nextCursor: string | undefined
+      if (outcomes.length > input.limit) {
+        const nextItem = outcomes.pop()
+        nextCursor = nextItem!.id
+      }
+
+      return { outcomes, nextCursor }
+    }),
+
+  // Run a finished dry run for real, as a new import of the same file
+  applyDryRun: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const dryRun = await ctx.prisma.importJob.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!dryRun) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Import not found' })
+      }
+      const options = importOptionsSchema.parse(dryRun.options)
+      if (!options.dryRun || dryRun.status !== 'COMPLETED') {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only a completed dry run can be applied' })
+      }
+
+      const job = await ctx.prisma.importJob.create({
+        data: {
+          tenantId: ctx.tenantId,
+          userId: ctx.user.id,
+          filename: dryRun.filename,
+          fileData: storedImportFile(dryRun),
+          fileKeys: dryRun.fileKeys,
+          fileKeysIndexed: dryRun.fileKeysIndexed,
+          fileType: dryRun.fileType,
+          sheet: dryRun.sheet,
+          options: { ...options, dryRun: false },
+          mapping: dryRun.mapping as Prisma.InputJsonValue,
+          headers: dryRun.headers as Prisma.InputJsonValue,
+          totalRows: dryRun.totalRows,
+          errorReportToken: randomBytes(32).toString('hex'),
+          status: 'PENDING'
+        },
+        select: importJobSelect
+      })
+
+      return withErrorReport(job)
+    }),
+
+  // Stop an import; the worker finishes its current batch first
+  cancel: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const job = await findImportJob(ctx.prisma, ctx.tenantId, input.id)
+
+      const cancelled = await ctx.prisma.importJob.updateMany({
+        where: { id: job.id, status: { in: ['DRAFT', 'PENDING', 'PROCESSING'] } },
+        data: { status: 'CANCELLED', completedAt: new Date() }
+      })
+      if (cancelled.count === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Import is no longer running' })
+      }
+
+      return withErrorReport(await findImportJob(ctx.prisma, ctx.tenantId, job.id))
+    }),
+
+  // Queue a failed or cancelled import again. It resumes after the rows
+  // already processed, so contacts are not created twice. A draft cancelled
+  // before it was mapped has nothing to run.
+  retry: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const job = await findImportJob(ctx.prisma, ctx.tenantId, input.id)
+
+      const queued = await ctx.prisma.importJob.updateMany({
+        where: { id: job.id, status: { in: ['FAILED', 'CANCELLED'] }, mapping: { not: Prisma.DbNull } },
+        data: { status: 'PENDING', error: null, heartbeatAt: null, completedAt: null }
+      })
+      if (queued.count === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Only failed or cancelled imports that were mapped can be re-run' })
+      }
+
+      return withErrorReport(await findImportJob(ctx.prisma, ctx.tenantId, job.id))
+    })
+})
@@ -0,0 +1,317 @@
+// packages/trpc/src/lib/import-sources.ts
+import Papa from 'papaparse'
+import ExcelJS from 'exceljs'
+import { TRPCError } from '@trpc/server'
+import { splitFullName } from './import-mapping'
+
+// Every source is read into the same shape: column headers and rows of cell
+// text keyed by header, so mapping, validation and reporting don't care where
+// the rows came from.
+
+export const IMPORT_FILE_TYPES = ['CSV', 'XLSX', 'VCARD'] as const
+export type ImportFileType = typeof IMPORT_FILE_TYPES[number]
+
+const EXTENSIONS: Record<string, ImportFileType> = {
+  csv: 'CSV',
+  xlsx: 'XLSX',
+  vcf: 'VCARD',
+  vcard: 'VCARD'
+}
+
+export interface ParsedImportFile {
+  headers: string[]
+  rows: Record<string, string>[]
+  // Worksheet names, for workbooks
+  sheets?: string[]
+  // The worksheet that was read
+  sheet?: string
+}
+
+export function importFileTypeFor(filename: string): ImportFileType {
+  const type = EXTENSIONS[filename.split('.').pop()?.toLowerCase() ?? '']
+  if (!type) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Please upload a CSV, Excel (.xlsx) or vCard (.vcf) file' })
+  }
+  return type
+}
+
+export async function parseImportFile(
+  content: Buffer,
+  type: ImportFileType,
+  options: { sheet?: string | null } = {}
+): Promise<ParsedImportFile> {
+  switch (type) {
+    case 'CSV':
+      return parseCsvFile(content)
+    case 'XLSX':
+      return parseXlsxFile(content, options.sheet)
+    case 'VCARD':
+      return parseVCardFile(content)
+  }
+}
+
+// Every sheet of a file; files other than workbooks have just the one
+export async function parseEverySheet(content: Buffer, type: ImportFileType): Promise<ParsedImportFile[]> {
+  const first = await parseImportFile(content, type)
+  return [first, ...await Promise.all(
+    (first.sheets ?? []).filter(sheet => sheet !== first.sheet).map(sheet => parseImportFile(content, type, { sheet }))
+  )]
+}
+
+// The uploaded file of an import; privacy erasure can remove it
+export function storedImportFile(job: { fileData: Uint8Array | null }): Buffer {
+  if (!job.fileData) {
+    throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'The uploaded file was erased. Upload it again.' })
+  }
+  return Buffer.from(job.fileData)
+}
+
+function decodeText(content: Buffer): string {
+  return content.toString('utf8').replace(/^\uFEFF/, '')
+}
+
+export function parseCsvFile(content: Buffer): ParsedImportFile {
+  const result = Papa.parse<Record<string, string>>(decodeText(content), {
+    header: true,
+    skipEmptyLines: 'greedy'
+  })
+  return { headers: result.meta.fields ?? [], rows: result.data }
+}
+
+// ---------------------------------------------------------------------------
+// Excel
+// ---------------------------------------------------------------------------
+
+function cellText(cell: ExcelJS.Cell): string {
+  const value = cell.value
+  if (value instanceof Date) {
+    // Date-only cells are stored as midnight UTC
+    const iso = value.toISOString()
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso
+  }
+  return (cell.text ?? '').trim()
+}
+
+// Blank headers get a column name and repeated ones a suffix, as the CSV
+// parser does, so every cell stays addressable
+function uniqueHeaders(headers: string[]): string[] {
+  const seen = new Map<string, number>()
+  return headers.map((header, i) => {
+    const base = header || `Column ${i + 1}`
+    const count = seen.get(base) ?? 0
+    seen.set(base, count + 1)
+    return count === 0 ? base : `${base}_${count}`
+  })
+}
+
+// The first non-empty row of the sheet holds the headers
+async function parseXlsxFile(content: Buffer, sheet?: string | null): Promise<ParsedImportFile> {
+  const workbook = new ExcelJS.Workbook()
+  try {
+    await workbook.xlsx.load(content)
+  } catch {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'The file is not a readable Excel workbook' })
+  }
+
+  const sheets = workbook.worksheets.map(worksheet => worksheet.name)
+  const worksheet = sheet ? workbook.getWorksheet(sheet) : workbook.worksheets[0]
+  if (!worksheet) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: sheet ? `Sheet "${sheet}" not found` : 'The workbook has no sheets' })
+  }
+
+  const cells: string[][] = []
+  worksheet.eachRow({ includeEmpty: false }, row => {
+    const values: string[] = []
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      values[column - 1] = cellText(cell)
+    })
+    const filled = Array.from(values, value => value ?? '')
+    if (filled.some(Boolean)) cells.push(filled)
+  })
+
+  const [headerRow = [], ...dataRows] = cells
+  // Rows can be wider than the header; a spread would overflow the stack on large sheets
+  const width = dataRows.reduce((widest, row) => Math.max(widest, row.length), headerRow.length)
+  const headers = uniqueHeaders(Array.from({ length: width }, (_, i) => headerRow[i] ?? ''))
+
+  return {
+    headers,
+    rows: dataRows.map(row => Object.fromEntries(headers.map((header, i) => [header, row[i] ?? '']))),
+    sheets,
+    sheet: worksheet.name
+  }
+}
+
+// ---------------------------------------------------------------------------
+// vCard (RFC 2426 / RFC 6350)
+// ---------------------------------------------------------------------------
+
+// Columns produced for vCards, named like the standard import fields so the
+// suggested mapping picks them up
+const VCARD_HEADERS = [
+  'External ID', 'Full Name', 'First Name', 'Last Name', 'Email', 'Phone', 'Mobile',
+  'Company', 'Job Title', 'Address', 'City', 'State', 'Zip Code', 'Country', 'Website', 'Tags'
+] as const
+
+type VCardHeader = typeof VCARD_HEADERS[number]
+
+interface VCardProperty {
+  name: string
+  // Lowercased TYPE values, including 2.1-style bare parameters
+  types: string[]
+  preferred: boolean
+  value: string
+}
+
+// Split on a separator that isn't escaped with a backslash
+function splitEscaped(value: string, separator: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '\\' && i + 1 < value.length) {
+      current += value[i] + value[i + 1]
+      i++
+    } else if (value[i] === separator) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += value[i]
+    }
+  }
+  parts.push(current)
+  return parts
+}
+
+function unescapeValue(value: string): string {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char)).trim()
+}
+
+function parseProperty(line: string): VCardProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false
+  let colon = -1
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes
+    if (line[i] === ':' && !inQuotes) {
+      colon = i
+      break
+    }
+  }
+  if (colon === -1) return null
+
+  const [rawName, ...params] = splitEscaped(line.slice(0, colon), ';')
+  // Drop the group prefix ("item1.EMAIL")
+  const name = rawName.split('.').pop()!.toUpperCase()
+
+  const types: string[] = []
+  let preferred = false
+  for (const param of params) {
+    const [key, rawValue] = param.includes('=') ? param.split(/=(.*)/s) : ['TYPE', param]
+    const values = rawValue.replace(/"/g, '').split(',').map(v => v.trim().toLowerCase())
+    if (key.toUpperCase() === 'TYPE') types.push(...values)
+    if (key.toUpperCase() === 'PREF' || values.includes('pref')) preferred = true
+  }
+
+  return { name, types, preferred, value: line.slice(colon + 1) }
+}
+
+// Preferred entry first, otherwise file order
+function pick(properties: VCardProperty[]): VCardProperty | undefined {
+  return properties.find(p => p.preferred) ?? properties[0]
+}
+
+function telValue(value: string): string {
+  return unescapeValue(value.replace(/^tel:/i, ''))
+}
+
+function vcardRow(properties: VCardProperty[]): Partial<Record<VCardHeader, string>> {
+  const all = (name: string) => properties.filter(p => p.name === name)
+  const first = (name: string) => pick(all(name))
+  const row: Partial<Record<VCardHeader, string>> = {}
+
+  const uid = first('UID')
+  if (uid) row['External ID'] = unescapeValue(uid.value).replace(/^urn:uuid:/i, '')
+
+  const fn = first('FN')
+  if (fn) row['Full Name'] = unescapeValue(fn.value)
+  const n = first('N')
+  if (n) {
+    const [family = '', given = '', additional = ''] = splitEscaped(n.value, ';').map(unescapeValue)
+    row['Last Name'] = family
+    row['First Name'] = [given, additional].filter(Boolean).join(' ')
+  }
+  // N is optional in 4.0
+  if (!row['First Name'] && !row['Last Name'] && row['Full Name']) {
+    const { firstName, lastName } = splitFullName(row['Full Name'])
+    row['First Name'] = firstName
+    row['Last Name'] = lastName
+  }
+
+  const email = first('EMAIL')
+  if (email) row['Email'] = unescapeValue(email.value)
+
+  const phones = all('TEL')
+  const mobile = pick(phones.filter(p => p.types.includes('cell') || p.types.includes('mobile')))
+  const phone = pick(phones.filter(p => p !== mobile && !p.types.includes('fax')))
+  if (mobile) row['Mobile'] = telValue(mobile.value)
+  if (phone) row['Phone'] = telValue(phone.value)
+
+  const org = first('ORG')
+  if (org) row['Company'] = unescapeValue(splitEscaped(org.value, ';')[0])
+  const title = first('TITLE')
+  if (title) row['Job Title'] = unescapeValue(title.value)
+
+  const adr = first('ADR')
+  if (adr) {
+    // PO box; extended address; street; locality; region; postal code; country
+    const [, extended = '', street = '', city = '', region = '', code = '', country = ''] =
+      splitEscaped(adr.value, ';').map(unescapeValue)
+    row['Address'] = [street, extended].filter(Boolean).join(', ').replace(/\n/g, ', ')
+    row['City'] = city
+    row['State'] = region
+    row['Zip Code'] = code
+    row['Country'] = country
+  }
+
+  const url = first('URL')
+  if (url) row['Website'] = unescapeValue(url.value)
+
+  const categories = all('CATEGORIES').flatMap(p => splitEscaped(p.value, ',').map(unescapeValue))
+  if (categories.length > 0) row['Tags'] = categories.filter(Boolean).join(',')
+
+  return row
+}
+
+function parseVCardFile(content: Buffer): ParsedImportFile {
+  // Unfold continuation lines (a line break followed by a space or tab)
+  const lines = decodeText(content).replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n')
+
+  const cards: Partial<Record<VCardHeader, string>>[] = []
+  let current: VCardProperty[] | null = null
+  for (const line of lines) {
+    const upper = line.trim().toUpperCase()
+    if (upper === 'BEGIN:VCARD') {
+      current = []
+    } else if (upper === 'END:VCARD' && current) {
+      const version = current.find(p => p.name === 'VERSION')?.value.trim()
+      if (version !== '3.0' && version !== '4.0') {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `vCard version ${version ?? '(missing)'} is not supported; export as vCard 3.0 or 4.0`
+        })
+      }
+      cards.push(vcardRow(current))
+      current = null
+    } else if (current && line.trim()) {
+      const property = parseProperty(line)
+      if (property) current.push(property)
+    }
+  }
+
+  // Only columns that some card fills in
+  const headers = VCARD_HEADERS.filter(header => cards.some(card => card[header]))
+  return {
+    headers,
+    rows: cards.map(card => Object.fromEntries(headers.map(header => [header, card[header] ?? ''])))
+  }
+}
@@ -0,0 +1,164 @@
+// packages/trpc/src/lib/lead-assignment.ts
+import { z } from 'zod'
+import { PrismaClient } from '@elevate/database'
+
+export const ASSIGNMENT_STRATEGIES = ['SPECIFIC_USER', 'ROUND_ROBIN', 'WEIGHTED'] as const
+
+export const assignmentConditionSchema = z.object({
+  // leadSource, country, state, city, company, jobTitle, `tag`, or `customData.<key>`
+  field: z.string().min(1),
+  operator: z.enum(['equals', 'notEquals', 'in', 'contains', 'isNotEmpty']),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional()
+})
+
+export type AssignmentCondition = z.infer<typeof assignmentConditionSchema>
+
+// A rule matches when every condition holds; no conditions matches everyone
+export const assignmentConditionsSchema = z.array(assignmentConditionSchema).max(20)
+
+const CONTACT_FIELDS = ['leadSource', 'country', 'state', 'city', 'company', 'jobTitle'] as const
+
+interface AssignableContact {
+  id: string
+  tenantId: string
+  assignedToId: string | null
+  leadSource: string | null
+  country: string | null
+  state: string | null
+  city: string | null
+  company: string | null
+  jobTitle: string | null
+  customData: unknown
+  tags: Array<{ tagId: string }>
+}
+
+function normalize(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value
+}
+
+function matchesCondition(contact: AssignableContact, condition: AssignmentCondition): boolean {
+  // Tags compare tag IDs; the contact matches if any of its tags satisfies the condition
+  if (condition.field === 'tag') {
+    const tagIds = contact.tags.map(t => t.tagId)
+    switch (condition.operator) {
+      case 'equals':
+        return tagIds.includes(String(condition.value))
+      case 'notEquals':
+        return !tagIds.includes(String(condition.value))
+      case 'in':
+        return Array.isArray(condition.value) && condition.value.some(id => tagIds.includes(id))
+      case 'isNotEmpty':
+        return tagIds.length > 0
+      default:
+        return false
+    }
+  }
+
+  let actual: unknown
+  if (condition.field.startsWith('customData.')) {
+    actual = ((contact.customData || {}) as Record<string, unknown>)[condition.field.slice('customData.'.length)]
+  } else if ((CONTACT_FIELDS as readonly string[]).includes(condition.field)) {
+    actual = contact[condition.field as typeof CONTACT_FIELDS[number]]
+  } else {
+    return false
+  }
+
+  switch (condition.operator) {
+    case 'equals':
+      return normalize(actual) === normalize(condition.value)
+    case 'notEquals':
+      return normalize(actual) !== normalize(condition.value)
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.map(normalize).includes(normalize(actual))
+    case 'contains':
+      return typeof actual === 'string' && actual.toLowerCase().includes(String(condition.value).toLowerCase())
+    case 'isNotEmpty':
+      return actual !== null && actual !== undefined && actual !== ''
+  }
+}
+
+export interface AssignmentResult {
+  userId: string
+  ruleId: string
+  ruleName: string
+}
+
+// Route an unassigned contact through the tenant's active rules in priority
+// order. The first matching rule with an active member wins; rules whose
+// members are all inactive fall through to the next rule.
+export async function assignContact(
+  prisma: PrismaClient,
+  tenantId: string,
+  contactId: string,
+  actorUserId?: string
+): Promise<AssignmentResult | null> {
+  const [contact, rules] = await Promise.all([
+    prisma.contact.findFirst({
+      where: { id: contactId, tenantId, deletedAt: null },
+      include: { tags: { select: { tagId: true } } }
+    }),
+    prisma.assignmentRule.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      include: {
+        members: {
+          where: { user: { status: 'ACTIVE' } },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    })
+  ])
+  if (!contact || contact.assignedToId) return null
+
+  for (const rule of rules) {
+    const conditions = assignmentConditionsSchema.safeParse(rule.conditions)
+    if (!conditions.success || !conditions.data.every(c => matchesCondition(contact, c))) continue
+    if (rule.members.length === 0) continue
+
+    let member = rule.members[0]
+    if (rule.strategy === 'ROUND_ROBIN') {
+      // Longest since last assignment; never-assigned members go first
+      member = rule.members.reduce((best, m) => {
+        if (!best.lastAssignedAt) return best
+        if (!m.lastAssignedAt) return m
+        return m.lastAssignedAt < best.lastAssignedAt ? m : best
+      })
+    } else if (rule.strategy === 'WEIGHTED') {
+      // Smooth weighted distribution: lowest share of assignments relative to weight
+      member = rule.members.reduce((best, m) =>
+        m.assignedCount / m.weight < best.assignedCount / best.weight ? m : best
+      )
+    }
+
+    // Only assign if the contact is still unassigned, so concurrent runs can't double-assign
+    const assigned = await prisma.$transaction(async (tx) => {
+      const updated = await tx.contact.updateMany({
+        where: { id: contact.id, assignedToId: null },
+        data: { assignedToId: member.userId }
+      })
+      if (updated.count === 0) return false
+
+      await tx.assignmentRuleMember.update({
+        where: { id: member.id },
+        data: { assignedCount: { increment: 1 }, lastAssignedAt: new Date() }
+      })
+
+      await tx.activity.create({
+        data: {
+          tenantId,
+          contactId: contact.id,
+          userId: actorUserId,
+          type: 'SYSTEM',
+          title: 'Contact assigned',
+          description: `Assigned by rule "${rule.name}"`,
+          metadata: { ruleId: rule.id, strategy: rule.strategy, assignedToId: member.userId }
+        }
+      })
+      return true
+    })
+
+    return assigned ? { userId: member.userId, ruleId: rule.id, ruleName: rule.name } : null
+  }
+
+  return null
+}
@@ -0,0 +1,64 @@
+// packages/worker/src/services/lead-scorer.ts
+import { PrismaClient } from '@elevate/database'
+import { recalculateLeadScore } from '@elevate/trpc/lib/lead-scoring'
+
+const prisma = new PrismaClient()
+
+// Scores older than this are refreshed so time-based decay keeps applying
+const RESCORE_AFTER_MS = 24 * 60 * 60 * 1000
+
+// Contacts loaded per query
+const BATCH_SIZE = 200
+
+// A run stops after this long and the next scheduled run carries on
+const MAX_RUN_MS = 50 * 1000
+
+export class LeadScorer {
+  private running = false
+
+  // Rescore contacts that were never scored, invalidated by a rule change, or
+  // are stale, batch after batch until none are left
+  async processQueue(): Promise<void> {
+    if (this.running) return
+    this.running = true
+    try {
+      await this.rescoreQueued()
+    } finally {
+      this.running = false
+    }
+  }
+
+  private async rescoreQueued(): Promise<void> {
+    const deadline = Date.now() + MAX_RUN_MS
+    const staleBefore = new Date(Date.now() - RESCORE_AFTER_MS)
+    // Contacts that failed keep their queued state; skip them for the rest of the run
+    const failed: string[] = []
+
+    while (Date.now() < deadline) {
+      const contacts = await prisma.contact.findMany({
+        where: {
+          deletedAt: null,
+          id: { notIn: failed },
+          OR: [
+            { leadScoreUpdatedAt: null },
+            { leadScoreUpdatedAt: { lt: staleBefore } }
+          ]
+        },
+        select: { id: true, tenantId: true },
+        take: BATCH_SIZE,
+        orderBy: { leadScoreUpdatedAt: { sort: 'asc', nulls: 'first' } }
+      })
+
+      for (const contact of contacts) {
+        try {
+          await recalculateLeadScore(prisma, contact.tenantId, contact.id)
+        } catch (error) {
+          console.error(`Error scoring contact ${contact.id}:`, error)
+          failed.push(contact.id)
+        }
+      }
+
+      if (contacts.length < BATCH_SIZE) return
+    }
+  }
+}
@@ -0,0 +1,250 @@
+// packages/trpc/src/lib/lead-scoring.ts
+import { z } from 'zod'
+import { Prisma, PrismaClient } from '@elevate/database'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const eventConfigSchema = z.object({
+  // Only count events from the last N days (all time if omitted)
+  withinDays: z.number().int().min(1).optional()
+})
+
+export const leadScoringRuleSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('FIELD_VALUE'),
+    config: z.object({
+      // Contact column, or `customData.<key>` for custom fields
+      field: z.string().min(1),
+      operator: z.enum(['equals', 'notEquals', 'contains', 'in', 'isNotEmpty']),
+      value: z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]).optional()
+    })
+  }),
+  z.object({
+    type: z.literal('TAG'),
+    config: z.object({ tagId: z.string() })
+  }),
+  z.object({ type: z.literal('EMAIL_OPENED'), config: eventConfigSchema }),
+  z.object({ type: z.literal('EMAIL_CLICKED'), config: eventConfigSchema }),
+  z.object({ type: z.literal('SMS_REPLIED'), config: eventConfigSchema }),
+  z.object({ type: z.literal('DEAL_CREATED'), config: eventConfigSchema }),
+  z.object({
+    type: z.literal('INACTIVITY_DECAY'),
+    // Apply `points` (usually negative) for every `everyDays` without activity past `afterDays`
+    config: z.object({
+      afterDays: z.number().int().min(0),
+      everyDays: z.number().int().min(1)
+    })
+  })
+])
+
+export type LeadScoringRuleDefinition = z.infer<typeof leadScoringRuleSchema>
+
+export interface LeadScoreBreakdownItem {
+  ruleId: string
+  ruleName: string
+  type: LeadScoringRuleDefinition['type']
+  points: number
+  detail: string
+}
+
+export interface LeadScoreResult {
+  score: number
+  breakdown: LeadScoreBreakdownItem[]
+}
+
+function fieldValue(contact: Record<string, unknown>, field: string): unknown {
+  if (field.startsWith('customData.')) {
+    const customData = (contact.customData || {}) as Record<string, unknown>
+    return customData[field.slice('customData.'.length)]
+  }
+  return contact[field]
+}
+
+function matchesField(
+  contact: Record<string, unknown>,
+  config: Extract<LeadScoringRuleDefinition, { type: 'FIELD_VALUE' }>['config']
+): boolean {
+  const actual = fieldValue(contact, config.field)
+  const normalize = (v: unknown) => (typeof v === 'string' ? v.toLowerCase() : v)
+
+  switch (config.operator) {
+    case 'equals':
+      return normalize(actual) === normalize(config.value)
+    case 'notEquals':
+      return normalize(actual) !== normalize(config.value)
+    case 'contains':
+      return typeof actual === 'string' && actual.toLowerCase().includes(String(config.value).toLowerCase())
+    case 'in':
+      return Array.isArray(config.value) && config.value.map(normalize).includes(normalize(actual))
+    case 'isNotEmpty':
+      return actual !== null && actual !== undefined && actual !== ''
+  }
+}
+
+// Compute a contact's score from the tenant's active rules without persisting it
+export async function calculateLeadScore(
+  prisma: PrismaClient,
+  tenantId: string,
+  contactId: string
+): Promise<LeadScoreResult> {
+  const [contact, rules] = await Promise.all([
+    prisma.contact.findFirst({
+      where: { id: contactId, tenantId },
+      include: { tags: { select: { tagId: true } } }
+    }),
+    prisma.leadScoringRule.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: { createdAt: 'asc' }
+    })
+  ])
+  if (!contact) return { score: 0, breakdown: [] }
+
+  const since = (withinDays?: number) =>
+    withinDays ? { gte: new Date(Date.now() - withinDays * DAY_MS) } : undefined
+
+  const breakdown: LeadScoreBreakdownItem[] = []
+
+  for (const rule of rules) {
+    const parsed = leadScoringRuleSchema.safeParse({ type: rule.type, config: rule.config })
+    if (!parsed.success) continue
+    const definition = parsed.data
+
+    // Event rules award points per occurrence, capped by maxPoints
+    const perEvent = (count: number, label: string) => {
+      const raw = count * rule.points
+      const points = rule.maxPoints !== null ? Math.sign(raw) * Math.min(Math.abs(raw), rule.maxPoints) : raw
+      if (count > 0) {
+        breakdown.push({ ruleId: rule.id, ruleName: rule.name, type: definition.type, points, detail: `${count} ${label}` })
+      }
+    }
+
+    switch (definition.type) {
+      case 'FIELD_VALUE':
+        if (matchesField(contact as unknown as Record<string, unknown>, definition.config)) {
+          breakdown.push({
+            ruleId: rule.id,
+            ruleName: rule.name,
+            type: definition.type,
+            points: rule.points,
+            detail: `${definition.config.field} ${definition.config.operator} ${definition.config.value ?? ''}`.trim()
+          })
+        }
+        break
+
+      case 'TAG':
+        if (contact.tags.some(t => t.tagId === definition.config.tagId)) {
+          breakdown.push({ ruleId: rule.id, ruleName: rule.name, type: definition.type, points: rule.points, detail: 'Has tag' })
+        }
+        break
+
+      case 'EMAIL_OPENED':
+        perEvent(await prisma.email.count({
+          where: { contactId, openedAt: { not: null, ...since(definition.config.withinDays) } }
+        }), 'email(s) opened')
+        break
+
+      case 'EMAIL_CLICKED':
+        perEvent(await prisma.email.count({
+          where: { contactId, clickedAt: { not: null, ...since(definition.config.withinDays) } }
+        }), 'email(s) clicked')
+        break
+
+      case 'SMS_REPLIED':
+        perEvent(await prisma.smsMessage.count({
+          where: { contactId, direction: 'INBOUND', createdAt: since(definition.config.withinDays) }
+        }), 'SMS repl(ies)')
+        break
+
+      case 'DEAL_CREATED':
+        perEvent(await prisma.deal.count({
+          where: { contactId, deletedAt: null, createdAt: since(definition.config.withinDays) }
+        }), 'deal(s) created')
+        break
+
+      case 'INACTIVITY_DECAY': {
+        const lastActivity = await prisma.activity.findFirst({
+          where: { contactId, type: { not: 'SYSTEM' } },
+          orderBy: { createdAt: 'desc' },
+          select: { createdAt: true }
+        })
+        const idleDays = Math.floor(
+          (Date.now() - (lastActivity?.createdAt ?? contact.createdAt).getTime()) / DAY_MS
+        )
+        const periods = Math.floor((idleDays - definition.config.afterDays) / definition.config.everyDays)
+        if (periods > 0) {
+          perEvent(periods, `period(s) of ${definition.config.everyDays} days inactive (idle ${idleDays} days)`)
+        }
+        break
+      }
+    }
+  }
+
+  const total = breakdown.reduce((sum, item) => sum + item.points, 0)
+
+  return { score: Math.max(0, total), breakdown }
+}
+
+// Contacts a rule can award points to, or null when it can apply to any
+// contact. Event windows are ignored, so this may include a few contacts the
+// rule no longer counts.
+function scoredByRule(definition: LeadScoringRuleDefinition): Prisma.ContactWhereInput | null {
+  switch (definition.type) {
+    case 'TAG':
+      return { tags: { some: { tagId: definition.config.tagId } } }
+    case 'EMAIL_OPENED':
+      return { emails: { some: { openedAt: { not: null } } } }
+    case 'EMAIL_CLICKED':
+      return { emails: { some: { clickedAt: { not: null } } } }
+    case 'SMS_REPLIED':
+      return { smsMessages: { some: { direction: 'INBOUND' } } }
+    case 'DEAL_CREATED':
+      return { deals: { some: { deletedAt: null } } }
+    case 'FIELD_VALUE':
+    case 'INACTIVITY_DECAY':
+      return null
+  }
+}
+
+// Queue contacts for rescoring by the worker after a rule changes: those the
+// rule scored before (from their stored breakdown) and those the rule, as it
+// now stands, can score. `definition` is omitted for deleted or inactive rules.
+export async function queueLeadRescoring(
+  prisma: PrismaClient,
+  tenantId: string,
+  rule: { id: string; definition?: LeadScoringRuleDefinition }
+): Promise<void> {
+  const scope = rule.definition ? scoredByRule(rule.definition) : { id: { in: [] } }
+
+  await prisma.contact.updateMany({
+    where: {
+      tenantId,
+      ...(scope && {
+        OR: [
+          { leadScoreBreakdown: { array_contains: [{ ruleId: rule.id }] } },
+          scope
+        ]
+      })
+    },
+    data: { leadScoreUpdatedAt: null }
+  })
+}
+
+// Recompute and store a contact's score and its breakdown
+export async function recalculateLeadScore(
+  prisma: PrismaClient,
+  tenantId: string,
+  contactId: string
+): Promise<LeadScoreResult> {
+  const result = await calculateLeadScore(prisma, tenantId, contactId)
+
+  await prisma.contact.updateMany({
+    where: { id: contactId, tenantId },
+    data: {
+      leadScore: result.score,
+      leadScoreBreakdown: result.breakdown as unknown as Prisma.InputJsonValue,
+      leadScoreUpdatedAt: new Date()
+    }
+  })
+
+  return result
+}
@@ -0,0 +1,167 @@
+// packages/trpc/src/lib/list-query.ts
+import { z } from 'zod'
+import { Prisma } from '@elevate/database'
+import { TRPCError } from '@trpc/server'
+
+// Shared sort and pagination contract for list procedures. Each list
+// whitelists named sorts that map to one or more columns; `id` is always the
+// final tiebreaker, so keyset cursors stay stable on non-unique sort keys.
+
+export type SortDirection = 'asc' | 'desc'
+
+// Columns need lt/gt filters, so enums can't be sort columns
+export interface SortColumn {
+  field: string
+  // Nullable columns sort nulls last in both directions
+  nullable?: boolean
+  // Sorts against the list's direction, e.g. newest first within ascending due dates
+  reverse?: boolean
+}
+
+export interface SortOption {
+  columns: SortColumn[]
+  defaultDirection: SortDirection
+}
+
+export const listPageSchema = z.object({
+  sortDirection: z.enum(['asc', 'desc']).optional(),
+  cursor: z.string().optional(),
+  limit: z.number().min(1).max(100).default(50),
+  // Counting large tables isn't free, so totals are opt-in
+  includeTotal: z.boolean().default(false)
+})
+
+type CursorValue = string | number | boolean | null | { d: string } | { n: string }
+
+interface ListCursor {
+  sort: string
+  direction: SortDirection
+  values: CursorValue[]
+  id: string
+}
+
+function serializeValue(value: unknown): CursorValue {
+  if (value instanceof Date) return { d: value.toISOString() }
+  if (value instanceof Prisma.Decimal) return { n: value.toString() }
+  if (value === undefined) return null
+  return value as CursorValue
+}
+
+function deserializeValue(value: CursorValue): unknown {
+  if (value && typeof value === 'object') {
+    return 'd' in value ? new Date(value.d) : value.n
+  }
+  return value
+}
+
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(value: string, sort: string, direction: SortDirection, columnCount: number): ListCursor {
+  let cursor: ListCursor
+  try {
+    cursor = JSON.parse(Buffer.from(value, 'base64url').toString())
+  } catch {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Invalid cursor' })
+  }
+  if (
+    cursor?.sort !== sort ||
+    cursor.direction !== direction ||
+    !Array.isArray(cursor.values) ||
+    cursor.values.length !== columnCount ||
+    typeof cursor.id !== 'string'
+  ) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cursor does not match the requested sort' })
+  }
+  return cursor
+}
+
+function columnDirection(column: SortColumn, direction: SortDirection): SortDirection {
+  if (!column.reverse) return direction
+  return direction === 'asc' ? 'desc' : 'asc'
+}
+
+function orderByFor(option: SortOption, direction: SortDirection) {
+  return [
+    ...option.columns.map(c => {
+      const sort = columnDirection(c, direction)
+      return { [c.field]: c.nullable ? { sort, nulls: 'last' } : sort }
+    }),
+    { id: direction }
+  ]
+}
+
+// Rows strictly after the cursor in (columns..., id) order with nulls last
+function keysetWhere(option: SortOption, direction: SortDirection, cursor: ListCursor) {
+  const columns: SortColumn[] = [...option.columns, { field: 'id' }]
+  const values = [...cursor.values.map(deserializeValue), cursor.id]
+
+  const clauses: Record<string, unknown>[] = []
+  for (let i = 0; i < columns.length; i++) {
+    const column = columns[i]
+    const value = values[i]
+    const op = columnDirection(column, direction) === 'asc' ? 'gt' : 'lt'
+    // Nothing sorts after null within a column (nulls are last)
+    if (value !== null) {
+      const equalPrefix = columns.slice(0, i).map((c, j) => ({ [c.field]: values[j] }))
+      const after = column.nullable
+        ? { OR: [{ [column.field]: { [op]: value } }, { [column.field]: null }] }
+        : { [column.field]: { [op]: value } }
+      clauses.push({ AND: [...equalPrefix, after] })
+    }
+  }
+
+  return { OR: clauses }
+}
+
+export interface ListPageArgs {
+  where: Record<string, unknown>
+  orderBy: Record<string, unknown>[]
+  take: number
+}
+
+// Fetch one page. `findMany` receives the keyset condition to AND with the
+// list's own filters, plus the ordering and page size to use.
+export async function paginateList<T extends { id: string }>(options: {
+  sorts: Record<string, SortOption>
+  sortBy: string
+  sortDirection?: SortDirection
+  cursor?: string
+  limit: number
+  includeTotal?: boolean
+  findMany: (args: ListPageArgs) => Promise<T[]>
+  count: () => Promise<number>
+}): Promise<{ items: T[]; nextCursor?: string; total?: number }> {
+  const option = options.sorts[options.sortBy]
+  if (!option) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Cannot sort by "${options.sortBy}"` })
+  }
+  const direction = options.sortDirection ?? option.defaultDirection
+  const cursor = options.cursor
+    ? decodeCursor(options.cursor, options.sortBy, direction, option.columns.length)
+    : null
+
+  const [rows, total] = await Promise.all([
+    options.findMany({
+      where: cursor ? keysetWhere(option, direction, cursor) : {},
+      orderBy: orderByFor(option, direction),
+      take: options.limit + 1
+    }),
+    options.includeTotal ? options.count() : Promise.resolve(undefined)
+  ])
+
+  let nextCursor: string | undefined
+  if (rows.length > options.limit) {
+    rows.pop()
+    const last = rows[rows.length - 1] as T & Record<string, unknown>
+    nextCursor = encodeCursor({
+      sort: options.sortBy,
+      direction,
+      values: option.columns.map(c => serializeValue(last[c.field])),
+      id: last.id
+    })
+  }
+
+  return { items: rows, nextCursor, total }
+}
@@ -0,0 +1,184 @@
+// packages/trpc/src/routers/note.ts
+import { z } from 'zod'
+import { router, tenantProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { Prisma, PrismaClient } from '@elevate/database'
+import {
+  createNote,
+  extractMentionIds,
+  noteInclude,
+  notePreview,
+  NOTE_SORTS,
+  notifyMentions
+} from '../lib/notes'
+import { paginateList } from '../lib/list-query'
+
+// Markdown source; rendered by the client
+const noteContentSchema = z.string().trim().min(1).max(50000)
+
+async function findNote(prisma: PrismaClient, tenantId: string, id: string) {
+  const note = await prisma.note.findFirst({
+    where: { id, tenantId }
+  })
+  if (!note) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Note not found' })
+  }
+  return note
+}
+
+export const noteRouter = router({
+  // Notes on a contact (including notes on its deals) or on a single deal, pinned first
+  list: tenantProcedure
+    .input(z.object({
+      contactId: z.string().optional(),
+      dealId: z.string().optional(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(20)
+    }))
+    .query(async ({ ctx, input }) => {
+      if (!input.contactId && !input.dealId) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Provide a contact or a deal' })
+      }
+
+      const where: Prisma.NoteWhereInput = {
+        tenantId: ctx.tenantId,
+        ...(input.contactId && { contactId: input.contactId }),
+        ...(input.dealId && { dealId: input.dealId })
+      }
+
+      // Keyset pages, as pinnedAt is mostly null and can't anchor an ID cursor
+      const { items: notes, nextCursor } = await paginateList({
+        sorts: NOTE_SORTS,
+        sortBy: 'pinned',
+        cursor: input.cursor,
+        limit: input.limit,
+        findMany: page => ctx.prisma.note.findMany({
+          where: { AND: [where, page.where as Prisma.NoteWhereInput] },
+          take: page.take,
+          orderBy: page.orderBy as Prisma.NoteOrderByWithRelationInput[],
+          include: {
+            ...noteInclude,
+            _count: { select: { revisions: true } }
+          }
+        }),
+        count: () => ctx.prisma.note.count({ where })
+      })
+
+      return { notes, nextCursor }
+    }),
+
+  // Create a note on a contact or a deal
+  create: tenantProcedure
+    .input(z.object({
+      contactId: z.string().optional(),
+      dealId: z.string().optional(),
+      content: noteContentSchema
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.prisma.$transaction(tx =>
+        createNote(tx, ctx.tenantId, ctx.user.id, input, input.content)
+      )
+    }),
+
+  // Edit a note, keeping the previous content as a revision
+  update: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      content: noteContentSchema
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const note = await findNote(ctx.prisma, ctx.tenantId, input.id)
+      if (note.content === input.content) {
+        return ctx.prisma.note.findUniqueOrThrow({ where: { id: note.id }, include: noteInclude })
+      }
+
+      return ctx.prisma.$transaction(async (tx) => {
+        await tx.noteRevision.create({
+          data: {
+            noteId: note.id,
+            content: note.content,
+            editedById: ctx.user.id
+          }
+        })
+
+        const updated = await tx.note.update({
+          where: { id: note.id },
+          data: { content: input.content, editedAt: new Date() },
+          include: noteInclude
+        })
+
+        // Only people mentioned for the first time in this edit are notified
+        const previous = new Set(extractMentionIds(note.content))
+        await notifyMentions(
+          tx,
+          ctx.tenantId,
+          ctx.user.id,
+          updated,
+          extractMentionIds(input.content).filter(id => !previous.has(id))
+        )
+
+        return updated
+      })
+    }),
+
+  // Earlier versions of a note, newest first
+  revisions: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const note = await findNote(ctx.prisma, ctx.tenantId, input.id)
+
+      return ctx.prisma.noteRevision.findMany({
+        where: { noteId: note.id },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          editedBy: { select: { id: true, firstName: true, lastName: true } }
+        }
+      })
+    }),
+
+  // Pin or unpin a note at the top of its contact or deal
+  pin: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      pinned: z.boolean()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const note = await findNote(ctx.prisma, ctx.tenantId, input.id)
+
+      return ctx.prisma.note.update({
+        where: { id: note.id },
+        data: input.pinned
+          ? { pinnedAt: note.pinnedAt ?? new Date(), pinnedById: ctx.user.id }
+          : { pinnedAt: null, pinnedById: null },
+        include: noteInclude
+      })
+    }),
+
+  // Delete a note and its revisions
+  delete: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const note = await findNote(ctx.prisma, ctx.tenantId, input.id)
+
+      await ctx.prisma.$transaction(async (tx) => {
+        await tx.note.delete({ where: { id: note.id } })
+
+        if (note.contactId) {
+          await tx.activity.create({
+            data: {
+              tenantId: ctx.tenantId,
+              contactId: note.contactId,
+              dealId: note.dealId,
+              userId: ctx.user.id,
+              type: 'SYSTEM',
+              title: 'Note deleted',
+              description: notePreview(note.content),
+              metadata: { noteId: note.id }
+            }
+          })
+        }
+      })
+
+      return { success: true }
+    })
+})
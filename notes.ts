@@ -0,0 +1,142 @@
+// packages/trpc/src/lib/notes.ts
+import { Prisma } from '@elevate/database'
+import { TRPCError } from '@trpc/server'
+import { SortOption } from './list-query'
+
+// Markdown notes mention teammates as `@[Display Name](user:<userId>)`, the
+// token the note editor inserts when a user is picked from the mention menu
+const MENTION_PATTERN = /@\[[^\]\n]*\]\(user:([A-Za-z0-9_-]+)\)/g
+
+export const noteInclude = {
+  user: { select: { id: true, firstName: true, lastName: true } },
+  deal: { select: { id: true, title: true } }
+} satisfies Prisma.NoteInclude
+
+// Pinned notes first, most recently pinned on top, then newest first
+export const noteOrderBy: Prisma.NoteOrderByWithRelationInput[] = [
+  { pinnedAt: { sort: 'desc', nulls: 'last' } },
+  { createdAt: 'desc' },
+  { id: 'desc' }
+]
+
+// The same order as a keyset sort, for paging through a note list
+export const NOTE_SORTS: Record<'pinned', SortOption> = {
+  pinned: { columns: [{ field: 'pinnedAt', nullable: true }, { field: 'createdAt' }], defaultDirection: 'desc' }
+}
+
+export function extractMentionIds(content: string): string[] {
+  return [...new Set([...content.matchAll(MENTION_PATTERN)].map(m => m[1]))]
+}
+
+// Plain-text preview with mention tokens reduced to `@Name`
+export function notePreview(content: string, length = 100): string {
+  return content.replace(/@\[([^\]\n]*)\]\(user:[A-Za-z0-9_-]+\)/g, '@$1').substring(0, length)
+}
+
+// Resolve the contact or deal a note is attached to. Deal notes also carry
+// the deal's contact so they show up in the contact's history.
+export async function resolveNoteTarget(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  target: { contactId?: string; dealId?: string }
+): Promise<{ contactId: string | null; dealId: string | null }> {
+  if (target.dealId) {
+    const deal = await db.deal.findFirst({
+      where: { id: target.dealId, tenantId, deletedAt: null },
+      select: { id: true, contactId: true }
+    })
+    if (!deal) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Deal not found' })
+    }
+    return { contactId: deal.contactId, dealId: deal.id }
+  }
+
+  if (target.contactId) {
+    const contact = await db.contact.findFirst({
+      where: { id: target.contactId, tenantId, deletedAt: null },
+      select: { id: true }
+    })
+    if (!contact) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
+    }
+    return { contactId: contact.id, dealId: null }
+  }
+
+  throw new TRPCError({ code: 'BAD_REQUEST', message: 'A note needs a contact or a deal' })
+}
+
+// Notify mentioned teammates. Unknown users and self-mentions are ignored.
+export async function notifyMentions(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  actorId: string,
+  note: { id: string; content: string; contactId: string | null; dealId: string | null },
+  userIds: string[]
+): Promise<number> {
+  const candidates = userIds.filter(id => id !== actorId)
+  if (candidates.length === 0) return 0
+
+  const [users, actor] = await Promise.all([
+    db.user.findMany({
+      where: { id: { in: candidates }, tenantId },
+      select: { id: true }
+    }),
+    db.user.findUnique({
+      where: { id: actorId },
+      select: { firstName: true, lastName: true }
+    })
+  ])
+  if (users.length === 0) return 0
+
+  const actorName = actor ? `${actor.firstName} ${actor.lastName}` : 'Someone'
+  await db.notification.createMany({
+    data: users.map(user => ({
+      tenantId,
+      userId: user.id,
+      actorId,
+      type: 'MENTION' as const,
+      title: `${actorName} mentioned you in a note`,
+      body: notePreview(note.content, 200),
+      noteId: note.id,
+      contactId: note.contactId,
+      dealId: note.dealId
+    }))
+  })
+
+  return users.length
+}
+
+// Create a note and notify everyone it mentions
+export async function createNote(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string,
+  target: { contactId?: string; dealId?: string },
+  content: string
+) {
+  const { contactId, dealId } = await resolveNoteTarget(db, tenantId, target)
+
+  const note = await db.note.create({
+    data: { tenantId, userId, contactId, dealId, content },
+    include: noteInclude
+  })
+
+  if (contactId) {
+    await db.activity.create({
+      data: {
+        tenantId,
+        contactId,
+        dealId,
+        userId,
+        type: 'NOTE',
+        title: dealId ? 'Deal note added' : 'Note added',
+        description: notePreview(content),
+        metadata: { noteId: note.id }
+      }
+    })
+  }
+
+  await notifyMentions(db, tenantId, userId, note, extractMentionIds(content))
+
+  return note
+}
@@ -0,0 +1,63 @@
+// packages/trpc/src/routers/notification.ts
+import { z } from 'zod'
+import { router, tenantProcedure } from '../trpc'
+
+export const notificationRouter = router({
+  // The current user's notifications, newest first
+  list: tenantProcedure
+    .input(z.object({
+      unreadOnly: z.boolean().default(false),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(20)
+    }))
+    .query(async ({ ctx, input }) => {
+      const notifications = await ctx.prisma.notification.findMany({
+        where: {
+          tenantId: ctx.tenantId,
+          userId: ctx.user.id,
+          ...(input.unreadOnly && { readAt: null })
+        },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        include: {
+          actor: { select: { id: true, firstName: true, lastName: true } }
+        }
+      })
+
+      let nextCursor: string | undefined
+      if (notifications.length > input.limit) {
+        const nextItem = notifications.pop()
+        nextCursor = nextItem!.id
+      }
+
+      return { notifications, nextCursor }
+    }),
+
+  // Badge count
+  unreadCount: tenantProcedure
+    .query(async ({ ctx }) => {
+      const count = await ctx.prisma.notification.count({
+        where: { tenantId: ctx.tenantId, userId: ctx.user.id, readAt: null }
+      })
+      return { count }
+    }),
+
+  // Mark specific notifications, or all of them, as read
+  markRead: tenantProcedure
+    .input(z.object({
+      ids: z.array(z.string()).max(500).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const result = await ctx.prisma.notification.updateMany({
+        where: {
+          tenantId: ctx.tenantId,
+          userId: ctx.user.id,
+          readAt: null,
+          ...(input.ids && { id: { in: input.ids } })
+        },
+        data: { readAt: new Date() }
+      })
+      return { updated: result.count }
+    })
+})
@@ -0,0 +1,101 @@
+// packages/trpc/src/lib/phone.ts
+import { CountryCode, NumberType, isSupportedCountry, parsePhoneNumberFromString } from 'libphonenumber-js/max'
+import { Prisma } from '@elevate/database'
+
+export const DEFAULT_COUNTRY = 'US'
+
+export type PhoneType = 'MOBILE' | 'LANDLINE' | 'FIXED_LINE_OR_MOBILE' | 'VOIP' | 'TOLL_FREE' | 'OTHER' | 'UNKNOWN'
+
+export interface NormalizedPhone {
+  e164: string | null
+  valid: boolean
+  type: PhoneType
+}
+
+const TYPE_MAP: Partial<Record<NonNullable<NumberType>, PhoneType>> = {
+  MOBILE: 'MOBILE',
+  FIXED_LINE: 'LANDLINE',
+  FIXED_LINE_OR_MOBILE: 'FIXED_LINE_OR_MOBILE',
+  VOIP: 'VOIP',
+  TOLL_FREE: 'TOLL_FREE'
+}
+
+// Parse a number as typed by a user. Numbers without a country prefix are read
+// in the tenant's default country. Type detection uses bundled metadata only.
+export function normalizePhone(raw: string | null | undefined, defaultCountry: string): NormalizedPhone | null {
+  if (!raw || !raw.trim()) return null
+
+  const country = isSupportedCountry(defaultCountry) ? (defaultCountry as CountryCode) : DEFAULT_COUNTRY
+  const parsed = parsePhoneNumberFromString(raw.trim(), country)
+  if (!parsed) return { e164: null, valid: false, type: 'UNKNOWN' }
+
+  const valid = parsed.isValid()
+  const type = valid ? parsed.getType() : undefined
+
+  return {
+    e164: parsed.number,
+    valid,
+    type: type ? TYPE_MAP[type] ?? 'OTHER' : 'UNKNOWN'
+  }
+}
+
+export interface ContactPhoneColumns {
+  phoneE164?: string | null
+  phoneValid?: boolean | null
+  phoneType?: PhoneType | null
+  mobileE164?: string | null
+  mobileValid?: boolean | null
+  mobileType?: PhoneType | null
+}
+
+// Derived columns for whichever of `phone` / `mobile` are present in the input;
+// the original strings are kept as entered for display.
+export function contactPhoneColumns(
+  input: { phone?: string | null; mobile?: string | null },
+  defaultCountry: string
+): ContactPhoneColumns {
+  const columns: ContactPhoneColumns = {}
+
+  if (input.phone !== undefined) {
+    const phone = normalizePhone(input.phone, defaultCountry)
+    columns.phoneE164 = phone?.e164 ?? null
+    columns.phoneValid = phone ? phone.valid : null
+    columns.phoneType = phone?.type ?? null
+  }
+  if (input.mobile !== undefined) {
+    const mobile = normalizePhone(input.mobile, defaultCountry)
+    columns.mobileE164 = mobile?.e164 ?? null
+    columns.mobileValid = mobile ? mobile.valid : null
+    columns.mobileType = mobile?.type ?? null
+  }
+
+  return columns
+}
+
+export async function getTenantDefaultCountry(prisma: Prisma.TransactionClient, tenantId: string): Promise<string> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { defaultCountry: true }
+  })
+  return tenant?.defaultCountry || DEFAULT_COUNTRY
+}
+
+// Best number to text: a valid mobile first, then any valid number that
+// isn't known to be a landline
+export function smsNumberFor(contact: {
+  phoneE164: string | null
+  phoneValid: boolean | null
+  phoneType: string | null
+  mobileE164: string | null
+  mobileValid: boolean | null
+  mobileType: string | null
+}): string | null {
+  const candidates = [
+    { e164: contact.mobileE164, valid: contact.mobileValid, type: contact.mobileType },
+    { e164: contact.phoneE164, valid: contact.phoneValid, type: contact.phoneType }
+  ].filter(c => c.e164 && c.valid)
+
+  const mobile = candidates.find(c => c.type === 'MOBILE' || c.type === 'FIXED_LINE_OR_MOBILE')
+  const textable = mobile ?? candidates.find(c => c.type !== 'LANDLINE' && c.type !== 'TOLL_FREE')
+  return textable?.e164 ?? null
+}
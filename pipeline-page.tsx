@@ -7,8 +7,19 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { trpc } from '@/lib/trpc'
-import { Plus, DollarSign } from 'lucide-react'
-import { cn } from '@/lib/utils'
+import { Plus, DollarSign, Clock } from 'lucide-react'
+import { cn, formatCurrency } from '@/lib/utils'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Open deals sitting in one stage longer than this are highlighted
+const STALE_AFTER_DAYS = 14
+
+function formatTimeInStage(ms: number): string {
+  const days = Math.floor(ms / DAY_MS)
+  if (days === 0) return 'Under a day'
+  return days === 1 ? '1 day' : `${days} days`
+}
 
 export default function PipelinePage() {
   const { data: pipelines } = trpc.pipeline.list.useQuery()
@@ -85,8 +96,13 @@ export default function PipelinePage() {
               <CardContent>
                 <div className="text-2xl font-bold">{pipelineData.totalDeals}</div>
                 <p className="text-xs text-muted-foreground">
-                  ${pipelineData.totalValue.toLocaleString()} total value
+                  {formatCurrency(pipelineData.totalValue, pipelineData.baseCurrency)} total value
                 </p>
+                {pipelineData.missingRates.length > 0 && (
+                  <p className="text-xs text-amber-700">
+                    Leaves out {pipelineData.missingRates.join(', ')} deals, which have no exchange rate
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -117,7 +133,7 @@ export default function PipelinePage() {
                       </Badge>
                     </div>
                     <p className="text-xs text-muted-foreground">
-                      ${stageData.totalValue.toLocaleString()}
+                      {formatCurrency(stageData.totalValue, pipelineData.baseCurrency)}
                     </p>
                   </CardHeader>
                   <CardContent className="pt-4 space-y-2 max-h-[600px] overflow-y-auto">
@@ -129,7 +145,10 @@ export default function PipelinePage() {
                       stageData.deals.map((deal) => (
                         <Card
                           key={deal.id}
-                          className="p-3 hover:shadow-md transition-shadow cursor-pointer"
+                          className={cn(
+                            'p-3 hover:shadow-md transition-shadow cursor-pointer',
+                            deal.timeInStage > STALE_AFTER_DAYS * DAY_MS && 'border-amber-400 bg-amber-50'
+                          )}
                         >
                           <div className="space-y-2">
                             <div>
@@ -140,7 +159,7 @@ export default function PipelinePage() {
                             </div>
                             <div className="flex items-center justify-between">
                               <p className="text-sm font-semibold">
-                                ${Number(deal.value).toLocaleString()}
+                                {formatCurrency(Number(deal.value), deal.currency)}
                               </p>
                               {deal.probability && (
                                 <Badge variant="outline" className="text-xs">
@@ -153,6 +172,16 @@ export default function PipelinePage() {
                                 Close: {new Date(deal.expectedCloseDate).toLocaleDateString()}
                               </p>
                             )}
+                            <p
+                              className={cn(
+                                'flex items-center text-xs text-muted-foreground',
+                                deal.timeInStage > STALE_AFTER_DAYS * DAY_MS && 'text-amber-700'
+                              )}
+                              title={`In this stage since ${new Date(deal.stageEnteredAt).toLocaleDateString()}`}
+                            >
+                              <Clock className="mr-1 h-3 w-3" />
+                              {formatTimeInStage(deal.timeInStage)} in stage
+                            </p>
                           </div>
                         </Card>
                       ))
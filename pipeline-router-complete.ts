@@ -28,7 +28,7 @@ export const pipelineRouter = router({
         include: {
           stages: { orderBy: { order: 'asc' } },
           deals: {
-            where: { status: 'OPEN' },
+            where: { status: 'OPEN', deletedAt: null },
             include: {
               contact: { select: { firstName: true, lastName: true, email: true } }
             }
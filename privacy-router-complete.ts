@@ -0,0 +1,130 @@
+// packages/trpc/src/routers/privacy.ts
+import { z } from 'zod'
+import { router, tenantProcedure } from '../trpc'
+import {
+  appendPrivacyLog,
+  buildDataSubjectBundle,
+  collectDataSubjectRecords,
+  dataSubjectSchema,
+  eraseDataSubject,
+  findDataSubjectContacts,
+  hashSubjectIdentifier,
+  indexStoredImportFiles,
+  PRIVACY_EXPORT_FORMATS,
+  verifyPrivacyLog
+} from '../lib/privacy'
+
+export const privacyRouter = router({
+  // Contacts matching a data subject request, to confirm before export or erasure
+  findSubject: tenantProcedure
+    .input(dataSubjectSchema)
+    .query(async ({ ctx, input }) => {
+      const contacts = await findDataSubjectContacts(ctx.prisma, ctx.tenantId, input)
+      return contacts.map(c => ({
+        id: c.id,
+        firstName: c.firstName,
+        lastName: c.lastName,
+        email: c.email,
+        phone: c.phone,
+        mobile: c.mobile,
+        deletedAt: c.deletedAt,
+        createdAt: c.createdAt
+      }))
+    }),
+
+  // Access request: everything stored about the subject as a JSON or ZIP bundle
+  export: tenantProcedure
+    .input(z.object({
+      subject: dataSubjectSchema,
+      format: z.enum(PRIVACY_EXPORT_FORMATS).default('ZIP')
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const contacts = await findDataSubjectContacts(ctx.prisma, ctx.tenantId, input.subject)
+      const records = await collectDataSubjectRecords(ctx.prisma, ctx.tenantId, contacts)
+      const file = await buildDataSubjectBundle(records, input.format)
+
+      await ctx.prisma.$transaction(async (tx) =>
+        appendPrivacyLog(tx, {
+          tenantId: ctx.tenantId,
+          action: 'EXPORT',
+          subjectHash: await hashSubjectIdentifier(tx, ctx.tenantId, input.subject),
+          contactIds: contacts.map(c => c.id),
+          userId: ctx.user.id,
+          details: {
+            format: input.format,
+            records: Object.fromEntries(Object.entries(records).map(([table, rows]) => [table, rows.length]))
+          }
+        })
+      )
+
+      return {
+        filename: file.filename,
+        contentType: file.contentType,
+        data: file.content.toString('base64')
+      }
+    }),
+
+  // Erasure request: anonymize the subject's contacts and scrub related
+  // records, keeping the rows that aggregate analytics are built from
+  erase: tenantProcedure
+    .input(z.object({
+      subject: dataSubjectSchema,
+      reason: z.string().max(500).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const contacts = await findDataSubjectContacts(ctx.prisma, ctx.tenantId, input.subject)
+      // Reading old uploads is slow, so it happens before the transaction
+      await indexStoredImportFiles(ctx.prisma, ctx.tenantId)
+
+      return ctx.prisma.$transaction(async (tx) => {
+        const erased = await eraseDataSubject(tx, ctx.tenantId, contacts)
+
+        const entry = await appendPrivacyLog(tx, {
+          tenantId: ctx.tenantId,
+          action: 'ERASURE',
+          subjectHash: await hashSubjectIdentifier(tx, ctx.tenantId, input.subject),
+          contactIds: contacts.map(c => c.id),
+          userId: ctx.user.id,
+          details: { ...erased, ...(input.reason && { reason: input.reason }) }
+        })
+
+        return { erased, logEntryId: entry.id }
+      }, { timeout: 60000 })
+    }),
+
+  // Privacy request log, newest first
+  log: tenantProcedure
+    .input(z.object({
+      action: z.enum(['EXPORT', 'ERASURE']).optional(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
+      const entries = await ctx.prisma.privacyLog.findMany({
+        where: {
+          tenantId: ctx.tenantId,
+          ...(input.action && { action: input.action })
+        },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: { sequence: 'desc' },
+        include: {
+          user: { select: { id: true, firstName: true, lastName: true } }
+        }
+      })
+
+      let nextCursor: string | undefined
+      if (entries.length > input.limit) {
+        const nextItem = entries.pop()
+        nextCursor = nextItem!.id
+      }
+
+      return { entries, nextCursor }
+    }),
+
+  // Check that no log entry has been altered or removed
+  verifyLog: tenantProcedure
+    .query(async ({ ctx }) => {
+      return verifyPrivacyLog(ctx.prisma, ctx.tenantId)
+    })
+})
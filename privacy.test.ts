@@ -0,0 +1,217 @@
+// packages/worker/src/tests/privacy.test.ts
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Prisma, PrismaClient } from '@elevate/database'
+import {
+  collectDataSubjectRecords,
+  eraseDataSubject,
+  hashSubjectIdentifier,
+  importFileKeys,
+  indexStoredImportFiles
+} from '@elevate/trpc/lib/privacy'
+
+interface Call {
+  model: string
+  method: string
+  args: unknown
+}
+
+// Stands in for the Prisma client, recording every call. Results are keyed by
+// `model.method`; otherwise finds return nothing and writes affect one row.
+function fakeDb(results: Record<string, unknown> = {}) {
+  const calls: Call[] = []
+  const respond = (model: string, method: string, args: unknown) => {
+    calls.push({ model, method, args })
+    const key = `${model}.${method}`
+    if (key in results) return Promise.resolve(results[key])
+    if (method === 'findMany' || method === '$queryRaw') return Promise.resolve([])
+    if (method.endsWith('Many')) return Promise.resolve({ count: 1 })
+    return Promise.resolve(null)
+  }
+
+  const db = new Proxy({}, {
+    get: (_, model: string) => model.startsWith('$')
+      ? (...args: unknown[]) => respond('', model, args)
+      : new Proxy({}, { get: (_, method: string) => (args: unknown) => respond(model, method, args) })
+  })
+  return { db: db as unknown as PrismaClient, calls }
+}
+
+type SubjectContact = Parameters<typeof eraseDataSubject>[2][number]
+
+const contact = {
+  id: 'contact-1',
+  email: 'ada@example.com',
+  phone: '+1 555 010 0199',
+  mobile: null,
+  phoneE164: '+15550100199',
+  mobileE164: null,
+  createdAt: new Date('2024-01-01T00:00:00Z')
+} as unknown as SubjectContact
+
+const importFile = {
+  'importJob.findMany': [{ id: 'job-1', filename: 'leads.csv', createdAt: new Date('2024-02-01T00:00:00Z') }],
+  'importJob.findUniqueOrThrow': {
+    fileData: Buffer.from('Name,Email\nAda Lovelace,ada@example.com\nAlan Turing,alan@example.com\n'),
+    fileType: 'CSV'
+  }
+}
+
+const findCall = (calls: Call[], model: string, method: string) =>
+  calls.find(call => call.model === model && call.method === method)
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+// The argument object of the first call to `model.method`
+function argsOf(calls: Call[], model: string, method: string): Record<string, unknown> {
+  const call = findCall(calls, model, method)
+  assert.ok(call, `${model}.${method} was not called`)
+  assert.ok(isRecord(call.args))
+  return call.args
+}
+
+function whereOf(calls: Call[], model: string, method: string): Record<string, unknown> {
+  const { where } = argsOf(calls, model, method)
+  assert.ok(isRecord(where))
+  return where
+}
+
+const collected: [table: string, model: string][] = [
+  ['notes', 'note'],
+  ['activities', 'activity'],
+  ['emails', 'email'],
+  ['smsMessages', 'smsMessage'],
+  ['appointments', 'appointment'],
+  ['deals', 'deal'],
+  ['fieldChanges', 'fieldChange'],
+  ['consentEvents', 'consentEvent'],
+  ['tasks', 'task'],
+  ['notifications', 'notification'],
+  ['importRowErrors', 'importRowError'],
+  ['exports', 'contactExport']
+]
+
+for (const [table, model] of collected) {
+  test(`access requests include ${table}`, async () => {
+    const { db, calls } = fakeDb()
+    const records = await collectDataSubjectRecords(db, 'tenant-1', [contact])
+
+    assert.ok(table in records)
+    assert.ok(findCall(calls, model, 'findMany'), `${model}.findMany was not queried`)
+  })
+}
+
+test('access requests include the matching rows of stored import files', async () => {
+  const { db } = fakeDb(importFile)
+  const records = await collectDataSubjectRecords(db, 'tenant-1', [contact])
+
+  assert.equal(records.importFiles.length, 1)
+  assert.deepEqual(records.importFiles[0].rows.map(row => row.data.Email), ['ada@example.com'])
+})
+
+const erased: [table: string, model: string, method: string][] = [
+  ['notes', 'note', 'deleteMany'],
+  ['activities', 'activity', 'updateMany'],
+  ['emails', 'email', 'updateMany'],
+  ['smsMessages', 'smsMessage', 'updateMany'],
+  ['appointments', 'appointment', 'updateMany'],
+  ['fieldChanges', 'fieldChange', 'deleteMany'],
+  ['consentEvents', 'consentEvent', 'updateMany'],
+  ['tasks', 'task', 'updateMany'],
+  ['notifications', 'notification', 'deleteMany'],
+  ['exports', 'contactExport', 'deleteMany']
+]
+
+for (const [table, model, method] of erased) {
+  test(`erasure covers ${table}`, async () => {
+    const { db, calls } = fakeDb()
+    const counts = await eraseDataSubject(db, 'tenant-1', [contact])
+
+    assert.ok(findCall(calls, model, method), `${model}.${method} was not called`)
+    assert.equal(counts[table as keyof typeof counts], 1)
+  })
+}
+
+test('erasure removes the text of tasks', async () => {
+  const { db, calls } = fakeDb()
+  await eraseDataSubject(db, 'tenant-1', [contact])
+
+  assert.deepEqual(argsOf(calls, 'task', 'updateMany').data, { title: '[erased]', description: null })
+})
+
+test('erasure removes notifications about the subject\'s notes and tasks', async () => {
+  const { db, calls } = fakeDb({
+    'note.findMany': [{ id: 'note-1' }],
+    'task.findMany': [{ id: 'task-1' }]
+  })
+  await eraseDataSubject(db, 'tenant-1', [contact])
+
+  assert.deepEqual(whereOf(calls, 'notification', 'deleteMany').OR, [
+    { contactId: { in: ['contact-1'] } },
+    { noteId: { in: ['note-1'] } },
+    { taskId: { in: ['task-1'] } }
+  ])
+})
+
+test('erasure deletes import row errors holding the subject', async () => {
+  const { db, calls } = fakeDb({ '.$queryRaw': [{ id: 'row-error-1' }] })
+  await eraseDataSubject(db, 'tenant-1', [contact])
+
+  assert.deepEqual(whereOf(calls, 'importRowError', 'deleteMany'), { id: { in: ['row-error-1'] } })
+})
+
+test('erasure clears stored import files indexed with the subject, and unindexed ones', async () => {
+  const { db, calls } = fakeDb()
+  const counts = await eraseDataSubject(db, 'tenant-1', [contact])
+
+  const update = argsOf(calls, 'importJob', 'updateMany')
+  assert.deepEqual(update.where, {
+    tenantId: 'tenant-1',
+    fileData: { not: null },
+    OR: [
+      { fileKeysIndexed: false },
+      { fileKeys: { hasSome: ['email:ada@example.com', 'digits:15550100199'] } }
+    ]
+  })
+  assert.deepEqual(update.data, { fileData: null, sampleRows: Prisma.DbNull, fileKeys: [] })
+  assert.equal(counts.importFiles, 1)
+})
+
+test('erasure doesn\'t read stored import files', async () => {
+  const { db, calls } = fakeDb(importFile)
+  await eraseDataSubject(db, 'tenant-1', [contact])
+
+  assert.equal(findCall(calls, 'importJob', 'findUniqueOrThrow'), undefined)
+})
+
+test('uploads are indexed by their addresses and numbers', async () => {
+  const keys = await importFileKeys(
+    Buffer.from('Name,Email,Phone\nAda Lovelace, ADA@example.com ,+1 (555) 010-0199\nAlan Turing,,12\n'),
+    'CSV'
+  )
+
+  assert.deepEqual(keys.sort(), ['digits:15550100199', 'email:ada@example.com'])
+})
+
+test('uploads stored before indexing are indexed ahead of a request', async () => {
+  const { db, calls } = fakeDb(importFile)
+  await indexStoredImportFiles(db, 'tenant-1')
+
+  const update = argsOf(calls, 'importJob', 'update')
+  assert.deepEqual(update.where, { id: 'job-1' })
+  assert.ok(isRecord(update.data))
+  assert.equal(update.data.fileKeysIndexed, true)
+  assert.deepEqual(update.data.fileKeys, ['email:ada@example.com', 'email:alan@example.com'])
+})
+
+test('subject hashes are keyed by the tenant secret', async () => {
+  const subject = { email: 'ada@example.com' }
+  const first = fakeDb({ 'tenant.findUniqueOrThrow': { privacySalt: 'secret-1' } })
+  const second = fakeDb({ 'tenant.findUniqueOrThrow': { privacySalt: 'secret-2' } })
+
+  const hash = await hashSubjectIdentifier(first.db, 'tenant-1', subject)
+  assert.equal(await hashSubjectIdentifier(first.db, 'tenant-1', { email: ' ADA@example.com ' }), hash)
+  assert.notEqual(await hashSubjectIdentifier(second.db, 'tenant-1', subject), hash)
+})
@@ -0,0 +1,651 @@
+// packages/trpc/src/lib/privacy.ts
+import { createHash, createHmac, randomBytes } from 'crypto'
+import { z } from 'zod'
+import JSZip from 'jszip'
+import { Prisma, PrismaClient } from '@elevate/database'
+import { TRPCError } from '@trpc/server'
+import { getTenantDefaultCountry, normalizePhone } from './phone'
+import { ImportFileType, parseEverySheet, ParsedImportFile, storedImportFile } from './import-sources'
+
+export const PRIVACY_EXPORT_FORMATS = ['JSON', 'ZIP'] as const
+
+// A data subject is identified by exactly one of contact ID, email or phone
+export const dataSubjectSchema = z.object({
+  contactId: z.string().optional(),
+  email: z.string().email().optional(),
+  phone: z.string().optional()
+}).refine(
+  s => [s.contactId, s.email, s.phone].filter(Boolean).length === 1,
+  { message: 'Provide exactly one of contactId, email or phone' }
+)
+
+export type DataSubject = z.infer<typeof dataSubjectSchema>
+
+const ERASED = '[erased]'
+
+// Every contact (trashed ones included) matching the identifier
+export async function findDataSubjectContacts(
+  prisma: PrismaClient,
+  tenantId: string,
+  subject: DataSubject
+) {
+  let where: Prisma.ContactWhereInput
+  if (subject.contactId) {
+    where = { id: subject.contactId }
+  } else if (subject.email) {
+    where = { email: { equals: subject.email, mode: 'insensitive' } }
+  } else {
+    const parsed = normalizePhone(subject.phone!, await getTenantDefaultCountry(prisma, tenantId))
+    where = {
+      OR: [
+        { phone: subject.phone },
+        { mobile: subject.phone },
+        ...(parsed?.e164 ? [{ phoneE164: parsed.e164 }, { mobileE164: parsed.e164 }] : [])
+      ]
+    }
+  }
+
+  const contacts = await prisma.contact.findMany({
+    where: { tenantId, erasedAt: null, AND: [where] },
+    include: {
+      tags: { include: { tag: { select: { name: true } } } },
+      companyRecord: { select: { id: true, name: true, domain: true } },
+      assignedTo: { select: { id: true, firstName: true, lastName: true, email: true } }
+    }
+  })
+
+  if (contacts.length === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'No contact matches this data subject' })
+  }
+  return contacts
+}
+
+type SubjectContact = Awaited<ReturnType<typeof findDataSubjectContacts>>[number]
+
+// Numbers shorter than this are too likely to match unrelated cells
+const MIN_MATCH_DIGITS = 7
+
+// Addresses and numbers the contacts can be reached at, for records not linked by contactId
+function subjectIdentifiers(contacts: SubjectContact[]) {
+  const emails = contacts.map(c => c.email).filter((e): e is string => !!e)
+  const numbers = contacts
+    .flatMap(c => [c.phone, c.mobile, c.phoneE164, c.mobileE164])
+    .filter((n): n is string => !!n)
+  const digits = numbers.map(n => n.replace(/\D/g, '')).filter(d => d.length >= MIN_MATCH_DIGITS)
+  return {
+    contactIds: contacts.map(c => c.id),
+    emails,
+    numbers: [...new Set(numbers)],
+    lowerEmails: [...new Set(emails.map(e => e.toLowerCase()))],
+    digits: [...new Set(digits)]
+  }
+}
+
+type SubjectIdentifiers = ReturnType<typeof subjectIdentifiers>
+
+// Whether a free-form value (an uploaded cell) is one of the subject's addresses or numbers
+function isSubjectValue(value: unknown, ids: SubjectIdentifiers): boolean {
+  if (typeof value !== 'string') return false
+  const digits = value.replace(/\D/g, '')
+  return ids.lowerEmails.includes(value.trim().toLowerCase()) ||
+    (digits.length >= MIN_MATCH_DIGITS && ids.digits.includes(digits))
+}
+
+// Import rows that failed validation are kept as uploaded, keyed by header
+async function subjectImportRowErrorIds(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  ids: SubjectIdentifiers
+): Promise<string[]> {
+  if (ids.lowerEmails.length === 0 && ids.digits.length === 0) return []
+
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    SELECT e.id
+    FROM import_row_errors e
+    JOIN import_jobs j ON j.id = e.job_id
+    WHERE j.tenant_id = ${tenantId}
+      AND EXISTS (
+        SELECT 1 FROM jsonb_each_text(e.data) AS cell(key, value)
+        WHERE lower(trim(cell.value)) = ANY(${ids.lowerEmails})
+          OR regexp_replace(cell.value, '[^0-9]', '', 'g') = ANY(${ids.digits})
+      )
+  `
+  return rows.map(row => row.id)
+}
+
+// Uploads are indexed by the addresses and numbers in their cells, so privacy
+// requests find the files that mention a subject without reading them all.
+// Addresses are lowercased and numbers kept as their digits.
+function cellKeys(value: string): string[] {
+  const digits = value.replace(/\D/g, '')
+  return [
+    ...(value.includes('@') ? [`email:${value.trim().toLowerCase()}`] : []),
+    ...(digits.length >= MIN_MATCH_DIGITS ? [`digits:${digits}`] : [])
+  ]
+}
+
+function subjectKeys(ids: SubjectIdentifiers): string[] {
+  return [...ids.lowerEmails.map(email => `email:${email}`), ...ids.digits.map(digits => `digits:${digits}`)]
+}
+
+// The index of an uploaded file, over every sheet of a workbook
+export async function importFileKeys(content: Buffer, fileType: ImportFileType): Promise<string[]> {
+  const keys = new Set<string>()
+  for (const sheet of await parseEverySheet(content, fileType)) {
+    for (const row of sheet.rows) {
+      Object.values(row).forEach(value => cellKeys(value).forEach(key => keys.add(key)))
+    }
+  }
+  return Array.from(keys)
+}
+
+// Index the tenant's stored uploads from before files were indexed on upload.
+// Runs ahead of a privacy request, outside its transaction.
+export async function indexStoredImportFiles(prisma: PrismaClient, tenantId: string): Promise<void> {
+  const jobs = await prisma.importJob.findMany({
+    where: { tenantId, fileData: { not: null }, fileKeysIndexed: false },
+    select: { id: true }
+  })
+
+  for (const job of jobs) {
+    // One file in memory at a time
+    const { fileData, fileType } = await prisma.importJob.findUniqueOrThrow({
+      where: { id: job.id },
+      select: { fileData: true, fileType: true }
+    })
+    try {
+      const fileKeys = await importFileKeys(storedImportFile({ fileData }), fileType)
+      await prisma.importJob.update({ where: { id: job.id }, data: { fileKeys, fileKeysIndexed: true } })
+    } catch {
+      // Left unindexed
+    }
+  }
+}
+
+// Stored uploads that mention the subject. Unindexed files couldn't be read,
+// so they can't be cleared of the subject either and always count.
+function subjectImportFilesWhere(tenantId: string, ids: SubjectIdentifiers): Prisma.ImportJobWhereInput {
+  return {
+    tenantId,
+    fileData: { not: null },
+    OR: [
+      { fileKeysIndexed: false },
+      { fileKeys: { hasSome: subjectKeys(ids) } }
+    ]
+  }
+}
+
+interface SubjectImportFile {
+  jobId: string
+  filename: string
+  createdAt: Date
+  rows: { sheet?: string; rowNumber: number; data: Record<string, string> }[]
+}
+
+// The rows of stored uploads that mention the subject. Only files the index
+// matches are read.
+async function subjectImportFiles(
+  prisma: PrismaClient,
+  tenantId: string,
+  ids: SubjectIdentifiers
+): Promise<SubjectImportFile[]> {
+  const jobs = await prisma.importJob.findMany({
+    where: subjectImportFilesWhere(tenantId, ids),
+    select: { id: true, filename: true, createdAt: true },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  const files: SubjectImportFile[] = []
+  for (const job of jobs) {
+    const { fileData, fileType } = await prisma.importJob.findUniqueOrThrow({
+      where: { id: job.id },
+      select: { fileData: true, fileType: true }
+    })
+
+    let sheets: ParsedImportFile[]
+    try {
+      sheets = await parseEverySheet(storedImportFile({ fileData }), fileType)
+    } catch {
+      files.push({ jobId: job.id, filename: job.filename, createdAt: job.createdAt, rows: [] })
+      continue
+    }
+
+    const rows = sheets.flatMap(parsed => parsed.rows
+      .map((data, i) => ({ sheet: parsed.sheet, rowNumber: i + 1, data }))
+      .filter(row => Object.values(row.data).some(value => isSubjectValue(value, ids))))
+    files.push({ jobId: job.id, filename: job.filename, createdAt: job.createdAt, rows })
+  }
+  return files
+}
+
+// Finished contact exports that may contain the subject. Files can't be
+// searched (workbooks are compressed), so any made since the earliest of the
+// subject's contacts was created counts.
+function subjectExportsWhere(tenantId: string, contacts: SubjectContact[]): Prisma.ContactExportWhereInput {
+  const since = contacts.reduce((earliest, c) => (c.createdAt < earliest ? c.createdAt : earliest), contacts[0].createdAt)
+  return { tenantId, status: 'COMPLETED', createdAt: { gte: since } }
+}
+
+// Notifications about the subject's contacts, notes and tasks; mention
+// notifications carry a preview of the note
+function subjectNotificationsWhere(
+  tenantId: string,
+  contactIds: string[],
+  notes: { id: string }[],
+  tasks: { id: string }[]
+): Prisma.NotificationWhereInput {
+  return {
+    tenantId,
+    OR: [
+      { contactId: { in: contactIds } },
+      { noteId: { in: notes.map(n => n.id) } },
+      { taskId: { in: tasks.map(t => t.id) } }
+    ]
+  }
+}
+
+// Everything stored about the data subject, grouped by table
+export async function collectDataSubjectRecords(
+  prisma: PrismaClient,
+  tenantId: string,
+  contacts: SubjectContact[]
+) {
+  const ids = subjectIdentifiers(contacts)
+  const { contactIds, emails, numbers } = ids
+  await indexStoredImportFiles(prisma, tenantId)
+
+  const [notes, activities, emailMessages, smsMessages, appointments, deals, fieldChanges, consentEvents, tasks] =
+    await Promise.all([
+      prisma.note.findMany({
+        where: { contactId: { in: contactIds } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.activity.findMany({
+        where: { tenantId, contactId: { in: contactIds } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.email.findMany({
+        where: {
+          tenantId,
+          OR: [{ contactId: { in: contactIds } }, ...emails.map(e => ({ to: { has: e } }))]
+        },
+        select: {
+          id: true, contactId: true, from: true, to: true, cc: true, bcc: true, subject: true,
+          body: true, bodyHtml: true, status: true, sentAt: true, openedAt: true, clickedAt: true,
+          createdAt: true
+        },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.smsMessage.findMany({
+        where: {
+          tenantId,
+          OR: [{ contactId: { in: contactIds } }, { to: { in: numbers } }, { from: { in: numbers } }]
+        },
+        select: {
+          id: true, contactId: true, direction: true, from: true, to: true, body: true,
+          status: true, sentAt: true, deliveredAt: true, createdAt: true
+        },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.appointment.findMany({
+        where: {
+          calendar: { tenantId },
+          OR: [{ contactId: { in: contactIds } }, { guestEmail: { in: emails, mode: 'insensitive' } }]
+        },
+        orderBy: { startTime: 'asc' }
+      }),
+      prisma.deal.findMany({
+        where: { tenantId, contactId: { in: contactIds } },
+        include: { stage: { select: { name: true } } }
+      }),
+      prisma.fieldChange.findMany({
+        where: { tenantId, contactId: { in: contactIds } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.consentEvent.findMany({
+        where: { tenantId, contactId: { in: contactIds } },
+        orderBy: { createdAt: 'asc' }
+      }),
+      prisma.task.findMany({
+        where: { tenantId, contactId: { in: contactIds } },
+        orderBy: { createdAt: 'asc' }
+      })
+    ])
+
+  const [notifications, importRowErrorIds, importFiles, exports] = await Promise.all([
+    prisma.notification.findMany({
+      where: subjectNotificationsWhere(tenantId, contactIds, notes, tasks),
+      select: { id: true, type: true, title: true, body: true, contactId: true, noteId: true, taskId: true, createdAt: true },
+      orderBy: { createdAt: 'asc' }
+    }),
+    subjectImportRowErrorIds(prisma, tenantId, ids),
+    subjectImportFiles(prisma, tenantId, ids),
+    prisma.contactExport.findMany({
+      where: subjectExportsWhere(tenantId, contacts),
+      select: { id: true, format: true, filename: true, rowCount: true, createdAt: true, expiresAt: true },
+      orderBy: { createdAt: 'asc' }
+    })
+  ])
+  const importRowErrors = await prisma.importRowError.findMany({
+    where: { id: { in: importRowErrorIds } },
+    select: { id: true, jobId: true, rowNumber: true, message: true, data: true, createdAt: true },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return {
+    contacts,
+    notes,
+    activities,
+    emails: emailMessages,
+    smsMessages,
+    appointments,
+    deals,
+    fieldChanges,
+    consentEvents,
+    tasks,
+    notifications,
+    importRowErrors,
+    importFiles,
+    exports
+  }
+}
+
+export async function buildDataSubjectBundle(
+  records: Awaited<ReturnType<typeof collectDataSubjectRecords>>,
+  format: typeof PRIVACY_EXPORT_FORMATS[number]
+): Promise<{ filename: string; contentType: string; content: Buffer }> {
+  const stamp = new Date().toISOString().slice(0, 10)
+  const exportedAt = new Date().toISOString()
+
+  if (format === 'JSON') {
+    return {
+      filename: `data-subject-export-${stamp}.json`,
+      contentType: 'application/json',
+      content: Buffer.from(JSON.stringify({ exportedAt, ...records }, null, 2))
+    }
+  }
+
+  // One file per table so the bundle is easy to read without tooling
+  const zip = new JSZip()
+  zip.file('export.json', JSON.stringify({ exportedAt, tables: Object.keys(records) }, null, 2))
+  for (const [table, rows] of Object.entries(records)) {
+    zip.file(`${table}.json`, JSON.stringify(rows, null, 2))
+  }
+  return {
+    filename: `data-subject-export-${stamp}.zip`,
+    contentType: 'application/zip',
+    content: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+  }
+}
+
+export interface ErasureCounts {
+  contacts: number
+  notes: number
+  activities: number
+  emails: number
+  smsMessages: number
+  appointments: number
+  fieldChanges: number
+  consentEvents: number
+  tasks: number
+  notifications: number
+  importRowErrors: number
+  importFiles: number
+  exports: number
+}
+
+// Anonymize the contacts in place and scrub personal data from related rows.
+// Rows stay (with their status, dates, values and owners) so activity counts,
+// pipeline and deliverability analytics are unaffected. Stored uploads are
+// matched by their index; run `indexStoredImportFiles` before the transaction.
+export async function eraseDataSubject(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  contacts: SubjectContact[]
+): Promise<ErasureCounts> {
+  const ids = subjectIdentifiers(contacts)
+  const { contactIds, emails, numbers } = ids
+  const now = new Date()
+
+  const contactResult = await tx.contact.updateMany({
+    where: { tenantId, id: { in: contactIds } },
+    data: {
+      firstName: 'Erased',
+      lastName: 'Contact',
+      email: null,
+      phone: null,
+      mobile: null,
+      phoneE164: null,
+      phoneValid: false,
+      phoneType: null,
+      mobileE164: null,
+      mobileValid: false,
+      mobileType: null,
+      jobTitle: null,
+      address: null,
+      city: null,
+      state: null,
+      zipCode: null,
+      website: null,
+      customData: {},
+      leadScoreBreakdown: Prisma.DbNull,
+      erasedAt: now
+    }
+  })
+
+  // Found before their notes and tasks go, as they are matched by those too
+  const [subjectNotes, subjectTasks] = await Promise.all([
+    tx.note.findMany({ where: { contactId: { in: contactIds } }, select: { id: true } }),
+    tx.task.findMany({ where: { tenantId, contactId: { in: contactIds } }, select: { id: true } })
+  ])
+  const notifications = await tx.notification.deleteMany({
+    where: subjectNotificationsWhere(tenantId, contactIds, subjectNotes, subjectTasks)
+  })
+
+  const notes = await tx.note.deleteMany({ where: { contactId: { in: contactIds } } })
+
+  // Tasks stay for workload reporting, without their text
+  const tasks = await tx.task.updateMany({
+    where: { tenantId, contactId: { in: contactIds } },
+    data: { title: ERASED, description: null }
+  })
+
+  // Change history and activity metadata hold old field values
+  const fieldChanges = await tx.fieldChange.deleteMany({ where: { tenantId, contactId: { in: contactIds } } })
+  const activities = await tx.activity.updateMany({
+    where: { tenantId, contactId: { in: contactIds } },
+    data: { description: null, metadata: Prisma.DbNull }
+  })
+
+  const emailMessages = await tx.email.updateMany({
+    where: {
+      tenantId,
+      OR: [{ contactId: { in: contactIds } }, ...emails.map(e => ({ to: { has: e } }))]
+    },
+    data: { to: [ERASED], cc: [], bcc: [], subject: ERASED, body: ERASED, bodyHtml: null }
+  })
+
+  const smsWhere = { tenantId, OR: [{ contactId: { in: contactIds } }, { to: { in: numbers } }, { from: { in: numbers } }] }
+  const outbound = await tx.smsMessage.updateMany({
+    where: { ...smsWhere, direction: 'OUTBOUND' },
+    data: { to: ERASED, body: ERASED }
+  })
+  const inbound = await tx.smsMessage.updateMany({
+    where: { ...smsWhere, direction: 'INBOUND' },
+    data: { from: ERASED, body: ERASED }
+  })
+
+  const appointments = await tx.appointment.updateMany({
+    where: {
+      calendar: { tenantId },
+      OR: [{ contactId: { in: contactIds } }, { guestEmail: { in: emails, mode: 'insensitive' } }]
+    },
+    data: { title: ERASED, description: null, guestName: null, guestEmail: null }
+  })
+
+  // Consent states stay as proof of opt-outs; only the identifying details go
+  const consentEvents = await tx.consentEvent.updateMany({
+    where: { tenantId, contactId: { in: contactIds } },
+    data: { email: null, phone: null, note: null, ipAddress: null }
+  })
+
+  // Uploaded rows that failed to import, and whole uploaded files that
+  // mention the subject (a file can't be edited row by row)
+  const importRowErrors = await tx.importRowError.deleteMany({
+    where: { id: { in: await subjectImportRowErrorIds(tx, tenantId, ids) } }
+  })
+  const importFiles = await tx.importJob.updateMany({
+    where: subjectImportFilesWhere(tenantId, ids),
+    data: { fileData: null, sampleRows: Prisma.DbNull, fileKeys: [] }
+  })
+
+  const exports = await tx.contactExport.deleteMany({ where: subjectExportsWhere(tenantId, contacts) })
+
+  return {
+    contacts: contactResult.count,
+    notes: notes.count,
+    activities: activities.count,
+    emails: emailMessages.count,
+    smsMessages: outbound.count + inbound.count,
+    appointments: appointments.count,
+    fieldChanges: fieldChanges.count,
+    consentEvents: consentEvents.count,
+    tasks: tasks.count,
+    notifications: notifications.count,
+    importRowErrors: importRowErrors.count,
+    importFiles: importFiles.count,
+    exports: exports.count
+  }
+}
+
+// The tenant's key for subject hashes, created on first use. A secret key
+// keeps the hashes from being reversed by hashing guessed emails or numbers.
+async function getPrivacySalt(db: Prisma.TransactionClient, tenantId: string): Promise<string> {
+  const tenant = await db.tenant.findUniqueOrThrow({ where: { id: tenantId }, select: { privacySalt: true } })
+  if (tenant.privacySalt) return tenant.privacySalt
+
+  // Only the first of two concurrent requests gets to set it
+  await db.tenant.updateMany({
+    where: { id: tenantId, privacySalt: null },
+    data: { privacySalt: randomBytes(32).toString('hex') }
+  })
+  const created = await db.tenant.findUniqueOrThrow({ where: { id: tenantId }, select: { privacySalt: true } })
+  return created.privacySalt!
+}
+
+// Identifiers are logged as keyed hashes so the log itself holds no personal data
+export async function hashSubjectIdentifier(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  subject: DataSubject
+): Promise<string> {
+  const value = subject.contactId
+    ? `contact:${subject.contactId}`
+    : subject.email
+      ? `email:${subject.email.trim().toLowerCase()}`
+      : `phone:${subject.phone!.replace(/\D/g, '')}`
+  return createHmac('sha256', await getPrivacySalt(db, tenantId)).update(value).digest('hex')
+}
+
+// JSON with object keys sorted, so hashes survive jsonb key reordering
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+interface PrivacyLogFields {
+  tenantId: string
+  sequence: number
+  action: string
+  subjectHash: string
+  contactIds: string[]
+  userId: string | null
+  details: unknown
+  createdAt: Date
+  previousHash: string | null
+}
+
+function privacyLogHash(entry: PrivacyLogFields): string {
+  return createHash('sha256').update(canonicalJson({
+    ...entry,
+    createdAt: entry.createdAt.toISOString()
+  })).digest('hex')
+}
+
+// Append to the tenant's hash-chained privacy log. Each entry's hash covers
+// its contents and the previous entry's hash, so editing or deleting any
+// entry breaks verification of every later one.
+export async function appendPrivacyLog(
+  tx: Prisma.TransactionClient,
+  entry: {
+    tenantId: string
+    action: 'EXPORT' | 'ERASURE'
+    subjectHash: string
+    contactIds: string[]
+    userId: string
+    details: Record<string, unknown>
+  }
+) {
+  // Serialize appends per tenant so two requests can't fork the chain
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`privacy_log:${entry.tenantId}`}))`
+
+  const last = await tx.privacyLog.findFirst({
+    where: { tenantId: entry.tenantId },
+    orderBy: { sequence: 'desc' },
+    select: { sequence: true, hash: true }
+  })
+
+  const fields: PrivacyLogFields = {
+    ...entry,
+    sequence: (last?.sequence ?? 0) + 1,
+    createdAt: new Date(),
+    previousHash: last?.hash ?? null
+  }
+
+  return tx.privacyLog.create({
+    data: {
+      ...fields,
+      details: fields.details as Prisma.InputJsonValue,
+      hash: privacyLogHash(fields)
+    }
+  })
+}
+
+// Recompute the chain; returns the first entry that fails to verify
+export async function verifyPrivacyLog(
+  prisma: PrismaClient,
+  tenantId: string
+): Promise<{ valid: boolean; entries: number; brokenAt: number | null }> {
+  const entries = await prisma.privacyLog.findMany({
+    where: { tenantId },
+    orderBy: { sequence: 'asc' }
+  })
+
+  let previousHash: string | null = null
+  for (const [index, entry] of entries.entries()) {
+    const expected = privacyLogHash({
+      tenantId: entry.tenantId,
+      sequence: entry.sequence,
+      action: entry.action,
+      subjectHash: entry.subjectHash,
+      contactIds: entry.contactIds,
+      userId: entry.userId,
+      details: entry.details,
+      createdAt: entry.createdAt,
+      previousHash: entry.previousHash
+    })
+
+    if (entry.sequence !== index + 1 || entry.previousHash !== previousHash || entry.hash !== expected) {
+      return { valid: false, entries: entries.length, brokenAt: entry.sequence }
+    }
+    previousHash = entry.hash
+  }
+
+  return { valid: true, entries: entries.length, brokenAt: null }
+}
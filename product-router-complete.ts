@@ -0,0 +1,138 @@
+// packages/trpc/src/routers/product.ts
+import { z } from 'zod'
+import { router, tenantProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { Prisma, PrismaClient } from '@elevate/database'
+
+const productSchema = z.object({
+  name: z.string().min(1).max(200),
+  sku: z.string().trim().min(1).max(100).optional().nullable(),
+  description: z.string().optional().nullable(),
+  unitPrice: z.number().min(0),
+  currency: z.string().length(3).toUpperCase().default('USD'),
+  billing: z.enum(['ONE_TIME', 'MONTHLY', 'QUARTERLY', 'YEARLY']).default('ONE_TIME'),
+  active: z.boolean().default(true)
+})
+
+async function assertSkuAvailable(prisma: PrismaClient, tenantId: string, sku: string, exceptId?: string) {
+  const conflict = await prisma.product.findFirst({
+    where: { tenantId, sku, ...(exceptId && { id: { not: exceptId } }) }
+  })
+  if (conflict) {
+    throw new TRPCError({ code: 'CONFLICT', message: `A product with the SKU ${sku} already exists` })
+  }
+}
+
+export const productRouter = router({
+  // List the catalog, active products only unless asked
+  list: tenantProcedure
+    .input(z.object({
+      search: z.string().optional(),
+      includeArchived: z.boolean().default(false),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
+      const where: Prisma.ProductWhereInput = {
+        tenantId: ctx.tenantId,
+        ...(!input.includeArchived && { active: true }),
+        ...(input.search && {
+          OR: [
+            { name: { contains: input.search, mode: 'insensitive' } },
+            { sku: { contains: input.search, mode: 'insensitive' } }
+          ]
+        })
+      }
+
+      const products = await ctx.prisma.product.findMany({
+        where,
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ name: 'asc' }, { id: 'asc' }]
+      })
+
+      let nextCursor: string | undefined
+      if (products.length > input.limit) {
+        const nextItem = products.pop()
+        nextCursor = nextItem!.id
+      }
+
+      return { products, nextCursor }
+    }),
+
+  // Get single product with the number of deals it's on
+  get: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const product = await ctx.prisma.product.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId },
+        include: { _count: { select: { lineItems: true } } }
+      })
+
+      if (!product) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Product not found' })
+      }
+
+      return product
+    }),
+
+  // Create product
+  create: tenantProcedure
+    .input(productSchema)
+    .mutation(async ({ ctx, input }) => {
+      if (input.sku) {
+        await assertSkuAvailable(ctx.prisma, ctx.tenantId, input.sku)
+      }
+
+      return ctx.prisma.product.create({
+        data: { ...input, tenantId: ctx.tenantId }
+      })
+    }),
+
+  // Update product; deals keep the price and details they were given
+  update: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      data: productSchema.partial()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.product.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Product not found' })
+      }
+
+      if (input.data.sku && input.data.sku !== existing.sku) {
+        await assertSkuAvailable(ctx.prisma, ctx.tenantId, input.data.sku, existing.id)
+      }
+
+      return ctx.prisma.product.update({
+        where: { id: input.id },
+        data: input.data
+      })
+    }),
+
+  // Delete a product no deal uses; used products are archived instead
+  delete: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const product = await ctx.prisma.product.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId },
+        include: { _count: { select: { lineItems: true } } }
+      })
+      if (!product) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Product not found' })
+      }
+
+      if (product._count.lineItems > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'Product is used on deals. Archive it instead.'
+        })
+      }
+
+      await ctx.prisma.product.delete({ where: { id: input.id } })
+      return { success: true }
+    })
+})
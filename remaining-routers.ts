@@ -163,6 +163,72 @@ export const automationRouter = router({
 })
 
 // packages/trpc/src/routers/settings.ts
+import { PrismaClient } from '@elevate/database'
+import { CUSTOM_FIELD_TYPES } from '../lib/custom-fields'
+import { leadScoringRuleSchema, queueLeadRescoring } from '../lib/lead-scoring'
+import { ASSIGNMENT_STRATEGIES, assignmentConditionsSchema } from '../lib/lead-assignment'
+import {
+  currencyCodeSchema,
+  ExchangeRateInput,
+  exchangeRateSchema,
+  getTenantBaseCurrency,
+  parseExchangeRateFile
+} from '../lib/currency'
+
+const assignmentRuleInput = z.object({
+  name: z.string().min(1),
+  priority: z.number().int().min(0).default(0),
+  isActive: z.boolean().default(true),
+  strategy: z.enum(ASSIGNMENT_STRATEGIES),
+  conditions: assignmentConditionsSchema.default([]),
+  members: z.array(z.object({
+    userId: z.string(),
+    weight: z.number().int().min(1).max(100).default(1)
+  })).min(1)
+})
+
+// Rates are stored against the tenant's current base currency
+async function saveExchangeRates(prisma: PrismaClient, tenantId: string, rates: ExchangeRateInput[]) {
+  const baseCurrency = await getTenantBaseCurrency(prisma, tenantId)
+  if (rates.some(r => r.currency === baseCurrency)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `${baseCurrency} is the base currency and needs no rate` })
+  }
+
+  return prisma.$transaction(rates.map(({ effectiveDate, ...rate }) => {
+    // Stored as a date; the time of day is dropped
+    const day = new Date(Date.UTC(effectiveDate.getUTCFullYear(), effectiveDate.getUTCMonth(), effectiveDate.getUTCDate()))
+    return prisma.exchangeRate.upsert({
+      where: {
+        tenantId_baseCurrency_currency_effectiveDate: { tenantId, baseCurrency, currency: rate.currency, effectiveDate: day }
+      },
+      create: { tenantId, baseCurrency, effectiveDate: day, ...rate },
+      update: { rate: rate.rate }
+    })
+  }))
+}
+
+// Members must be users of this tenant; a specific-user rule has exactly one
+async function validateAssignmentMembers(
+  prisma: PrismaClient,
+  tenantId: string,
+  strategy: typeof ASSIGNMENT_STRATEGIES[number],
+  members: Array<{ userId: string }>
+) {
+  if (strategy === 'SPECIFIC_USER' && members.length !== 1) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'A specific-user rule needs exactly one user' })
+  }
+
+  const userIds = [...new Set(members.map(m => m.userId))]
+  if (userIds.length !== members.length) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Each user can only be added to a rule once' })
+  }
+
+  const count = await prisma.user.count({ where: { id: { in: userIds }, tenantId } })
+  if (count !== userIds.length) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'One or more users not found' })
+  }
+}
+
 export const settingsRouter = router({
   getTenant: tenantProcedure.query(async ({ ctx }) => {
     return await ctx.prisma.tenant.findUnique({
@@ -174,7 +240,13 @@ export const settingsRouter = router({
     .input(z.object({
       name: z.string().min(1).optional(),
       branding: z.record(z.any()).optional(),
-      settings: z.record(z.any()).optional()
+      settings: z.record(z.any()).optional(),
+      trashRetentionDays: z.number().int().min(1).max(365).optional(),
+      // ISO 3166-1 alpha-2, used to parse phone numbers without a country prefix
+      defaultCountry: z.string().length(2).toUpperCase().optional(),
+      // ISO 4217; deal totals are reported in it. Rates entered against the
+      // previous base currency stop applying.
+      baseCurrency: currencyCodeSchema.optional()
     }))
     .mutation(async ({ ctx, input }) => {
       return await ctx.prisma.tenant.update({
@@ -214,5 +286,327 @@ export const settingsRouter = router({
       return await ctx.prisma.tag.create({
         data: { ...input, tenantId: ctx.tenantId }
       })
+    }),
+
+  // Custom field definitions
+  listCustomFields: tenantProcedure.query(async ({ ctx }) => {
+    return await ctx.prisma.customField.findMany({
+      where: { tenantId: ctx.tenantId },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }]
+    })
+  }),
+
+  createCustomField: tenantProcedure
+    .input(z.object({
+      name: z.string().min(1),
+      key: z.string().min(1).regex(/^[a-z][a-z0-9_]*$/, 'Use lowercase letters, numbers and underscores'),
+      type: z.enum(CUSTOM_FIELD_TYPES),
+      options: z.array(z.string().min(1)).default([]),
+      required: z.boolean().default(false),
+      currency: z.string().length(3).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.customField.findFirst({
+        where: { tenantId: ctx.tenantId, key: input.key }
+      })
+      if (existing) throw new TRPCError({ code: 'CONFLICT', message: 'A custom field with this key already exists' })
+
+      if ((input.type === 'SELECT' || input.type === 'MULTI_SELECT') && input.options.length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Select fields need at least one option' })
+      }
+
+      const count = await ctx.prisma.customField.count({ where: { tenantId: ctx.tenantId } })
+
+      return await ctx.prisma.customField.create({
+        data: {
+          ...input,
+          currency: input.type === 'CURRENCY' ? (input.currency ?? 'USD') : null,
+          order: count,
+          tenantId: ctx.tenantId
+        }
+      })
+    }),
+
+  // Key and type are fixed once created so stored values stay valid
+  updateCustomField: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      name: z.string().min(1).optional(),
+      options: z.array(z.string().min(1)).optional(),
+      required: z.boolean().optional(),
+      currency: z.string().length(3).optional(),
+      order: z.number().int().min(0).optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...data } = input
+
+      const field = await ctx.prisma.customField.findFirst({
+        where: { id, tenantId: ctx.tenantId }
+      })
+      if (!field) throw new TRPCError({ code: 'NOT_FOUND', message: 'Custom field not found' })
+
+      return await ctx.prisma.customField.update({
+        where: { id },
+        data
+      })
+    }),
+
+  deleteCustomField: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const field = await ctx.prisma.customField.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!field) throw new TRPCError({ code: 'NOT_FOUND', message: 'Custom field not found' })
+
+      await ctx.prisma.customField.delete({ where: { id: input.id } })
+
+      // Drop the key from stored contact data
+      await ctx.prisma.$executeRaw`
+        UPDATE contacts
+        SET custom_data = custom_data - ${field.key}
+        WHERE tenant_id = ${ctx.tenantId}
+        AND custom_data ? ${field.key}
+      `
+
+      return { success: true }
+    }),
+
+  // Lead scoring rules
+  listScoringRules: tenantProcedure.query(async ({ ctx }) => {
+    return await ctx.prisma.leadScoringRule.findMany({
+      where: { tenantId: ctx.tenantId },
+      orderBy: { createdAt: 'asc' }
+    })
+  }),
+
+  createScoringRule: tenantProcedure
+    .input(z.object({
+      name: z.string().min(1),
+      points: z.number().int(),
+      maxPoints: z.number().int().min(1).optional(),
+      isActive: z.boolean().default(true),
+      rule: leadScoringRuleSchema
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { rule, ...data } = input
+
+      const created = await ctx.prisma.leadScoringRule.create({
+        data: {
+          ...data,
+          type: rule.type,
+          config: rule.config,
+          tenantId: ctx.tenantId
+        }
+      })
+
+      await queueLeadRescoring(ctx.prisma, ctx.tenantId, {
+        id: created.id,
+        definition: created.isActive ? rule : undefined
+      })
+
+      return created
+    }),
+
+  updateScoringRule: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      name: z.string().min(1).optional(),
+      points: z.number().int().optional(),
+      maxPoints: z.number().int().min(1).optional().nullable(),
+      isActive: z.boolean().optional(),
+      rule: leadScoringRuleSchema.optional()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, rule, ...data } = input
+
+      const existing = await ctx.prisma.leadScoringRule.findFirst({
+        where: { id, tenantId: ctx.tenantId }
+      })
+      if (!existing) throw new TRPCError({ code: 'NOT_FOUND', message: 'Scoring rule not found' })
+
+      const updated = await ctx.prisma.leadScoringRule.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(rule && { type: rule.type, config: rule.config })
+        }
+      })
+
+      // Rules whose stored config doesn't parse score nobody
+      const definition = leadScoringRuleSchema.safeParse({ type: updated.type, config: updated.config })
+      await queueLeadRescoring(ctx.prisma, ctx.tenantId, {
+        id: updated.id,
+        definition: updated.isActive && definition.success ? definition.data : undefined
+      })
+
+      return updated
+    }),
+
+  deleteScoringRule: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.leadScoringRule.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!existing) throw new TRPCError({ code: 'NOT_FOUND', message: 'Scoring rule not found' })
+
+      await ctx.prisma.leadScoringRule.delete({ where: { id: input.id } })
+
+      await queueLeadRescoring(ctx.prisma, ctx.tenantId, { id: input.id })
+
+      return { success: true }
+    }),
+
+  // Lead assignment rules
+  listAssignmentRules: tenantProcedure.query(async ({ ctx }) => {
+    return await ctx.prisma.assignmentRule.findMany({
+      where: { tenantId: ctx.tenantId },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      include: {
+        members: {
+          orderBy: { createdAt: 'asc' },
+          include: { user: { select: { id: true, firstName: true, lastName: true, status: true } } }
+        }
+      }
+    })
+  }),
+
+  createAssignmentRule: tenantProcedure
+    .input(assignmentRuleInput)
+    .mutation(async ({ ctx, input }) => {
+      const { members, ...data } = input
+      await validateAssignmentMembers(ctx.prisma, ctx.tenantId, input.strategy, members)
+
+      return await ctx.prisma.assignmentRule.create({
+        data: {
+          ...data,
+          tenantId: ctx.tenantId,
+          members: { create: members }
+        },
+        include: { members: true }
+      })
+    }),
+
+  updateAssignmentRule: tenantProcedure
+    .input(assignmentRuleInput.partial().extend({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const { id, members, ...data } = input
+
+      const existing = await ctx.prisma.assignmentRule.findFirst({
+        where: { id, tenantId: ctx.tenantId }
+      })
+      if (!existing) throw new TRPCError({ code: 'NOT_FOUND', message: 'Assignment rule not found' })
+
+      if (members) {
+        await validateAssignmentMembers(ctx.prisma, ctx.tenantId, input.strategy ?? existing.strategy, members)
+      }
+
+      return await ctx.prisma.$transaction(async (tx) => {
+        if (members) {
+          // Keep counters for users who stay in the pool so distribution stays fair
+          await tx.assignmentRuleMember.deleteMany({
+            where: { ruleId: id, userId: { notIn: members.map(m => m.userId) } }
+          })
+          for (const member of members) {
+            await tx.assignmentRuleMember.upsert({
+              where: { ruleId_userId: { ruleId: id, userId: member.userId } },
+              create: { ruleId: id, ...member },
+              update: { weight: member.weight }
+            })
+          }
+        }
+
+        return await tx.assignmentRule.update({
+          where: { id },
+          data,
+          include: { members: true }
+        })
+      })
+    }),
+
+  deleteAssignmentRule: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.assignmentRule.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!existing) throw new TRPCError({ code: 'NOT_FOUND', message: 'Assignment rule not found' })
+
+      await ctx.prisma.assignmentRule.delete({ where: { id: input.id } })
+      return { success: true }
+    }),
+
+  // Exchange rates against the base currency, newest first
+  listExchangeRates: tenantProcedure
+    .input(z.object({
+      currency: currencyCodeSchema.optional(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
+      const baseCurrency = await getTenantBaseCurrency(ctx.prisma, ctx.tenantId)
+
+      const rates = await ctx.prisma.exchangeRate.findMany({
+        where: {
+          tenantId: ctx.tenantId,
+          baseCurrency,
+          ...(input.currency && { currency: input.currency })
+        },
+        take: input.limit + 1,
+        cursor: input.cursor ? { id: input.cursor } : undefined,
+        orderBy: [{ effectiveDate: 'desc' }, { currency: 'asc' }, { id: 'asc' }]
+      })
+
+      let nextCursor: string | undefined
+      if (rates.length > input.limit) {
+        const nextItem = rates.pop()
+        nextCursor = nextItem!.id
+      }
+
+      return { baseCurrency, rates, nextCursor }
+    }),
+
+  // Add a rate, or replace the one for the same currency and date
+  setExchangeRate: tenantProcedure
+    .input(exchangeRateSchema)
+    .mutation(async ({ ctx, input }) => {
+      const [rate] = await saveExchangeRates(ctx.prisma, ctx.tenantId, [input])
+      return rate
+    }),
+
+  // Load rates from a CSV file with Currency, Rate and Effective Date columns.
+  // Nothing is saved when any row is invalid.
+  importExchangeRates: tenantProcedure
+    .input(z.object({
+      // Base64-encoded file contents
+      data: z.string().min(1).max(2_000_000)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { rates, errors } = parseExchangeRateFile(Buffer.from(input.data, 'base64'))
+      if (errors.length > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: errors.slice(0, 5).map(e => `Row ${e.rowNumber}: ${e.message}`).join('; ')
+        })
+      }
+      if (rates.length === 0) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'The file has no rates to import' })
+      }
+
+      const saved = await saveExchangeRates(ctx.prisma, ctx.tenantId, rates)
+      return { imported: saved.length }
+    }),
+
+  deleteExchangeRate: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.exchangeRate.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!existing) throw new TRPCError({ code: 'NOT_FOUND', message: 'Exchange rate not found' })
+
+      await ctx.prisma.exchangeRate.delete({ where: { id: input.id } })
+      return { success: true }
     })
 })
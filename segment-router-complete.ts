@@ -0,0 +1,143 @@
+// packages/trpc/src/routers/segment.ts
+import { z } from 'zod'
+import { router, tenantProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { Prisma } from '@elevate/database'
+import { buildContactFilterWhere, contactFilterSchema } from '../lib/contact-filter'
+
+const segmentSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional().nullable(),
+  filter: contactFilterSchema
+})
+
+export const segmentRouter = router({
+  // List saved segments. Counting members runs each segment's filter, so
+  // counts come from `get` for the segment being looked at.
+  list: tenantProcedure
+    .query(async ({ ctx }) => {
+      return ctx.prisma.segment.findMany({
+        where: { tenantId: ctx.tenantId },
+        orderBy: { name: 'asc' },
+        include: {
+          createdBy: { select: { id: true, firstName: true, lastName: true } }
+        }
+      })
+    }),
+
+  // Get single segment with member count
+  get: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const segment = await ctx.prisma.segment.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId },
+        include: {
+          createdBy: { select: { id: true, firstName: true, lastName: true } }
+        }
+      })
+      if (!segment) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Segment not found' })
+      }
+
+      const where = await buildContactFilterWhere(
+        ctx.prisma, ctx.tenantId, contactFilterSchema.parse(segment.filter)
+      )
+      const memberCount = await ctx.prisma.contact.count({
+        where: { tenantId: ctx.tenantId, deletedAt: null, AND: [where] }
+      })
+
+      return { ...segment, memberCount }
+    }),
+
+  // Count and sample matching contacts for an unsaved filter
+  preview: tenantProcedure
+    .input(z.object({
+      filter: contactFilterSchema,
+      limit: z.number().min(1).max(50).default(10)
+    }))
+    .query(async ({ ctx, input }) => {
+      const where: Prisma.ContactWhereInput = {
+        tenantId: ctx.tenantId,
+        deletedAt: null,
+        AND: [await buildContactFilterWhere(ctx.prisma, ctx.tenantId, input.filter)]
+      }
+
+      const [memberCount, sample] = await Promise.all([
+        ctx.prisma.contact.count({ where }),
+        ctx.prisma.contact.findMany({
+          where,
+          take: input.limit,
+          orderBy: { createdAt: 'desc' },
+          select: { id: true, firstName: true, lastName: true, email: true, company: true }
+        })
+      ])
+
+      return { memberCount, sample }
+    }),
+
+  // Create segment
+  create: tenantProcedure
+    .input(segmentSchema)
+    .mutation(async ({ ctx, input }) => {
+      // Validate the filter resolves before saving it
+      await buildContactFilterWhere(ctx.prisma, ctx.tenantId, input.filter)
+
+      const segment = await ctx.prisma.segment.create({
+        data: {
+          tenantId: ctx.tenantId,
+          createdById: ctx.user.id,
+          name: input.name,
+          description: input.description,
+          filter: input.filter as Prisma.InputJsonValue
+        }
+      })
+
+      return segment
+    }),
+
+  // Update segment
+  update: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      data: segmentSchema.partial()
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { filter, ...data } = input.data
+
+      const existing = await ctx.prisma.segment.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Segment not found' })
+      }
+
+      if (filter) {
+        await buildContactFilterWhere(ctx.prisma, ctx.tenantId, filter)
+      }
+
+      const segment = await ctx.prisma.segment.update({
+        where: { id: input.id },
+        data: {
+          ...data,
+          ...(filter && { filter: filter as Prisma.InputJsonValue })
+        }
+      })
+
+      return segment
+    }),
+
+  // Delete segment
+  delete: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const segment = await ctx.prisma.segment.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!segment) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Segment not found' })
+      }
+
+      await ctx.prisma.segment.delete({ where: { id: input.id } })
+      return { success: true }
+    })
+})
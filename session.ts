@@ -0,0 +1,31 @@
+// apps/web/lib/session.ts
+import { NextRequest } from 'next/server'
+import jwt from 'jsonwebtoken'
+
+export interface Session {
+  userId: string
+  tenantId: string
+}
+
+const SESSION_COOKIE = 'auth-token'
+
+// The signed-in user behind a route handler request, from the same JWT the
+// API accepts: the session cookie, or a bearer token
+export function getSession(request: NextRequest): Session | null {
+  const secret = process.env.JWT_SECRET
+  const header = request.headers.get('authorization')
+  const token = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length)
+    : request.cookies.get(SESSION_COOKIE)?.value
+  if (!secret || !token) return null
+
+  try {
+    const payload = jwt.verify(token, secret)
+    if (typeof payload !== 'object' || typeof payload.userId !== 'string' || typeof payload.tenantId !== 'string') {
+      return null
+    }
+    return { userId: payload.userId, tenantId: payload.tenantId }
+  } catch {
+    return null
+  }
+}
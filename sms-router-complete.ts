@@ -1,7 +1,23 @@
 // packages/trpc/src/routers/sms.ts
+import { randomUUID } from 'crypto'
 import { z } from 'zod'
 import { router, tenantProcedure } from '../trpc'
 import { TRPCError } from '@trpc/server'
+import { Prisma } from '@elevate/database'
+import { getSegmentWhere } from '../lib/contact-filter'
+import { getTenantDefaultCountry, normalizePhone, smsNumberFor } from '../lib/phone'
+import { assertCanContact, isSmsOptedOut, optedOutSmsNumbers } from '../lib/consent'
+import { listPageSchema, paginateList, SortOption } from '../lib/list-query'
+
+// Segment members queued per page in sendToSegment
+const SEGMENT_SEND_BATCH_SIZE = 500
+
+const SMS_SORT_KEYS = ['createdAt', 'sentAt'] as const
+
+const SMS_SORTS: Record<typeof SMS_SORT_KEYS[number], SortOption> = {
+  createdAt: { columns: [{ field: 'createdAt' }], defaultDirection: 'desc' },
+  sentAt: { columns: [{ field: 'sentAt', nullable: true }], defaultDirection: 'desc' }
+}
 
 export const smsRouter = router({
   // List SMS accounts
@@ -48,7 +64,8 @@ export const smsRouter = router({
     .input(z.object({
       accountId: z.string().optional(),
       contactId: z.string().optional(),
-      to: z.string().regex(/^\+\d{10,15}$/, 'Must be E.164 format'),
+      // Any format; parsed with the tenant's default country. Defaults to the contact's best number.
+      to: z.string().optional(),
       body: z.string().min(1).max(1600), // SMS limit
       scheduledFor: z.date().optional()
     }))
@@ -72,13 +89,43 @@ export const smsRouter = router({
         })
       }
 
+      let to: string | null = null
+      if (input.to) {
+        const parsed = normalizePhone(input.to, await getTenantDefaultCountry(ctx.prisma, ctx.tenantId))
+        if (!parsed?.valid || !parsed.e164) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: `"${input.to}" is not a valid phone number` })
+        }
+        to = parsed.e164
+      } else if (input.contactId) {
+        const contact = await ctx.prisma.contact.findFirst({
+          where: { id: input.contactId, tenantId: ctx.tenantId, deletedAt: null }
+        })
+        if (!contact) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
+        }
+        to = smsNumberFor(contact)
+        if (!to) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'Contact has no valid number that can receive SMS' })
+        }
+      } else {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Provide a recipient number or contact' })
+      }
+
+      // Opt-outs are honored per contact and per number (a STOP reply may come from either)
+      if (input.contactId) {
+        await assertCanContact(ctx.prisma, ctx.tenantId, input.contactId, 'SMS')
+      }
+      if (await isSmsOptedOut(ctx.prisma, ctx.tenantId, to)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `${to} has opted out of SMS` })
+      }
+
       // Create SMS record
       const sms = await ctx.prisma.smsMessage.create({
         data: {
           tenantId: ctx.tenantId,
           accountId: account.id,
           contactId: input.contactId,
-          to: input.to,
+          to,
           from: account.fromNumber,
           body: input.body,
           status: input.scheduledFor ? 'QUEUED' : 'QUEUED'
@@ -105,36 +152,150 @@ export const smsRouter = router({
       return sms
     }),
 
+  // Queue one SMS per member of a saved segment
+  sendToSegment: tenantProcedure
+    .input(z.object({
+      accountId: z.string().optional(),
+      segmentId: z.string(),
+      body: z.string().min(1).max(1600)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const account = input.accountId
+        ? await ctx.prisma.smsAccount.findFirst({
+            where: { id: input.accountId, tenantId: ctx.tenantId }
+          })
+        : await ctx.prisma.smsAccount.findFirst({
+            where: { tenantId: ctx.tenantId, isDefault: true }
+          })
+
+      if (!account) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'No SMS account configured. Please add an SMS account first.'
+        })
+      }
+
+      const segmentWhere = await getSegmentWhere(ctx.prisma, ctx.tenantId, input.segmentId)
+      const results = { queued: 0, skipped: 0, optedOut: 0 }
+
+      // Members are read a page at a time; each page's messages and
+      // activities are written with one createMany apiece
+      let cursor: string | undefined
+      do {
+        const contacts = await ctx.prisma.contact.findMany({
+          where: {
+            tenantId: ctx.tenantId,
+            deletedAt: null,
+            AND: [segmentWhere],
+            ...(cursor && { id: { gt: cursor } })
+          },
+          select: {
+            id: true,
+            phoneE164: true,
+            phoneValid: true,
+            phoneType: true,
+            mobileE164: true,
+            mobileValid: true,
+            mobileType: true,
+            smsConsent: true
+          },
+          orderBy: { id: 'asc' },
+          take: SEGMENT_SEND_BATCH_SIZE
+        })
+
+        // Numbers are already E.164, the suppression list's key
+        const suppressed = await optedOutSmsNumbers(
+          ctx.prisma,
+          ctx.tenantId,
+          contacts.map(smsNumberFor).filter((to): to is string => to !== null)
+        )
+
+        const messages: Prisma.SmsMessageCreateManyInput[] = []
+        for (const contact of contacts) {
+          if (contact.smsConsent === 'OPTED_OUT') {
+            results.optedOut++
+            continue
+          }
+
+          // Prefer the mobile number; skip contacts without a valid textable number
+          const to = smsNumberFor(contact)
+          if (!to) {
+            results.skipped++
+            continue
+          }
+          if (suppressed.has(to)) {
+            results.optedOut++
+            continue
+          }
+
+          // IDs are set here so the activities can reference their messages
+          messages.push({
+            id: randomUUID(),
+            tenantId: ctx.tenantId,
+            accountId: account.id,
+            contactId: contact.id,
+            to,
+            from: account.fromNumber,
+            body: input.body,
+            status: 'QUEUED'
+          })
+        }
+
+        if (messages.length > 0) {
+          await ctx.prisma.$transaction([
+            ctx.prisma.smsMessage.createMany({ data: messages }),
+            ctx.prisma.activity.createMany({
+              data: messages.map(sms => ({
+                tenantId: ctx.tenantId,
+                contactId: sms.contactId,
+                userId: ctx.user.id,
+                type: 'SMS' as const,
+                title: 'SMS sent',
+                description: input.body.substring(0, 100),
+                metadata: { smsId: sms.id!, segmentId: input.segmentId }
+              }))
+            })
+          ])
+          results.queued += messages.length
+        }
+
+        cursor = contacts.length === SEGMENT_SEND_BATCH_SIZE ? contacts[contacts.length - 1].id : undefined
+      } while (cursor)
+
+      return results
+    }),
+
   // List sent SMS
   list: tenantProcedure
-    .input(z.object({
+    .input(listPageSchema.extend({
       contactId: z.string().optional(),
       status: z.enum(['QUEUED', 'SENDING', 'SENT', 'DELIVERED', 'FAILED']).optional(),
-      cursor: z.string().optional(),
-      limit: z.number().min(1).max(100).default(50)
+      direction: z.enum(['OUTBOUND', 'INBOUND']).optional(),
+      sortBy: z.enum(SMS_SORT_KEYS).default('createdAt')
     }))
     .query(async ({ ctx, input }) => {
-      const messages = await ctx.prisma.smsMessage.findMany({
-        where: {
-          tenantId: ctx.tenantId,
-          ...(input.contactId && { contactId: input.contactId }),
-          ...(input.status && { status: input.status })
-        },
-        take: input.limit + 1,
-        cursor: input.cursor ? { id: input.cursor } : undefined,
-        orderBy: { createdAt: 'desc' },
-        include: {
-          contact: { select: { firstName: true, lastName: true, phone: true } }
-        }
-      })
-
-      let nextCursor: string | undefined
-      if (messages.length > input.limit) {
-        const nextItem = messages.pop()
-        nextCursor = nextItem!.id
+      const where: Prisma.SmsMessageWhereInput = {
+        tenantId: ctx.tenantId,
+        ...(input.contactId && { contactId: input.contactId }),
+        ...(input.status && { status: input.status }),
+        ...(input.direction && { direction: input.direction })
       }
 
-      return { messages, nextCursor }
+      const { items: messages, nextCursor, total } = await paginateList({
+        ...input,
+        sorts: SMS_SORTS,
+        findMany: page => ctx.prisma.smsMessage.findMany({
+          where: { AND: [where, page.where as Prisma.SmsMessageWhereInput] },
+          take: page.take,
+          orderBy: page.orderBy as Prisma.SmsMessageOrderByWithRelationInput[],
+          include: {
+            contact: { select: { firstName: true, lastName: true, phone: true } }
+          }
+        }),
+        count: () => ctx.prisma.smsMessage.count({ where })
+      })
+
+      return { messages, nextCursor, total }
     }),
 
   // Get SMS statistics
@@ -146,6 +307,7 @@ export const smsRouter = router({
     .query(async ({ ctx, input }) => {
       const where = {
         tenantId: ctx.tenantId,
+        direction: 'OUTBOUND' as const,
         ...(input.startDate && { createdAt: { gte: input.startDate } }),
         ...(input.endDate && { createdAt: { lte: input.endDate } })
       }
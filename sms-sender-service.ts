@@ -1,6 +1,14 @@
 // packages/worker/src/services/sms-sender.ts
 import { PrismaClient } from '@elevate/database'
 import twilio from 'twilio'
+import { recalculateLeadScore } from '@elevate/trpc/lib/lead-scoring'
+import {
+  isSmsOptedOut,
+  releaseSmsNumber,
+  setConsent,
+  smsKeywordConsent,
+  suppressSmsNumber
+} from '@elevate/trpc/lib/consent'
 
 const prisma = new PrismaClient()
 
@@ -26,6 +34,20 @@ export class SmsSender {
         return
       }
 
+      // Re-check consent at send time; a STOP may have arrived after queueing
+      const contact = sms.contactId
+        ? await prisma.contact.findUnique({ where: { id: sms.contactId }, select: { smsConsent: true } })
+        : null
+
+      if (contact?.smsConsent === 'OPTED_OUT' || await isSmsOptedOut(prisma, sms.tenantId, sms.to)) {
+        await prisma.smsMessage.update({
+          where: { id: smsId },
+          data: { status: 'FAILED', failureReason: 'Recipient opted out of SMS' }
+        })
+        console.log(`SMS ${smsId} not sent: recipient opted out`)
+        return
+      }
+
       // Update status to SENDING
       await prisma.smsMessage.update({
         where: { id: smsId },
@@ -89,8 +111,81 @@ export class SmsSender {
   }
 }
 
-// Webhook handler for Twilio status updates
+// Record an inbound message (a reply) against the matching account and contact
+async function handleInboundSms(data: any): Promise<void> {
+  const account = await prisma.smsAccount.findFirst({
+    where: { fromNumber: data.To }
+  })
+
+  if (!account) return
+
+  const numberMatch = {
+    tenantId: account.tenantId,
+    OR: [{ mobileE164: data.From }, { phoneE164: data.From }, { mobile: data.From }, { phone: data.From }]
+  }
+
+  const contact = await prisma.contact.findFirst({
+    where: { ...numberMatch, deletedAt: null }
+  })
+
+  // STOP/START keywords apply to the number itself, even when no contact has
+  // it, and to every contact sharing it, trashed ones included
+  const keywordConsent = smsKeywordConsent(data.Body)
+  if (keywordConsent) {
+    const note = `Replied "${String(data.Body).trim()}" from ${data.From}`
+    if (keywordConsent === 'OPTED_OUT') {
+      await suppressSmsNumber(prisma, account.tenantId, data.From, { source: 'SMS_KEYWORD', note })
+    } else {
+      await releaseSmsNumber(prisma, account.tenantId, data.From)
+    }
+
+    const holders = await prisma.contact.findMany({ where: numberMatch, select: { id: true } })
+    for (const holder of holders) {
+      await setConsent(prisma, account.tenantId, holder.id, 'SMS', keywordConsent, {
+        source: 'SMS_KEYWORD',
+        note
+      })
+    }
+  }
+
+  const sms = await prisma.smsMessage.create({
+    data: {
+      tenantId: account.tenantId,
+      accountId: account.id,
+      contactId: contact?.id,
+      direction: 'INBOUND',
+      to: data.To,
+      from: data.From,
+      body: data.Body,
+      status: 'DELIVERED',
+      deliveredAt: new Date(),
+      providerMessageId: data.MessageSid
+    }
+  })
+
+  if (!contact) return
+
+  await prisma.activity.create({
+    data: {
+      tenantId: account.tenantId,
+      contactId: contact.id,
+      type: 'SMS',
+      title: 'SMS received',
+      description: String(data.Body).substring(0, 100),
+      metadata: { smsId: sms.id }
+    }
+  })
+
+  await recalculateLeadScore(prisma, account.tenantId, contact.id)
+}
+
+// Webhook handler for Twilio status updates and inbound messages
 export async function handleTwilioWebhook(data: any): Promise<void> {
+  if (data.SmsStatus === 'received' && data.Body !== undefined) {
+    await handleInboundSms(data)
+    return
+  }
+
   const messageId = data.MessageSid
 
   const sms = await prisma.smsMessage.findFirst({
@@ -0,0 +1,48 @@
+// packages/worker/src/services/task-reminder.ts
+import { PrismaClient } from '@elevate/database'
+
+const prisma = new PrismaClient()
+
+export class TaskReminder {
+  // Notify assignees of open tasks whose reminder time has passed
+  async processQueue(): Promise<void> {
+    const dueTasks = await prisma.task.findMany({
+      where: {
+        status: 'OPEN',
+        assignedToId: { not: null },
+        reminderAt: { lte: new Date() },
+        reminderSentAt: null
+      },
+      take: 100,
+      orderBy: { reminderAt: 'asc' }
+    })
+
+    for (const task of dueTasks) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          // Claim first so overlapping runs never send a reminder twice
+          const claimed = await tx.task.updateMany({
+            where: { id: task.id, reminderSentAt: null },
+            data: { reminderSentAt: new Date() }
+          })
+          if (claimed.count === 0) return
+
+          await tx.notification.create({
+            data: {
+              tenantId: task.tenantId,
+              userId: task.assignedToId!,
+              type: 'TASK_REMINDER',
+              title: `Reminder: ${task.title}`,
+              body: task.dueAt ? `Due ${task.dueAt.toISOString()}` : null,
+              taskId: task.id,
+              contactId: task.contactId,
+              dealId: task.dealId
+            }
+          })
+        })
+      } catch (error) {
+        console.error(`Error sending reminder for task ${task.id}:`, error)
+      }
+    }
+  }
+}
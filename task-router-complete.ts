@@ -0,0 +1,247 @@
+// packages/trpc/src/routers/task.ts
+import { z } from 'zod'
+import { router, tenantProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { Prisma, PrismaClient } from '@elevate/database'
+import {
+  completeTask,
+  reminderAtFor,
+  resolveTaskLinks,
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  TASK_TYPES,
+  taskInclude,
+  taskRecurrenceSchema,
+  todayRange
+} from '../lib/tasks'
+import { paginateList, SortOption } from '../lib/list-query'
+
+const taskSchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().max(5000).optional().nullable(),
+  type: z.enum(TASK_TYPES).default('TODO'),
+  priority: z.enum(TASK_PRIORITIES).default('NORMAL'),
+  contactId: z.string().optional().nullable(),
+  dealId: z.string().optional().nullable(),
+  assignedToId: z.string().optional().nullable(),
+  dueAt: z.date().optional().nullable(),
+  // Minutes before `dueAt` to remind the assignee; null for no reminder
+  reminderMinutesBefore: z.number().int().min(0).max(60 * 24 * 14).optional().nullable(),
+  recurrence: taskRecurrenceSchema.optional().nullable()
+})
+
+// By due date (undated last), then most recent. A keyset sort, as an ID
+// cursor can't anchor a page on the mostly null dueAt.
+const TASK_SORTS: Record<'due', SortOption> = {
+  due: {
+    columns: [{ field: 'dueAt', nullable: true }, { field: 'createdAt', reverse: true }],
+    defaultDirection: 'asc'
+  }
+}
+
+// One page of matching tasks in due date order
+function paginateTasks(prisma: PrismaClient, where: Prisma.TaskWhereInput, page: { cursor?: string; limit: number }) {
+  return paginateList({
+    sorts: TASK_SORTS,
+    sortBy: 'due',
+    cursor: page.cursor,
+    limit: page.limit,
+    findMany: args => prisma.task.findMany({
+      where: { AND: [where, args.where as Prisma.TaskWhereInput] },
+      take: args.take,
+      orderBy: args.orderBy as Prisma.TaskOrderByWithRelationInput[],
+      include: taskInclude
+    }),
+    count: () => prisma.task.count({ where })
+  })
+}
+
+export const taskRouter = router({
+  // List tasks with filters and pagination
+  list: tenantProcedure
+    .input(z.object({
+      contactId: z.string().optional(),
+      dealId: z.string().optional(),
+      assignedToId: z.string().optional(),
+      status: z.enum(TASK_STATUSES).optional(),
+      type: z.enum(TASK_TYPES).optional(),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
+      const where: Prisma.TaskWhereInput = {
+        tenantId: ctx.tenantId,
+        ...(input.contactId && { contactId: input.contactId }),
+        ...(input.dealId && { dealId: input.dealId }),
+        ...(input.assignedToId && { assignedToId: input.assignedToId }),
+        ...(input.status && { status: input.status }),
+        ...(input.type && { type: input.type })
+      }
+      const { items: tasks, nextCursor } = await paginateTasks(ctx.prisma, where, input)
+
+      return { tasks, nextCursor }
+    }),
+
+  // The current user's open tasks: overdue (before today), due today, or upcoming
+  myTasks: tenantProcedure
+    .input(z.object({
+      view: z.enum(['overdue', 'today', 'upcoming']),
+      timeZone: z.string().default('UTC'),
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
+      const { start, end } = todayRange(input.timeZone)
+      const dueAt = {
+        overdue: { lt: start },
+        today: { gte: start, lt: end },
+        upcoming: { gte: end }
+      }[input.view]
+
+      const { items: tasks, nextCursor } = await paginateTasks(ctx.prisma, {
+        tenantId: ctx.tenantId,
+        assignedToId: ctx.user.id,
+        status: 'OPEN',
+        dueAt
+      }, input)
+
+      return { tasks, nextCursor }
+    }),
+
+  // Badge counts for the "my tasks" views
+  myTaskCounts: tenantProcedure
+    .input(z.object({ timeZone: z.string().default('UTC') }))
+    .query(async ({ ctx, input }) => {
+      const { start, end } = todayRange(input.timeZone)
+      const where = { tenantId: ctx.tenantId, assignedToId: ctx.user.id, status: 'OPEN' as const }
+
+      const [overdue, today, upcoming, undated] = await Promise.all([
+        ctx.prisma.task.count({ where: { ...where, dueAt: { lt: start } } }),
+        ctx.prisma.task.count({ where: { ...where, dueAt: { gte: start, lt: end } } }),
+        ctx.prisma.task.count({ where: { ...where, dueAt: { gte: end } } }),
+        ctx.prisma.task.count({ where: { ...where, dueAt: null } })
+      ])
+
+      return { overdue, today, upcoming, undated }
+    }),
+
+  // Get single task
+  get: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const task = await ctx.prisma.task.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId },
+        include: {
+          ...taskInclude,
+          createdBy: { select: { id: true, firstName: true, lastName: true } },
+          completedBy: { select: { id: true, firstName: true, lastName: true } }
+        }
+      })
+
+      if (!task) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Task not found' })
+      }
+
+      return task
+    }),
+
+  // Create task; assigned to the creator unless an assignee is given
+  create: tenantProcedure
+    .input(taskSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { contactId, dealId, assignedToId, recurrence, ...data } = input
+      if (recurrence && !data.dueAt) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Recurring tasks need a due date' })
+      }
+
+      const links = await resolveTaskLinks(ctx.prisma, ctx.tenantId, {
+        contactId,
+        dealId,
+        assignedToId: assignedToId === undefined ? ctx.user.id : assignedToId
+      })
+
+      return ctx.prisma.task.create({
+        data: {
+          ...data,
+          ...links,
+          tenantId: ctx.tenantId,
+          createdById: ctx.user.id,
+          reminderAt: reminderAtFor(data.dueAt, data.reminderMinutesBefore),
+          recurrence: recurrence ? (recurrence as Prisma.InputJsonValue) : Prisma.DbNull
+        },
+        include: taskInclude
+      })
+    }),
+
+  // Update task
+  update: tenantProcedure
+    .input(z.object({
+      id: z.string(),
+      data: taskSchema.partial().extend({
+        status: z.enum(['OPEN', 'CANCELLED']).optional()
+      })
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.prisma.task.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!existing) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Task not found' })
+      }
+
+      const { contactId, dealId, assignedToId, recurrence, ...data } = input.data
+      const links = await resolveTaskLinks(ctx.prisma, ctx.tenantId, { contactId, dealId, assignedToId })
+
+      const dueAt = data.dueAt !== undefined ? data.dueAt : existing.dueAt
+      const minutesBefore = data.reminderMinutesBefore !== undefined
+        ? data.reminderMinutesBefore
+        : existing.reminderMinutesBefore
+      const recurring = recurrence !== undefined ? !!recurrence : existing.recurrence !== null
+      if (recurring && !dueAt) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Recurring tasks need a due date' })
+      }
+
+      // A moved due date or reminder re-arms the reminder
+      const reminderAt = reminderAtFor(dueAt, minutesBefore)
+      const reminderChanged = reminderAt?.getTime() !== existing.reminderAt?.getTime()
+
+      return ctx.prisma.task.update({
+        where: { id: existing.id },
+        data: {
+          ...data,
+          ...links,
+          ...(recurrence !== undefined && {
+            recurrence: recurrence ? (recurrence as Prisma.InputJsonValue) : Prisma.DbNull
+          }),
+          ...(data.status === 'OPEN' && { completedAt: null, completedById: null }),
+          ...(reminderChanged && { reminderAt, reminderSentAt: null })
+        },
+        include: taskInclude
+      })
+    }),
+
+  // Complete task; recurring tasks schedule their next occurrence
+  complete: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      return ctx.prisma.$transaction(tx =>
+        completeTask(tx, ctx.tenantId, ctx.user.id, input.id)
+      )
+    }),
+
+  // Delete task
+  delete: tenantProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const task = await ctx.prisma.task.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId }
+      })
+      if (!task) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Task not found' })
+      }
+
+      await ctx.prisma.task.delete({ where: { id: task.id } })
+
+      return { success: true }
+    })
+})
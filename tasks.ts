@@ -0,0 +1,208 @@
+// packages/trpc/src/lib/tasks.ts
+import { z } from 'zod'
+import { Prisma } from '@elevate/database'
+import { TRPCError } from '@trpc/server'
+
+export const TASK_TYPES = ['CALL', 'EMAIL', 'TODO'] as const
+export const TASK_PRIORITIES = ['LOW', 'NORMAL', 'HIGH'] as const
+export const TASK_STATUSES = ['OPEN', 'COMPLETED', 'CANCELLED'] as const
+
+export const taskRecurrenceSchema = z.object({
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']),
+  interval: z.number().int().min(1).max(365).default(1),
+  until: z.coerce.date().optional()
+})
+
+export type TaskRecurrence = z.infer<typeof taskRecurrenceSchema>
+
+export const taskInclude = {
+  contact: { select: { id: true, firstName: true, lastName: true } },
+  deal: { select: { id: true, title: true } },
+  assignedTo: { select: { id: true, firstName: true, lastName: true } }
+} satisfies Prisma.TaskInclude
+
+export function reminderAtFor(dueAt: Date | null | undefined, minutesBefore: number | null | undefined): Date | null {
+  if (!dueAt || minutesBefore === null || minutesBefore === undefined) return null
+  return new Date(dueAt.getTime() - minutesBefore * 60 * 1000)
+}
+
+function addInterval(date: Date, recurrence: TaskRecurrence): Date {
+  const next = new Date(date)
+  if (recurrence.frequency === 'DAILY') {
+    next.setUTCDate(next.getUTCDate() + recurrence.interval)
+  } else if (recurrence.frequency === 'WEEKLY') {
+    next.setUTCDate(next.getUTCDate() + 7 * recurrence.interval)
+  } else {
+    // Clamp to the month's last day so the 31st doesn't roll into the next month
+    const day = next.getUTCDate()
+    next.setUTCDate(1)
+    next.setUTCMonth(next.getUTCMonth() + recurrence.interval)
+    const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate()
+    next.setUTCDate(Math.min(day, lastDay))
+  }
+  return next
+}
+
+// Due date of the occurrence after `dueAt`, skipping any already in the past.
+// Returns null once the series has ended.
+export function nextDueDate(dueAt: Date, recurrence: TaskRecurrence, now = new Date()): Date | null {
+  let next = addInterval(dueAt, recurrence)
+  while (next <= now) {
+    next = addInterval(next, recurrence)
+  }
+  return recurrence.until && next > recurrence.until ? null : next
+}
+
+// Offset of `timeZone` from UTC at `date`, in milliseconds
+function zoneOffset(date: Date, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    }).formatToParts(date).map(p => [p.type, p.value])
+  )
+  const asUtc = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+// Start of today and tomorrow in the user's time zone
+export function todayRange(timeZone: string, now = new Date()): { start: Date; end: Date } {
+  let offset: number
+  try {
+    offset = zoneOffset(now, timeZone)
+  } catch {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Unknown time zone "${timeZone}"` })
+  }
+
+  const local = new Date(now.getTime() + offset)
+  const midnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate())
+  const start = new Date(midnight - zoneOffset(new Date(midnight - offset), timeZone))
+  const tomorrow = midnight + 24 * 60 * 60 * 1000
+  const end = new Date(tomorrow - zoneOffset(new Date(tomorrow - offset), timeZone))
+  return { start, end }
+}
+
+// Contact, deal and assignee must belong to the tenant. A deal's contact is
+// filled in when only the deal is given.
+export async function resolveTaskLinks(
+  db: Prisma.TransactionClient,
+  tenantId: string,
+  input: { contactId?: string | null; dealId?: string | null; assignedToId?: string | null }
+): Promise<{ contactId?: string | null; dealId?: string | null; assignedToId?: string | null }> {
+  const links: { contactId?: string | null; dealId?: string | null; assignedToId?: string | null } = {}
+
+  if (input.dealId) {
+    const deal = await db.deal.findFirst({
+      where: { id: input.dealId, tenantId, deletedAt: null },
+      select: { id: true, contactId: true }
+    })
+    if (!deal) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Deal not found' })
+    }
+    links.dealId = deal.id
+    if (input.contactId === undefined) links.contactId = deal.contactId
+  } else if (input.dealId === null) {
+    links.dealId = null
+  }
+
+  if (input.contactId) {
+    const contact = await db.contact.findFirst({
+      where: { id: input.contactId, tenantId, deletedAt: null },
+      select: { id: true }
+    })
+    if (!contact) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found' })
+    }
+    links.contactId = contact.id
+  } else if (input.contactId === null) {
+    links.contactId = null
+  }
+
+  if (input.assignedToId) {
+    const user = await db.user.findFirst({
+      where: { id: input.assignedToId, tenantId },
+      select: { id: true }
+    })
+    if (!user) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' })
+    }
+    links.assignedToId = user.id
+  } else if (input.assignedToId === null) {
+    links.assignedToId = null
+  }
+
+  return links
+}
+
+// Mark a task done; for recurring tasks the next occurrence is created in the
+// same transaction and returned alongside
+export async function completeTask(
+  tx: Prisma.TransactionClient,
+  tenantId: string,
+  userId: string,
+  taskId: string
+) {
+  const task = await tx.task.findFirst({
+    where: { id: taskId, tenantId }
+  })
+  if (!task) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Task not found' })
+  }
+  if (task.status !== 'OPEN') {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Task is not open' })
+  }
+
+  const completed = await tx.task.update({
+    where: { id: task.id },
+    data: { status: 'COMPLETED', completedAt: new Date(), completedById: userId },
+    include: taskInclude
+  })
+
+  if (task.contactId) {
+    await tx.activity.create({
+      data: {
+        tenantId,
+        contactId: task.contactId,
+        dealId: task.dealId,
+        userId,
+        type: 'SYSTEM',
+        title: 'Task completed',
+        description: task.title,
+        metadata: { taskId: task.id, taskType: task.type }
+      }
+    })
+  }
+
+  const recurrence = taskRecurrenceSchema.safeParse(task.recurrence)
+  const dueAt = recurrence.success && task.dueAt ? nextDueDate(task.dueAt, recurrence.data) : null
+
+  const next = dueAt
+    ? await tx.task.create({
+        data: {
+          tenantId,
+          title: task.title,
+          description: task.description,
+          type: task.type,
+          priority: task.priority,
+          contactId: task.contactId,
+          dealId: task.dealId,
+          assignedToId: task.assignedToId,
+          createdById: task.createdById,
+          dueAt,
+          reminderMinutesBefore: task.reminderMinutesBefore,
+          reminderAt: reminderAtFor(dueAt, task.reminderMinutesBefore),
+          recurrence: task.recurrence as Prisma.InputJsonValue,
+          seriesId: task.seriesId ?? task.id
+        },
+        include: taskInclude
+      })
+    : null
+
+  return { task: completed, next }
+}
@@ -0,0 +1,25 @@
+// packages/worker/src/services/trash-purger.ts
+import { PrismaClient } from '@elevate/database'
+import { purgeExpiredTrash } from '@elevate/trpc/lib/trash'
+
+const prisma = new PrismaClient()
+
+export class TrashPurger {
+  // Permanently delete trashed contacts and deals past each tenant's retention period
+  async processQueue(): Promise<void> {
+    const tenants = await prisma.tenant.findMany({
+      select: { id: true, trashRetentionDays: true }
+    })
+
+    for (const tenant of tenants) {
+      try {
+        const purged = await purgeExpiredTrash(prisma, tenant.id, tenant.trashRetentionDays)
+        if (purged.contacts > 0 || purged.deals > 0) {
+          console.log(`Purged ${purged.contacts} contact(s) and ${purged.deals} deal(s) for tenant ${tenant.id}`)
+        }
+      } catch (error) {
+        console.error(`Error purging trash for tenant ${tenant.id}:`, error)
+      }
+    }
+  }
+}
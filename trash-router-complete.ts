@@ -0,0 +1,199 @@
+// packages/trpc/src/routers/trash.ts
+import { z } from 'zod'
+import { router, tenantProcedure } from '../trpc'
+import { TRPCError } from '@trpc/server'
+import { Prisma } from '@elevate/database'
+import { recalculateLeadScore } from '../lib/lead-scoring'
+import { paginateList } from '../lib/list-query'
+import { TRASH_SORTS } from '../lib/trash'
+
+const trashTypeSchema = z.enum(['contact', 'deal'])
+
+export const trashRouter = router({
+  // List trashed contacts or deals, most recently deleted first
+  list: tenantProcedure
+    .input(z.object({
+      type: trashTypeSchema,
+      cursor: z.string().optional(),
+      limit: z.number().min(1).max(100).default(50)
+    }))
+    .query(async ({ ctx, input }) => {
+      const where = { tenantId: ctx.tenantId, deletedAt: { not: null } }
+      const deletedBy = { select: { id: true, firstName: true, lastName: true } }
+
+      // Keyset pages, as a bulk delete stamps one deletedAt on many rows
+      const page = {
+        sorts: TRASH_SORTS,
+        sortBy: 'deleted',
+        cursor: input.cursor,
+        limit: input.limit
+      }
+
+      const { items, nextCursor } = input.type === 'contact'
+        ? await paginateList({
+            ...page,
+            findMany: args => ctx.prisma.contact.findMany({
+              where: { AND: [where, args.where as Prisma.ContactWhereInput] },
+              take: args.take,
+              orderBy: args.orderBy as Prisma.ContactOrderByWithRelationInput[],
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+                company: true,
+                deletedAt: true,
+                deletedBy
+              }
+            }),
+            count: () => ctx.prisma.contact.count({ where })
+          })
+        : await paginateList({
+            ...page,
+            findMany: args => ctx.prisma.deal.findMany({
+              where: { AND: [where, args.where as Prisma.DealWhereInput] },
+              take: args.take,
+              orderBy: args.orderBy as Prisma.DealOrderByWithRelationInput[],
+              select: {
+                id: true,
+                title: true,
+                value: true,
+                currency: true,
+                deletedAt: true,
+                deletedBy,
+                contact: { select: { id: true, firstName: true, lastName: true, deletedAt: true } }
+              }
+            }),
+            count: () => ctx.prisma.deal.count({ where })
+          })
+
+      const tenant = await ctx.prisma.tenant.findUniqueOrThrow({
+        where: { id: ctx.tenantId },
+        select: { trashRetentionDays: true }
+      })
+
+      return { items, nextCursor, retentionDays: tenant.trashRetentionDays }
+    }),
+
+  // Restore a trashed record. Restoring a contact also restores the deals
+  // that were trashed along with it.
+  restore: tenantProcedure
+    .input(z.object({ type: trashTypeSchema, id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.type === 'contact') {
+        const contact = await ctx.prisma.contact.findFirst({
+          where: { id: input.id, tenantId: ctx.tenantId, deletedAt: { not: null } }
+        })
+        if (!contact) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Contact not found in trash' })
+        }
+
+        if (contact.email) {
+          const conflict = await ctx.prisma.contact.findFirst({
+            where: {
+              tenantId: ctx.tenantId,
+              deletedAt: null,
+              email: { equals: contact.email, mode: 'insensitive' }
+            }
+          })
+          if (conflict) {
+            throw new TRPCError({
+              code: 'CONFLICT',
+              message: 'Another contact with this email already exists'
+            })
+          }
+        }
+
+        const [deals] = await ctx.prisma.$transaction([
+          ctx.prisma.deal.updateMany({
+            where: { contactId: contact.id, deletedAt: contact.deletedAt },
+            data: { deletedAt: null, deletedById: null }
+          }),
+          ctx.prisma.contact.update({
+            where: { id: contact.id },
+            data: { deletedAt: null, deletedById: null }
+          }),
+          ctx.prisma.activity.create({
+            data: {
+              tenantId: ctx.tenantId,
+              contactId: contact.id,
+              userId: ctx.user.id,
+              type: 'SYSTEM',
+              title: 'Contact restored',
+              description: `Contact ${contact.firstName} ${contact.lastName} was restored from trash`
+            }
+          })
+        ])
+
+        await recalculateLeadScore(ctx.prisma, ctx.tenantId, contact.id)
+        return { success: true, restoredDeals: deals.count }
+      }
+
+      const deal = await ctx.prisma.deal.findFirst({
+        where: { id: input.id, tenantId: ctx.tenantId, deletedAt: { not: null } },
+        include: { contact: { select: { deletedAt: true } } }
+      })
+      if (!deal) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Deal not found in trash' })
+      }
+      if (deal.contact.deletedAt) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'This deal belongs to a trashed contact. Restore the contact first.'
+        })
+      }
+
+      await ctx.prisma.deal.update({
+        where: { id: deal.id },
+        data: { deletedAt: null, deletedById: null }
+      })
+
+      await ctx.prisma.activity.create({
+        data: {
+          tenantId: ctx.tenantId,
+          dealId: deal.id,
+          contactId: deal.contactId,
+          userId: ctx.user.id,
+          type: 'SYSTEM',
+          title: 'Deal restored',
+          description: `Deal "${deal.title}" was restored from trash`
+        }
+      })
+
+      await recalculateLeadScore(ctx.prisma, ctx.tenantId, deal.contactId)
+      return { success: true, restoredDeals: 1 }
+    }),
+
+  // Permanently delete a trashed record
+  purge: tenantProcedure
+    .input(z.object({ type: trashTypeSchema, id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const where = { id: input.id, tenantId: ctx.tenantId, deletedAt: { not: null } }
+
+      const result = input.type === 'contact'
+        ? await ctx.prisma.contact.deleteMany({ where })
+        : await ctx.prisma.deal.deleteMany({ where })
+
+      if (result.count === 0) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: `${input.type === 'contact' ? 'Contact' : 'Deal'} not found in trash`
+        })
+      }
+
+      return { success: true }
+    }),
+
+  // Permanently delete everything in the trash
+  empty: tenantProcedure
+    .mutation(async ({ ctx }) => {
+      const where = { tenantId: ctx.tenantId, deletedAt: { not: null } }
+
+      const [deals, contacts] = await ctx.prisma.$transaction([
+        ctx.prisma.deal.deleteMany({ where }),
+        ctx.prisma.contact.deleteMany({ where })
+      ])
+
+      return { contacts: contacts.count, deals: deals.count }
+    })
+})
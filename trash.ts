@@ -0,0 +1,70 @@
+// packages/trpc/src/lib/trash.ts
+import { PrismaClient } from '@elevate/database'
+import { SortOption } from './list-query'
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30
+
+// Most recently deleted first
+export const TRASH_SORTS: Record<'deleted', SortOption> = {
+  deleted: { columns: [{ field: 'deletedAt' }], defaultDirection: 'desc' }
+}
+
+// Move contacts (and their deals) to the trash. Deals share the contact's
+// deletedAt so restoring the contact can bring exactly those deals back.
+export async function trashContacts(
+  prisma: PrismaClient,
+  tenantId: string,
+  userId: string,
+  contactIds: string[]
+): Promise<number> {
+  const contacts = await prisma.contact.findMany({
+    where: { id: { in: contactIds }, tenantId, deletedAt: null },
+    select: { id: true, firstName: true, lastName: true }
+  })
+  if (contacts.length === 0) return 0
+
+  const ids = contacts.map(c => c.id)
+  const deletedAt = new Date()
+
+  await prisma.$transaction([
+    prisma.deal.updateMany({
+      where: { contactId: { in: ids }, deletedAt: null },
+      data: { deletedAt, deletedById: userId }
+    }),
+    prisma.contact.updateMany({
+      where: { id: { in: ids } },
+      data: { deletedAt, deletedById: userId }
+    }),
+    prisma.activity.createMany({
+      data: contacts.map(contact => ({
+        tenantId,
+        contactId: contact.id,
+        userId,
+        type: 'SYSTEM' as const,
+        title: 'Contact moved to trash',
+        description: `Contact ${contact.firstName} ${contact.lastName} was moved to trash`
+      }))
+    })
+  ])
+
+  return contacts.length
+}
+
+// Permanently delete trashed records older than the tenant's retention period
+export async function purgeExpiredTrash(
+  prisma: PrismaClient,
+  tenantId: string,
+  retentionDays: number
+): Promise<{ contacts: number; deals: number }> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000)
+
+  // Deals first so deals trashed with an expired contact are counted here
+  const deals = await prisma.deal.deleteMany({
+    where: { tenantId, deletedAt: { lt: cutoff } }
+  })
+  const contacts = await prisma.contact.deleteMany({
+    where: { tenantId, deletedAt: { lt: cutoff } }
+  })
+
+  return { contacts: contacts.count, deals: deals.count }
+}
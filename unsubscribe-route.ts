@@ -0,0 +1,57 @@
+// apps/web/app/api/unsubscribe/[token]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@elevate/database'
+import { setConsent, verifyUnsubscribeToken } from '@elevate/trpc/lib/consent'
+
+function page(message: string, form?: string) {
+  return new NextResponse(
+    `<!doctype html><html><head><meta charset="utf-8"><title>Unsubscribe</title></head>` +
+    `<body style="font-family:sans-serif;max-width:480px;margin:80px auto;text-align:center">` +
+    `<p>${message}</p>${form || ''}</body></html>`,
+    { headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } }
+  )
+}
+
+// Link scanners follow GET requests, so GET only asks for confirmation
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  if (!verifyUnsubscribeToken(params.token)) {
+    return page('This unsubscribe link is invalid.')
+  }
+
+  return page(
+    'Unsubscribe from these emails?',
+    `<form method="post"><button type="submit">Unsubscribe</button></form>`
+  )
+}
+
+// Confirmation form and RFC 8058 one-click unsubscribe from mail clients
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const contactId = verifyUnsubscribeToken(params.token)
+    const contact = contactId
+      ? await prisma.contact.findUnique({ where: { id: contactId }, select: { id: true, tenantId: true } })
+      : null
+
+    if (!contact) {
+      return page('This unsubscribe link is invalid.')
+    }
+
+    await prisma.$transaction(tx =>
+      setConsent(tx, contact.tenantId, contact.id, 'EMAIL', 'OPTED_OUT', {
+        source: 'UNSUBSCRIBE_LINK',
+        ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.ip || null
+      })
+    )
+
+    return page('You have been unsubscribed and will no longer receive these emails.')
+  } catch (error) {
+    console.error('Unsubscribe error:', error)
+    return NextResponse.json({ error: 'Internal error' }, { status: 500 })
+  }
+}
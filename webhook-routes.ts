@@ -44,6 +44,7 @@ export async function POST(request: NextRequest) {
 // apps/web/app/api/track/open/[trackingId]/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@elevate/database'
+import { recalculateLeadScore } from '@elevate/trpc/lib/lead-scoring'
 
 export async function GET(
   request: NextRequest,
@@ -64,6 +65,10 @@ export async function GET(
           openedAt: new Date()
         }
       })
+
+      if (email.contactId) {
+        await recalculateLeadScore(prisma, email.tenantId, email.contactId)
+      }
     }
 
     // Return 1x1 transparent pixel
@@ -87,6 +92,7 @@ export async function GET(
 // apps/web/app/api/track/click/[trackingId]/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@elevate/database'
+import { recalculateLeadScore } from '@elevate/trpc/lib/lead-scoring'
 
 export async function GET(
   request: NextRequest,
@@ -112,6 +118,10 @@ export async function GET(
           clickedAt: new Date()
         }
       })
+
+      if (email.contactId) {
+        await recalculateLeadScore(prisma, email.tenantId, email.contactId)
+      }
     }
 
     // Redirect to original URL
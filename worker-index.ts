@@ -3,6 +3,11 @@ import Queue from 'bull'
 import dotenv from 'dotenv'
 import { EmailSender } from './services/email-sender'
 import { SmsSender } from './services/sms-sender'
+import { LeadScorer } from './services/lead-scorer'
+import { TrashPurger } from './services/trash-purger'
+import { ContactExporter } from './services/contact-exporter'
+import { TaskReminder } from './services/task-reminder'
+import { ContactImporter } from './services/contact-importer'
 
 dotenv.config()
 
@@ -15,6 +20,11 @@ export const smsQueue = new Queue('sms', REDIS_URL)
 // Initialize services
 const emailSender = new EmailSender()
 const smsSender = new SmsSender()
+const leadScorer = new LeadScorer()
+const trashPurger = new TrashPurger()
+const contactExporter = new ContactExporter()
+const taskReminder = new TaskReminder()
+const contactImporter = new ContactImporter()
 
 // Email queue processor
 emailQueue.process(10, async (job) => {
@@ -57,6 +67,51 @@ setInterval(async () => {
   }
 }, 30000) // Every 30 seconds
 
+// Lead score refresh (new rules, decay)
+setInterval(async () => {
+  try {
+    await leadScorer.processQueue()
+  } catch (error) {
+    console.error('Error refreshing lead scores:', error)
+  }
+}, 60000) // Every minute
+
+// Trash retention
+setInterval(async () => {
+  try {
+    await trashPurger.processQueue()
+  } catch (error) {
+    console.error('Error purging trash:', error)
+  }
+}, 3600000) // Every hour
+
+// Background contact exports
+setInterval(async () => {
+  try {
+    await contactExporter.processQueue()
+  } catch (error) {
+    console.error('Error processing contact exports:', error)
+  }
+}, 15000) // Every 15 seconds
+
+// Task reminders
+setInterval(async () => {
+  try {
+    await taskReminder.processQueue()
+  } catch (error) {
+    console.error('Error sending task reminders:', error)
+  }
+}, 60000) // Every minute
+
+// Contact import jobs
+setInterval(async () => {
+  try {
+    await contactImporter.processQueue()
+  } catch (error) {
+    console.error('Error processing contact imports:', error)
+  }
+}, 5000) // Every 5 seconds
+
 console.log('🚀 Worker started successfully')
 console.log('📧 Email queue: Ready')
 console.log('📱 SMS queue: Ready')